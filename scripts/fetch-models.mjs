@@ -0,0 +1,158 @@
+// ─── Fetch Models ────────────────────────────────────────────────────────────
+//
+// Puts the files the model-backed features need into `src-tauri/resources`
+// before a release build: the face and subject models with their licenses
+// and the ONNX Runtime library for this platform; the text model is checked
+// in. ONNX Runtime comes from the `onnxruntime-node` npm package, pinned by
+// its integrity hash. Every model, downloaded or not, is then loaded with
+// that runtime and run once at the input size the app uses, so a missing,
+// truncated or different model fails the build instead of the feature.
+//
+// Files already present are kept, so the script is cheap to run again.
+// Usage: node scripts/fetch-models.mjs
+
+import { execFileSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import { copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+const MODEL_DIR = join(ROOT, "src-tauri", "resources", "models");
+const RUNTIME_DIR = join(ROOT, "src-tauri", "resources", "onnxruntime");
+
+// The ONNX Runtime release `ort` 2.0.0-rc.10 is built against
+const ORT_VERSION = "1.22.0";
+const ORT_INTEGRITY =
+  "sha512-QaAqr7PFekrmEsmu1rpw7OxJYyG+iACjNHoNtQIVt9Oh7st8WDPIIUe6KhF9l35HVJTJd9CV1rePoPmKhSV26g==";
+
+/** Files fetched as they are; names match `detect.rs`, `matte.rs` and `models.rs`. */
+const DOWNLOADS = [
+  {
+    file: join(MODEL_DIR, "version-RFB-320.onnx"),
+    url: "https://raw.githubusercontent.com/Linzaer/Ultra-Light-Fast-Generic-Face-Detector-1MB/master/models/onnx/version-RFB-320.onnx",
+  },
+  {
+    file: join(MODEL_DIR, "LICENSE-UltraFace.txt"),
+    url: "https://raw.githubusercontent.com/Linzaer/Ultra-Light-Fast-Generic-Face-Detector-1MB/master/LICENSE",
+  },
+  {
+    file: join(MODEL_DIR, "u2netp.onnx"),
+    url: "https://github.com/danielgatis/rembg/releases/download/v0.0.0/u2netp.onnx",
+  },
+  {
+    file: join(MODEL_DIR, "LICENSE-U-2-Net.txt"),
+    url: "https://raw.githubusercontent.com/xuebinqin/U-2-Net/master/LICENSE",
+  },
+  {
+    file: join(RUNTIME_DIR, "LICENSE-onnxruntime.txt"),
+    url: `https://raw.githubusercontent.com/microsoft/onnxruntime/v${ORT_VERSION}/LICENSE`,
+  },
+];
+
+/**
+ * Library files in the npm package per platform, and the names `models.rs`
+ * looks for. DirectML is a dependency of the Windows build.
+ */
+const RUNTIME_FILES = {
+  darwin: [["libonnxruntime.1.22.0.dylib", "libonnxruntime.dylib"]],
+  linux: [["libonnxruntime.so.1", "libonnxruntime.so"]],
+  win32: [
+    ["onnxruntime.dll", "onnxruntime.dll"],
+    ["DirectML.dll", "DirectML.dll"],
+  ],
+};
+
+/** A zero input at the size the app sends, and what the app reads back. */
+const CHECKS = [
+  {
+    file: "version-RFB-320.onnx",
+    dims: [1, 3, 240, 320],
+    // Scores and boxes per anchor, read by name in `detect.rs`
+    check: (out) =>
+      out.scores?.dims.length === 3 &&
+      out.scores.dims[2] === 2 &&
+      out.boxes?.dims.length === 3 &&
+      out.boxes.dims[2] === 4 &&
+      out.boxes.dims[1] === out.scores.dims[1],
+  },
+  {
+    file: "ch_PP-OCRv4_det_infer.onnx",
+    dims: [1, 3, 64, 96],
+    // A probability map at the input size
+    check: (out, first) => first.dims.slice(-2).join() === "64,96",
+  },
+  {
+    file: "u2netp.onnx",
+    dims: [1, 3, 320, 320],
+    // The fused matte comes first
+    check: (out, first) => first.dims.join() === "1,1,320,320",
+  },
+];
+
+function npm(args, cwd) {
+  return execFileSync("npm", args, { cwd, encoding: "utf8", shell: process.platform === "win32" });
+}
+
+function sha(algorithm, data) {
+  return createHash(algorithm).update(data).digest();
+}
+
+async function download({ file, url }) {
+  if (existsSync(file)) return;
+  console.log(`Downloading ${url}`);
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url}: ${response.status} ${response.statusText}`);
+  writeFileSync(file, Buffer.from(await response.arrayBuffer()));
+}
+
+/** Installs the pinned `onnxruntime-node` into `dir` and returns its package folder. */
+function installRuntime(dir) {
+  npm(["pack", `onnxruntime-node@${ORT_VERSION}`, "--pack-destination", dir, "--silent"], dir);
+  const tarball = join(dir, `onnxruntime-node-${ORT_VERSION}.tgz`);
+  const integrity = "sha512-" + sha("sha512", readFileSync(tarball)).toString("base64");
+  if (integrity !== ORT_INTEGRITY) {
+    throw new Error(`onnxruntime-node ${ORT_VERSION} does not match its pinned integrity hash`);
+  }
+  // The libraries are in the package; its install script only fetches GPU builds
+  npm(["install", "--no-save", "--no-package-lock", "--ignore-scripts", "--silent", tarball], dir);
+  return join(dir, "node_modules", "onnxruntime-node");
+}
+
+function copyRuntime(pkg) {
+  const files = RUNTIME_FILES[process.platform];
+  if (!files) throw new Error(`No ONNX Runtime build for ${process.platform}`);
+  const bin = join(pkg, "bin", "napi-v6", process.platform, process.arch);
+  for (const [from, to] of files) {
+    copyFileSync(join(bin, from), join(RUNTIME_DIR, to));
+    console.log(`ONNX Runtime ${ORT_VERSION} -> ${join(RUNTIME_DIR, to)}`);
+  }
+}
+
+async function checkModels(pkg) {
+  const ort = createRequire(join(pkg, "package.json"))("onnxruntime-node");
+  for (const { file, dims, check } of CHECKS) {
+    const path = join(MODEL_DIR, file);
+    const session = await ort.InferenceSession.create(path);
+    const size = dims.reduce((a, b) => a * b, 1);
+    const input = new ort.Tensor("float32", new Float32Array(size), dims);
+    const out = await session.run({ [session.inputNames[0]]: input });
+    if (!check(out, out[session.outputNames[0]])) {
+      throw new Error(`${file} does not have the inputs and outputs the app expects`);
+    }
+    const digest = sha("sha256", readFileSync(path)).toString("hex");
+    console.log(`${file}: ok (sha256 ${digest})`);
+  }
+}
+
+const work = mkdtempSync(join(tmpdir(), "pixelargon-models-"));
+try {
+  for (const entry of DOWNLOADS) await download(entry);
+  const pkg = installRuntime(work);
+  copyRuntime(pkg);
+  await checkModels(pkg);
+} finally {
+  rmSync(work, { recursive: true, force: true });
+}
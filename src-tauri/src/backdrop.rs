@@ -0,0 +1,56 @@
+//! What transparent pixels are composited onto at the end of the export,
+//! after the final scale: a solid color or a linear gradient across the whole
+//! output. Unlike `FormatOptions::background`, this applies to every format,
+//! so transparent areas don't depend on the pixels hidden under them.
+
+use image::{DynamicImage, Rgb, RgbImage};
+use serde::{Deserialize, Serialize};
+
+#[derive(Debug, Serialize, Deserialize, Clone, Default)]
+#[serde(tag = "kind", rename_all = "snake_case")]
+pub enum Backdrop {
+    /// Transparency is kept where the format supports it
+    #[default]
+    None,
+    Solid {
+        color: [u8; 3],
+    },
+    /// `from` to `to` along `angle` degrees, clockwise from left-to-right,
+    /// spanning the output corner to corner
+    Gradient {
+        from: [u8; 3],
+        to: [u8; 3],
+        angle: f64,
+    },
+}
+
+/// Composites `img` onto the backdrop; the result has no alpha.
+pub fn composite(img: DynamicImage, backdrop: &Backdrop) -> DynamicImage {
+    let (from, to, angle) = match *backdrop {
+        Backdrop::None => return img,
+        Backdrop::Solid { color } => (color, color, 0.0),
+        Backdrop::Gradient { from, to, angle } => (from, to, angle),
+    };
+    let rgba = img.to_rgba8();
+    let (w, h) = (rgba.width() as f64, rgba.height() as f64);
+    let (sin, cos) = angle.to_radians().sin_cos();
+    // Length of the output projected onto the gradient direction
+    let span = (w * cos).abs() + (h * sin).abs();
+    let out = RgbImage::from_fn(rgba.width(), rgba.height(), |x, y| {
+        let dx = x as f64 + 0.5 - w / 2.0;
+        let dy = y as f64 + 0.5 - h / 2.0;
+        let t = if span > 0.0 {
+            ((dx * cos + dy * sin) / span + 0.5).clamp(0.0, 1.0)
+        } else {
+            0.0
+        };
+        let p = rgba.get_pixel(x, y);
+        let a = p[3] as f64 / 255.0;
+        let mix = |c: usize| {
+            let bg = from[c] as f64 + (to[c] as f64 - from[c] as f64) * t;
+            (p[c] as f64 * a + bg * (1.0 - a)).round() as u8
+        };
+        Rgb([mix(0), mix(1), mix(2)])
+    });
+    DynamicImage::ImageRgb8(out)
+}
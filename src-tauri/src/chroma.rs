@@ -0,0 +1,271 @@
+//! Chroma key background removal. Pixels within a perceptual distance (CIE76
+//! ΔE in Lab) of any key color become transparent, either anywhere in the
+//! image or only where connected to the image border or to picked seed
+//! points. Spill suppression then pulls the key's tint out of the pixels left
+//! around the removed area.
+
+use image::RgbaImage;
+use serde::{Deserialize, Serialize};
+use std::sync::OnceLock;
+
+use crate::filters::box_mean;
+use crate::mask;
+
+/// ΔE at tolerance 1; black to white is 100
+const MAX_DELTA_E: f64 = 100.0;
+const MAX_KEYS: usize = 16;
+/// Pixels this close to removed ones count as edge pixels for spill suppression
+const SPILL_RADIUS: usize = 3;
+
+#[derive(Debug, Serialize, Deserialize, Clone, Copy, PartialEq, Default)]
+#[serde(rename_all = "snake_case")]
+pub enum KeyRegion {
+    /// Every matching pixel
+    #[default]
+    Anywhere,
+    /// Matching pixels connected to the image border
+    Edges,
+    /// Matching pixels connected to a seed point
+    Seeds,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct ChromaKey {
+    /// The single key color of settings saved before `colors`
+    #[serde(default, skip_serializing)]
+    pub color: Option<(u8, u8, u8)>,
+    #[serde(default)]
+    pub colors: Vec<(u8, u8, u8)>,
+    /// 0..1; ΔE up to `tolerance * 100` is removed, fading out by twice that
+    pub tolerance: f64,
+    #[serde(default)]
+    pub region: KeyRegion,
+    /// Normalized flood fill start points for `KeyRegion::Seeds`
+    #[serde(default)]
+    pub seeds: Vec<(f64, f64)>,
+    /// Spill suppression strength, 0 (off) .. 1
+    #[serde(default)]
+    pub spill: f64,
+}
+
+impl ChromaKey {
+    fn keys(&self) -> Vec<[f32; 3]> {
+        let colors = if self.colors.is_empty() {
+            self.color.into_iter().collect()
+        } else {
+            self.colors.clone()
+        };
+        colors.into_iter().take(MAX_KEYS).map(to_lab).collect()
+    }
+}
+
+/// Makes the key color transparent in place.
+pub fn apply(img: &mut RgbaImage, key: &ChromaKey) {
+    let alpha = alpha(img, key);
+    despill(img, key, &alpha);
+    mask::apply(img, &alpha);
+}
+
+/// How much of each pixel is kept, 0..1: the inverse of how close it is to a
+/// key color, limited to the key's region.
+pub fn alpha(img: &RgbaImage, key: &ChromaKey) -> Vec<f32> {
+    let keys = key.keys();
+    let (w, h) = (img.width() as usize, img.height() as usize);
+    if keys.is_empty() || w == 0 || h == 0 {
+        return vec![1.0; w * h];
+    }
+    let tol = (key.tolerance.clamp(0.0, 1.0) * MAX_DELTA_E) as f32;
+
+    // Distance to the nearest key color
+    let dist: Vec<f32> = img
+        .pixels()
+        .map(|p| {
+            let lab = to_lab((p[0], p[1], p[2]));
+            keys.iter()
+                .map(|key_lab| delta_e(&lab, key_lab))
+                .fold(f32::INFINITY, f32::min)
+        })
+        .collect();
+
+    let keyed: Vec<f32> = match key.region {
+        KeyRegion::Anywhere => dist.iter().map(|&d| keyed_amount(d, tol)).collect(),
+        KeyRegion::Edges => {
+            let border = (0..w)
+                .flat_map(|x| [x, (h - 1) * w + x])
+                .chain((0..h).flat_map(|y| [y * w, y * w + w - 1]));
+            flood(&dist, w, h, tol, border)
+        }
+        KeyRegion::Seeds => {
+            let seeds = key.seeds.iter().filter_map(|&(nx, ny)| {
+                let x = (nx * w as f64).floor();
+                let y = (ny * h as f64).floor();
+                (x >= 0.0 && y >= 0.0 && x < w as f64 && y < h as f64)
+                    .then(|| y as usize * w + x as usize)
+            });
+            flood(&dist, w, h, tol, seeds)
+        }
+    };
+    keyed.into_iter().map(|k| 1.0 - k).collect()
+}
+
+/// Strips the tint of the nearest key color from pixels that are kept, at
+/// least partly, next to removed ones. `alpha` is the key's (or a refined)
+/// mask for `img`.
+pub fn despill(img: &mut RgbaImage, key: &ChromaKey, alpha: &[f32]) {
+    let keys = key.keys();
+    if key.spill <= 0.0 || keys.is_empty() {
+        return;
+    }
+    let (w, h) = (img.width() as usize, img.height() as usize);
+    let removed: Vec<f32> = alpha.iter().map(|a| 1.0 - a).collect();
+    let near = box_mean(&removed, w, h, SPILL_RADIUS);
+    let strength = key.spill.min(1.0) as f32;
+    for (i, p) in img.pixels_mut().enumerate() {
+        if alpha[i] <= 0.0 || near[i] <= 0.0 {
+            continue;
+        }
+        let mut lab = to_lab((p[0], p[1], p[2]));
+        let [_, ka, kb] = *keys
+            .iter()
+            .min_by(|a, b| delta_e(&lab, a).total_cmp(&delta_e(&lab, b)))
+            .unwrap_or(&keys[0]);
+        let len = ka.hypot(kb);
+        // Grays have no tint to remove
+        if len < 1.0 {
+            continue;
+        }
+        let (da, db) = (ka / len, kb / len);
+        let toward_key = lab[1] * da + lab[2] * db;
+        if toward_key <= 0.0 {
+            continue;
+        }
+        lab[1] -= strength * toward_key * da;
+        lab[2] -= strength * toward_key * db;
+        let (r, g, b) = from_lab(lab);
+        p[0] = r;
+        p[1] = g;
+        p[2] = b;
+    }
+}
+
+/// How much of a pixel at ΔE `d` is background: all of it within `tol`,
+/// fading to none at twice that.
+fn keyed_amount(d: f32, tol: f32) -> f32 {
+    if tol <= 0.0 {
+        return if d <= 0.0 { 1.0 } else { 0.0 };
+    }
+    ((2.0 * tol - d) / tol).clamp(0.0, 1.0)
+}
+
+/// Keys pixels within `tol` that are 4-connected to a start pixel. Pixels in
+/// the fade zone next to the region are keyed partly but don't extend it, so
+/// gradients can't carry the fill into the subject.
+fn flood(
+    dist: &[f32],
+    w: usize,
+    h: usize,
+    tol: f32,
+    starts: impl Iterator<Item = usize>,
+) -> Vec<f32> {
+    let mut keyed = vec![0f32; w * h];
+    let mut seen = vec![false; w * h];
+    let mut stack: Vec<usize> = Vec::new();
+    for i in starts {
+        if !seen[i] && dist[i] <= tol {
+            seen[i] = true;
+            stack.push(i);
+        }
+    }
+    while let Some(i) = stack.pop() {
+        keyed[i] = 1.0;
+        let (x, y) = (i % w, i / w);
+        let neighbours = [
+            (x > 0).then(|| i - 1),
+            (x + 1 < w).then(|| i + 1),
+            (y > 0).then(|| i - w),
+            (y + 1 < h).then(|| i + w),
+        ];
+        for j in neighbours.into_iter().flatten() {
+            if seen[j] {
+                continue;
+            }
+            if dist[j] <= tol {
+                seen[j] = true;
+                stack.push(j);
+            } else {
+                keyed[j] = keyed[j].max(keyed_amount(dist[j], tol));
+            }
+        }
+    }
+    keyed
+}
+
+fn delta_e(a: &[f32; 3], b: &[f32; 3]) -> f32 {
+    ((a[0] - b[0]).powi(2) + (a[1] - b[1]).powi(2) + (a[2] - b[2]).powi(2)).sqrt()
+}
+
+/// sRGB byte to linear light.
+fn linear_table() -> &'static [f32; 256] {
+    static TABLE: OnceLock<[f32; 256]> = OnceLock::new();
+    TABLE.get_or_init(|| {
+        let mut table = [0f32; 256];
+        for (i, v) in table.iter_mut().enumerate() {
+            let c = i as f32 / 255.0;
+            *v = if c <= 0.04045 {
+                c / 12.92
+            } else {
+                ((c + 0.055) / 1.055).powf(2.4)
+            };
+        }
+        table
+    })
+}
+
+// D65 white point
+const WHITE: [f32; 3] = [0.95047, 1.0, 1.08883];
+
+fn to_lab((r, g, b): (u8, u8, u8)) -> [f32; 3] {
+    let lin = linear_table();
+    let (r, g, b) = (lin[r as usize], lin[g as usize], lin[b as usize]);
+    let x = (0.4124 * r + 0.3576 * g + 0.1805 * b) / WHITE[0];
+    let y = (0.2126 * r + 0.7152 * g + 0.0722 * b) / WHITE[1];
+    let z = (0.0193 * r + 0.1192 * g + 0.9505 * b) / WHITE[2];
+    let f = |t: f32| {
+        if t > 0.008856 {
+            t.cbrt()
+        } else {
+            7.787 * t + 16.0 / 116.0
+        }
+    };
+    let (fx, fy, fz) = (f(x), f(y), f(z));
+    [116.0 * fy - 16.0, 500.0 * (fx - fy), 200.0 * (fy - fz)]
+}
+
+fn from_lab([l, a, b]: [f32; 3]) -> (u8, u8, u8) {
+    let fy = (l + 16.0) / 116.0;
+    let fx = fy + a / 500.0;
+    let fz = fy - b / 200.0;
+    let f_inv = |t: f32| {
+        if t > 0.206893 {
+            t * t * t
+        } else {
+            (t - 16.0 / 116.0) / 7.787
+        }
+    };
+    let x = f_inv(fx) * WHITE[0];
+    let y = f_inv(fy) * WHITE[1];
+    let z = f_inv(fz) * WHITE[2];
+    let r = 3.2406 * x - 1.5372 * y - 0.4986 * z;
+    let g = -0.9689 * x + 1.8758 * y + 0.0415 * z;
+    let b = 0.0557 * x - 0.2040 * y + 1.0570 * z;
+    let encode = |c: f32| {
+        let c = c.clamp(0.0, 1.0);
+        let v = if c <= 0.0031308 {
+            c * 12.92
+        } else {
+            1.055 * c.powf(1.0 / 2.4) - 0.055
+        };
+        (v * 255.0).round() as u8
+    };
+    (encode(r), encode(g), encode(b))
+}
@@ -0,0 +1,304 @@
+//! Color adjustments, a line-for-line port of `src/color.ts` so exports match
+//! the canvas preview. Per-channel tone steps (white balance, exposure,
+//! levels, brightness, contrast, curves) are baked into one lookup table per
+//! channel, then hue, saturation, vibrance and grayscale run per pixel, all
+//! in f64 on straight RGBA.
+
+use image::{DynamicImage, RgbaImage};
+use serde::{Deserialize, Serialize};
+
+/// Channel gain at temperature/tint ±1.
+const WB_STRENGTH: f64 = 0.5;
+
+/// Curve control points, input and output in 0..255.
+pub type Curve = Vec<(f64, f64)>;
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+#[serde(default)]
+pub struct Curves {
+    pub rgb: Curve,
+    pub r: Curve,
+    pub g: Curve,
+    pub b: Curve,
+}
+
+impl Default for Curves {
+    fn default() -> Self {
+        Curves {
+            rgb: identity_curve(),
+            r: identity_curve(),
+            g: identity_curve(),
+            b: identity_curve(),
+        }
+    }
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+#[serde(default)]
+pub struct ColorAdjustments {
+    pub grayscale: bool,
+    /// -1..1, a gamma curve that keeps black and white in place
+    pub brightness: f64,
+    /// -1..1, an S-curve around mid gray
+    pub contrast: f64,
+    /// In stops
+    pub exposure: f64,
+    pub levels_black: f64,
+    pub levels_white: f64,
+    pub levels_gamma: f64,
+    pub curves: Curves,
+    /// -1 (cool) .. 1 (warm)
+    pub temperature: f64,
+    /// -1 (green) .. 1 (magenta)
+    pub tint: f64,
+    pub saturation: f64,
+    pub vibrance: f64,
+    /// Degrees
+    pub hue: f64,
+}
+
+impl Default for ColorAdjustments {
+    fn default() -> Self {
+        ColorAdjustments {
+            grayscale: false,
+            brightness: 0.0,
+            contrast: 0.0,
+            exposure: 0.0,
+            levels_black: 0.0,
+            levels_white: 255.0,
+            levels_gamma: 1.0,
+            curves: Curves::default(),
+            temperature: 0.0,
+            tint: 0.0,
+            saturation: 0.0,
+            vibrance: 0.0,
+            hue: 0.0,
+        }
+    }
+}
+
+fn identity_curve() -> Curve {
+    vec![(0.0, 0.0), (255.0, 255.0)]
+}
+
+fn is_curve_identity(points: &Curve) -> bool {
+    let min = points.iter().map(|p| p.0).fold(f64::INFINITY, f64::min);
+    let max = points.iter().map(|p| p.0).fold(f64::NEG_INFINITY, f64::max);
+    points.len() >= 2 && points.iter().all(|(x, y)| x == y) && min == 0.0 && max == 255.0
+}
+
+impl ColorAdjustments {
+    fn tones_unchanged(&self) -> bool {
+        self.brightness == 0.0
+            && self.contrast == 0.0
+            && self.exposure == 0.0
+            && self.levels_black == 0.0
+            && self.levels_white == 255.0
+            && self.levels_gamma == 1.0
+            && self.temperature == 0.0
+            && self.tint == 0.0
+            && is_curve_identity(&self.curves.rgb)
+            && is_curve_identity(&self.curves.r)
+            && is_curve_identity(&self.curves.g)
+            && is_curve_identity(&self.curves.b)
+    }
+
+    fn colors_unchanged(&self) -> bool {
+        !self.grayscale && self.saturation == 0.0 && self.vibrance == 0.0 && self.hue == 0.0
+    }
+}
+
+pub fn apply(img: DynamicImage, adj: &ColorAdjustments) -> DynamicImage {
+    if adj.tones_unchanged() && adj.colors_unchanged() {
+        return img;
+    }
+    let mut rgba = img.to_rgba8();
+    apply_rgba(&mut rgba, adj);
+    DynamicImage::ImageRgba8(rgba)
+}
+
+fn apply_rgba(img: &mut RgbaImage, adj: &ColorAdjustments) {
+    if !adj.tones_unchanged() {
+        let luts = build_luts(adj);
+        for p in img.pixels_mut() {
+            for c in 0..3 {
+                p[c] = luts[c][p[c] as usize];
+            }
+        }
+    }
+    if adj.colors_unchanged() {
+        return;
+    }
+
+    let hue = hue_matrix(adj.hue);
+    let saturation = 1.0 + adj.saturation;
+    for p in img.pixels_mut() {
+        let mut r = p[0] as f64 / 255.0;
+        let mut g = p[1] as f64 / 255.0;
+        let mut b = p[2] as f64 / 255.0;
+        if let Some(m) = hue {
+            (r, g, b) = (
+                m[0] * r + m[1] * g + m[2] * b,
+                m[3] * r + m[4] * g + m[5] * b,
+                m[6] * r + m[7] * g + m[8] * b,
+            );
+        }
+        if adj.saturation != 0.0 || adj.vibrance != 0.0 {
+            let luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+            let chroma = (r.max(g).max(b) - r.min(g).min(b)).clamp(0.0, 1.0);
+            let s = saturation * (1.0 + adj.vibrance * (1.0 - chroma));
+            r = luma + (r - luma) * s;
+            g = luma + (g - luma) * s;
+            b = luma + (b - luma) * s;
+        }
+        if adj.grayscale {
+            let luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+            (r, g, b) = (luma, luma, luma);
+        }
+        p[0] = (r.clamp(0.0, 1.0) * 255.0).round() as u8;
+        p[1] = (g.clamp(0.0, 1.0) * 255.0).round() as u8;
+        p[2] = (b.clamp(0.0, 1.0) * 255.0).round() as u8;
+    }
+}
+
+fn build_luts(adj: &ColorAdjustments) -> [[u8; 256]; 3] {
+    let gains = [
+        1.0 + WB_STRENGTH * adj.temperature,
+        1.0 - WB_STRENGTH * adj.tint,
+        1.0 - WB_STRENGTH * adj.temperature,
+    ];
+    let exposure = 2f64.powf(adj.exposure);
+    let black = adj.levels_black;
+    let white = adj.levels_white.max(black + 1.0);
+    let gamma = 1.0 / adj.levels_gamma;
+    let brightness = 2f64.powf(-adj.brightness);
+    let contrast = 2f64.powf(2.0 * adj.contrast);
+    let rgb_curve = CurveFn::new(&adj.curves.rgb);
+    let channel_curves = [
+        CurveFn::new(&adj.curves.r),
+        CurveFn::new(&adj.curves.g),
+        CurveFn::new(&adj.curves.b),
+    ];
+
+    let mut luts = [[0u8; 256]; 3];
+    for c in 0..3 {
+        for i in 0..256 {
+            let mut v = (i as f64 / 255.0) * gains[c] * exposure;
+            v = ((v * 255.0 - black) / (white - black)).clamp(0.0, 1.0);
+            v = v.powf(gamma);
+            v = v.powf(brightness);
+            v = if v < 0.5 {
+                0.5 * (2.0 * v).powf(contrast)
+            } else {
+                1.0 - 0.5 * (2.0 - 2.0 * v).powf(contrast)
+            };
+            v = channel_curves[c].eval(rgb_curve.eval(v * 255.0));
+            luts[c][i] = v.clamp(0.0, 255.0).round() as u8;
+        }
+    }
+    luts
+}
+
+/// Rotation around the gray axis, the same matrix as CSS `hue-rotate()`.
+fn hue_matrix(degrees: f64) -> Option<[f64; 9]> {
+    if degrees == 0.0 {
+        return None;
+    }
+    let (sin, cos) = degrees.to_radians().sin_cos();
+    Some([
+        0.213 + cos * 0.787 - sin * 0.213,
+        0.715 - cos * 0.715 - sin * 0.715,
+        0.072 - cos * 0.072 + sin * 0.928,
+        0.213 - cos * 0.213 + sin * 0.143,
+        0.715 + cos * 0.285 + sin * 0.14,
+        0.072 - cos * 0.072 - sin * 0.283,
+        0.213 - cos * 0.213 - sin * 0.787,
+        0.715 - cos * 0.715 + sin * 0.715,
+        0.072 + cos * 0.928 + sin * 0.072,
+    ])
+}
+
+/// Monotone cubic (Fritsch–Carlson) interpolation through the curve points.
+/// Flat beyond the end points.
+struct CurveFn {
+    xs: Vec<f64>,
+    ys: Vec<f64>,
+    m: Vec<f64>,
+}
+
+impl CurveFn {
+    fn new(points: &Curve) -> Self {
+        let mut sorted = points.clone();
+        sorted.sort_by(|a, b| a.0.total_cmp(&b.0));
+        let mut xs: Vec<f64> = Vec::new();
+        let mut ys: Vec<f64> = Vec::new();
+        for (x, y) in sorted {
+            // A later point at the same x replaces the earlier one
+            if xs.last() == Some(&x) {
+                *ys.last_mut().unwrap() = y;
+            } else {
+                xs.push(x);
+                ys.push(y);
+            }
+        }
+        let n = xs.len();
+        if n < 2 {
+            return CurveFn { xs, ys, m: vec![] };
+        }
+
+        let d: Vec<f64> = (0..n - 1)
+            .map(|i| (ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]))
+            .collect();
+        let mut m = vec![d[0]];
+        for i in 1..n - 1 {
+            m.push(if d[i - 1] * d[i] <= 0.0 {
+                0.0
+            } else {
+                (d[i - 1] + d[i]) / 2.0
+            });
+        }
+        m.push(d[n - 2]);
+        for i in 0..n - 1 {
+            if d[i] == 0.0 {
+                m[i] = 0.0;
+                m[i + 1] = 0.0;
+                continue;
+            }
+            let a = m[i] / d[i];
+            let b = m[i + 1] / d[i];
+            let s = a * a + b * b;
+            if s > 9.0 {
+                let t = 3.0 / s.sqrt();
+                m[i] = t * a * d[i];
+                m[i + 1] = t * b * d[i];
+            }
+        }
+        CurveFn { xs, ys, m }
+    }
+
+    fn eval(&self, x: f64) -> f64 {
+        let (xs, ys, m) = (&self.xs, &self.ys, &self.m);
+        let n = xs.len();
+        if n == 0 {
+            return x;
+        }
+        if n == 1 || x <= xs[0] {
+            return ys[0];
+        }
+        if x >= xs[n - 1] {
+            return ys[n - 1];
+        }
+        let mut i = 0;
+        while x >= xs[i + 1] {
+            i += 1;
+        }
+        let h = xs[i + 1] - xs[i];
+        let t = (x - xs[i]) / h;
+        let t2 = t * t;
+        let t3 = t2 * t;
+        (2.0 * t3 - 3.0 * t2 + 1.0) * ys[i]
+            + (t3 - 2.0 * t2 + t) * h * m[i]
+            + (-2.0 * t3 + 3.0 * t2) * ys[i + 1]
+            + (t3 - t2) * h * m[i + 1]
+    }
+}
@@ -0,0 +1,209 @@
+//! Face and text detection for proposing redaction regions, using two of the
+//! bundled models.
+
+use image::imageops::FilterType;
+use image::{DynamicImage, GenericImageView};
+use ort::session::Session;
+use ort::value::Tensor;
+use serde::Serialize;
+use std::sync::Mutex;
+
+use crate::models::{with_session, IMAGENET_MEAN, IMAGENET_STD};
+
+/// UltraFace RFB-320: fixed 320×240 RGB input, decoded corner boxes out.
+pub const FACE_MODEL: &str = "version-RFB-320.onnx";
+const FACE_INPUT: (u32, u32) = (320, 240);
+const FACE_SCORE: f32 = 0.7;
+const FACE_IOU: f64 = 0.3;
+
+/// PaddleOCR DB text detector: any size in multiples of 32, probability map out.
+pub const TEXT_MODEL: &str = "ch_PP-OCRv4_det_infer.onnx";
+const TEXT_MAX_SIDE: f64 = 960.0;
+const TEXT_THRESHOLD: f32 = 0.3;
+const TEXT_SCORE: f64 = 0.6;
+/// Regions shrink during training; boxes grow back by area / perimeter times this
+const TEXT_UNCLIP: f64 = 1.5;
+const TEXT_MIN_SIDE: usize = 3;
+
+static FACE_SESSION: Mutex<Option<Session>> = Mutex::new(None);
+static TEXT_SESSION: Mutex<Option<Session>> = Mutex::new(None);
+
+#[derive(Debug, Serialize, Clone, Copy, PartialEq)]
+#[serde(rename_all = "snake_case")]
+pub enum DetectionKind {
+    Face,
+    Text,
+}
+
+/// A proposed region, normalized to the image that was searched.
+#[derive(Debug, Serialize, Clone)]
+pub struct Detection {
+    pub kind: DetectionKind,
+    pub x: f64,
+    pub y: f64,
+    pub width: f64,
+    pub height: f64,
+    pub score: f64,
+}
+
+pub fn faces(img: &DynamicImage) -> Result<Vec<Detection>, String> {
+    let (w, h) = FACE_INPUT;
+    let small = img.resize_exact(w, h, FilterType::Triangle).to_rgb8();
+    let plane = (w * h) as usize;
+    let mut data = vec![0f32; 3 * plane];
+    for (i, p) in small.pixels().enumerate() {
+        for c in 0..3 {
+            data[c * plane + i] = (p[c] as f32 - 127.0) / 128.0;
+        }
+    }
+    let input = Tensor::from_array(([1usize, 3, h as usize, w as usize], data))
+        .map_err(|e| e.to_string())?;
+
+    let mut found = with_session(&FACE_SESSION, FACE_MODEL, |session| {
+        let outputs = session
+            .run(ort::inputs![input])
+            .map_err(|e| e.to_string())?;
+        let (_, scores) = outputs["scores"]
+            .try_extract_tensor::<f32>()
+            .map_err(|e| e.to_string())?;
+        let (_, boxes) = outputs["boxes"]
+            .try_extract_tensor::<f32>()
+            .map_err(|e| e.to_string())?;
+        // Two scores (background, face) and four corners per prior
+        Ok(scores
+            .chunks_exact(2)
+            .zip(boxes.chunks_exact(4))
+            .filter(|(s, _)| s[1] >= FACE_SCORE)
+            .map(|(s, b)| {
+                let x1 = (b[0] as f64).clamp(0.0, 1.0);
+                let y1 = (b[1] as f64).clamp(0.0, 1.0);
+                let x2 = (b[2] as f64).clamp(0.0, 1.0);
+                let y2 = (b[3] as f64).clamp(0.0, 1.0);
+                Detection {
+                    kind: DetectionKind::Face,
+                    x: x1,
+                    y: y1,
+                    width: x2 - x1,
+                    height: y2 - y1,
+                    score: s[1] as f64,
+                }
+            })
+            .filter(|d| d.width > 0.0 && d.height > 0.0)
+            .collect::<Vec<_>>())
+    })?;
+
+    found.sort_by(|a, b| b.score.total_cmp(&a.score));
+    let mut kept: Vec<Detection> = Vec::new();
+    for d in found {
+        if kept.iter().all(|k| iou(k, &d) <= FACE_IOU) {
+            kept.push(d);
+        }
+    }
+    Ok(kept)
+}
+
+fn iou(a: &Detection, b: &Detection) -> f64 {
+    let w = (a.x + a.width).min(b.x + b.width) - a.x.max(b.x);
+    let h = (a.y + a.height).min(b.y + b.height) - a.y.max(b.y);
+    if w <= 0.0 || h <= 0.0 {
+        return 0.0;
+    }
+    let inter = w * h;
+    inter / (a.width * a.height + b.width * b.height - inter)
+}
+
+pub fn text(img: &DynamicImage) -> Result<Vec<Detection>, String> {
+    let (iw, ih) = img.dimensions();
+    let scale = (TEXT_MAX_SIDE / iw.max(ih) as f64).min(1.0);
+    let side = |v: u32| (((v as f64 * scale) / 32.0).round() as u32).max(1) * 32;
+    let (w, h) = (side(iw), side(ih));
+    let small = img.resize_exact(w, h, FilterType::Triangle).to_rgb8();
+    let plane = (w * h) as usize;
+    let mut data = vec![0f32; 3 * plane];
+    // The model was trained on BGR input
+    for (i, p) in small.pixels().enumerate() {
+        for c in 0..3 {
+            data[c * plane + i] = (p[2 - c] as f32 / 255.0 - IMAGENET_MEAN[c]) / IMAGENET_STD[c];
+        }
+    }
+    let input = Tensor::from_array(([1usize, 3, h as usize, w as usize], data))
+        .map_err(|e| e.to_string())?;
+
+    let (mw, mh, prob) = with_session(&TEXT_SESSION, TEXT_MODEL, |session| {
+        let outputs = session
+            .run(ort::inputs![input])
+            .map_err(|e| e.to_string())?;
+        let (shape, prob) = outputs[0]
+            .try_extract_tensor::<f32>()
+            .map_err(|e| e.to_string())?;
+        let &[.., mh, mw] = &shape[..] else {
+            return Err("Unexpected text model output".to_string());
+        };
+        Ok((mw as usize, mh as usize, prob.to_vec()))
+    })?;
+    if prob.len() < mw * mh {
+        return Err("Unexpected text model output".to_string());
+    }
+    Ok(text_boxes(&prob, mw, mh))
+}
+
+/// One box per connected region of the thresholded probability map, scored by
+/// the mean probability inside the region and grown back by the unclip offset.
+fn text_boxes(prob: &[f32], w: usize, h: usize) -> Vec<Detection> {
+    let mut seen = vec![false; w * h];
+    let mut stack = Vec::new();
+    let mut found = Vec::new();
+    for start in 0..w * h {
+        if seen[start] || prob[start] <= TEXT_THRESHOLD {
+            continue;
+        }
+        seen[start] = true;
+        stack.push(start);
+        let (mut x1, mut y1, mut x2, mut y2) = (w, h, 0, 0);
+        let (mut sum, mut count) = (0f64, 0usize);
+        while let Some(i) = stack.pop() {
+            let (x, y) = (i % w, i / w);
+            x1 = x1.min(x);
+            y1 = y1.min(y);
+            x2 = x2.max(x);
+            y2 = y2.max(y);
+            sum += prob[i] as f64;
+            count += 1;
+            let neighbours = [
+                (x > 0).then(|| i - 1),
+                (x + 1 < w).then(|| i + 1),
+                (y > 0).then(|| i - w),
+                (y + 1 < h).then(|| i + w),
+            ];
+            for j in neighbours.into_iter().flatten() {
+                if !seen[j] && prob[j] > TEXT_THRESHOLD {
+                    seen[j] = true;
+                    stack.push(j);
+                }
+            }
+        }
+
+        let (bw, bh) = ((x2 - x1 + 1) as f64, (y2 - y1 + 1) as f64);
+        if (x2 - x1 + 1).min(y2 - y1 + 1) < TEXT_MIN_SIDE {
+            continue;
+        }
+        let score = sum / count as f64;
+        if score < TEXT_SCORE {
+            continue;
+        }
+        let d = bw * bh * TEXT_UNCLIP / (2.0 * (bw + bh));
+        let left = (x1 as f64 - d).max(0.0);
+        let top = (y1 as f64 - d).max(0.0);
+        let right = (x2 as f64 + 1.0 + d).min(w as f64);
+        let bottom = (y2 as f64 + 1.0 + d).min(h as f64);
+        found.push(Detection {
+            kind: DetectionKind::Text,
+            x: left / w as f64,
+            y: top / h as f64,
+            width: (right - left) / w as f64,
+            height: (bottom - top) / h as f64,
+            score,
+        });
+    }
+    found
+}
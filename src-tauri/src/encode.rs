@@ -0,0 +1,236 @@
+//! Encoders for the export formats. JPEG uses `jpeg-encoder` for progressive
+//! and subsampling control, lossy WebP uses libwebp and TIFF uses the `tiff`
+//! crate directly for compression; everything else goes through `image`.
+//! Formats without an alpha channel are flattened onto a background color
+//! rather than having their alpha dropped.
+
+use image::codecs::avif::AvifEncoder;
+use image::codecs::bmp::BmpEncoder;
+use image::codecs::gif::GifEncoder;
+use image::codecs::png::{CompressionType, FilterType, PngEncoder};
+use image::{DynamicImage, ExtendedColorType, ImageEncoder, Rgb, RgbImage};
+use serde::{Deserialize, Serialize};
+use tiff::encoder::{colortype, compression, TiffEncoder};
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+#[serde(default)]
+pub struct FormatOptions {
+    /// "fast", "default" or "best"
+    pub png_compression: String,
+    pub jpeg_progressive: bool,
+    /// "420", "422" or "444"
+    pub jpeg_subsampling: String,
+    pub webp_lossless: bool,
+    /// 1 (slowest, smallest) to 10 (fastest)
+    pub avif_speed: u8,
+    /// "none", "lzw" or "deflate"
+    pub tiff_compression: String,
+    /// 32-bit BMP with alpha instead of flattened 24-bit
+    pub bmp_alpha: bool,
+    /// Palette quantization speed, 1 (best) to 30 (fastest)
+    pub gif_speed: i32,
+    /// What transparent pixels are flattened onto for JPEG and 24-bit BMP
+    pub background: [u8; 3],
+}
+
+impl Default for FormatOptions {
+    fn default() -> Self {
+        FormatOptions {
+            png_compression: "default".to_string(),
+            jpeg_progressive: false,
+            jpeg_subsampling: "420".to_string(),
+            webp_lossless: false,
+            avif_speed: 6,
+            tiff_compression: "lzw".to_string(),
+            bmp_alpha: true,
+            gif_speed: 10,
+            background: [255, 255, 255],
+        }
+    }
+}
+
+/// Encodes `img` as `format`. `quality` (1-100) applies to JPEG, lossy WebP
+/// and AVIF.
+pub fn encode(
+    img: &DynamicImage,
+    format: &str,
+    quality: u8,
+    options: &FormatOptions,
+) -> Result<Vec<u8>, String> {
+    let quality = quality.clamp(1, 100);
+    let mut buf = Vec::new();
+    match format {
+        "jpeg" | "jpg" => encode_jpeg(&mut buf, img, quality, options)?,
+        "webp" => encode_webp(&mut buf, img, quality, options)?,
+        "avif" => {
+            let encoder = AvifEncoder::new_with_speed_quality(
+                &mut buf,
+                options.avif_speed.clamp(1, 10),
+                quality,
+            );
+            write_rgb_or_rgba(encoder, img)?;
+        }
+        "tiff" | "tif" => encode_tiff(&mut buf, img, options)?,
+        "bmp" => {
+            let encoder = BmpEncoder::new(&mut buf);
+            if options.bmp_alpha {
+                write_rgb_or_rgba(encoder, img)?;
+            } else {
+                let rgb = flatten(img, options.background);
+                encoder
+                    .write_image(rgb.as_raw(), rgb.width(), rgb.height(), ExtendedColorType::Rgb8)
+                    .map_err(|e| e.to_string())?;
+            }
+        }
+        "gif" => {
+            // GIF transparency is 1-bit; the encoder keys out fully transparent pixels
+            let rgba = img.to_rgba8();
+            let mut encoder = GifEncoder::new_with_speed(&mut buf, options.gif_speed.clamp(1, 30));
+            encoder
+                .encode(rgba.as_raw(), rgba.width(), rgba.height(), ExtendedColorType::Rgba8)
+                .map_err(|e| e.to_string())?;
+        }
+        _ => {
+            let compression = match options.png_compression.as_str() {
+                "fast" => CompressionType::Fast,
+                "best" => CompressionType::Best,
+                _ => CompressionType::Default,
+            };
+            let encoder = PngEncoder::new_with_quality(&mut buf, compression, FilterType::Adaptive);
+            img.write_with_encoder(encoder).map_err(|e| e.to_string())?;
+        }
+    }
+    Ok(buf)
+}
+
+/// File extension for `format`; matches `ext` in `formats.ts`.
+pub fn extension(format: &str) -> &'static str {
+    match format {
+        "jpeg" | "jpg" => "jpg",
+        "webp" => "webp",
+        "avif" => "avif",
+        "tiff" | "tif" => "tiff",
+        "bmp" => "bmp",
+        "gif" => "gif",
+        _ => "png",
+    }
+}
+
+/// Whether `quality` affects the output; matches `lossy` in `formats.ts`.
+pub fn is_lossy(format: &str, options: &FormatOptions) -> bool {
+    match format {
+        "jpeg" | "jpg" | "avif" => true,
+        "webp" => !options.webp_lossless,
+        _ => false,
+    }
+}
+
+fn encode_jpeg(
+    buf: &mut Vec<u8>,
+    img: &DynamicImage,
+    quality: u8,
+    options: &FormatOptions,
+) -> Result<(), String> {
+    let rgb = flatten(img, options.background);
+    let (w, h) = rgb.dimensions();
+    if w > u16::MAX as u32 || h > u16::MAX as u32 {
+        return Err(format!("JPEG is limited to {0}×{0} pixels", u16::MAX));
+    }
+    let mut encoder = jpeg_encoder::Encoder::new(buf, quality);
+    encoder.set_progressive(options.jpeg_progressive);
+    encoder.set_sampling_factor(match options.jpeg_subsampling.as_str() {
+        "444" => jpeg_encoder::SamplingFactor::R_4_4_4,
+        "422" => jpeg_encoder::SamplingFactor::R_4_2_2,
+        _ => jpeg_encoder::SamplingFactor::R_4_2_0,
+    });
+    encoder
+        .encode(rgb.as_raw(), w as u16, h as u16, jpeg_encoder::ColorType::Rgb)
+        .map_err(|e| e.to_string())
+}
+
+fn encode_webp(
+    buf: &mut Vec<u8>,
+    img: &DynamicImage,
+    quality: u8,
+    options: &FormatOptions,
+) -> Result<(), String> {
+    let encoded = if img.color().has_alpha() {
+        let rgba = img.to_rgba8();
+        webp::Encoder::from_rgba(rgba.as_raw(), rgba.width(), rgba.height())
+            .encode_simple(options.webp_lossless, quality as f32)
+    } else {
+        let rgb = img.to_rgb8();
+        webp::Encoder::from_rgb(rgb.as_raw(), rgb.width(), rgb.height())
+            .encode_simple(options.webp_lossless, quality as f32)
+    }
+    .map_err(|e| format!("WebP encoding failed: {:?}", e))?;
+    buf.extend_from_slice(&encoded);
+    Ok(())
+}
+
+fn encode_tiff(buf: &mut Vec<u8>, img: &DynamicImage, options: &FormatOptions) -> Result<(), String> {
+    let cursor = std::io::Cursor::new(buf);
+    let mut encoder = TiffEncoder::new(cursor).map_err(|e| e.to_string())?;
+    if img.color().has_alpha() {
+        let rgba = img.to_rgba8();
+        write_tiff::<colortype::RGBA8>(&mut encoder, rgba.width(), rgba.height(), rgba.as_raw(), options)
+    } else {
+        let rgb = img.to_rgb8();
+        write_tiff::<colortype::RGB8>(&mut encoder, rgb.width(), rgb.height(), rgb.as_raw(), options)
+    }
+}
+
+fn write_tiff<C: colortype::ColorType<Inner = u8>>(
+    encoder: &mut TiffEncoder<std::io::Cursor<&mut Vec<u8>>>,
+    width: u32,
+    height: u32,
+    data: &[u8],
+    options: &FormatOptions,
+) -> Result<(), String> {
+    match options.tiff_compression.as_str() {
+        "none" => encoder.write_image::<C>(width, height, data),
+        "deflate" => encoder.write_image_with_compression::<C, _>(
+            width,
+            height,
+            compression::Deflate::default(),
+            data,
+        ),
+        _ => encoder.write_image_with_compression::<C, _>(
+            width,
+            height,
+            compression::Lzw::default(),
+            data,
+        ),
+    }
+    .map_err(|e| e.to_string())
+}
+
+/// Writes 8-bit RGB or RGBA depending on whether the image has alpha.
+fn write_rgb_or_rgba<E: ImageEncoder>(encoder: E, img: &DynamicImage) -> Result<(), String> {
+    if img.color().has_alpha() {
+        let rgba = img.to_rgba8();
+        encoder.write_image(rgba.as_raw(), rgba.width(), rgba.height(), ExtendedColorType::Rgba8)
+    } else {
+        let rgb = img.to_rgb8();
+        encoder.write_image(rgb.as_raw(), rgb.width(), rgb.height(), ExtendedColorType::Rgb8)
+    }
+    .map_err(|e| e.to_string())
+}
+
+/// Composites the image over `background` for formats without alpha.
+fn flatten(img: &DynamicImage, background: [u8; 3]) -> RgbImage {
+    if !img.color().has_alpha() {
+        return img.to_rgb8();
+    }
+    let rgba = img.to_rgba8();
+    RgbImage::from_fn(rgba.width(), rgba.height(), |x, y| {
+        let p = rgba.get_pixel(x, y);
+        let a = p[3] as u32;
+        let mix = |c: u8, bg: u8| ((c as u32 * a + bg as u32 * (255 - a) + 127) / 255) as u8;
+        Rgb([
+            mix(p[0], background[0]),
+            mix(p[1], background[1]),
+            mix(p[2], background[2]),
+        ])
+    })
+}
@@ -0,0 +1,208 @@
+//! Denoise, blur and sharpen, mirroring `src/filters.ts`. The Gaussian is
+//! three box blurs, so its cost per pixel doesn't depend on the radius, and
+//! the median uses a sliding histogram.
+
+use image::{DynamicImage, RgbaImage};
+use serde::{Deserialize, Serialize};
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+#[serde(default)]
+pub struct Filters {
+    /// Unsharp mask strength, 0 (off) .. 5
+    pub sharpen_amount: f64,
+    /// Unsharp mask blur sigma in pixels
+    pub sharpen_radius: f64,
+    /// Differences below this (0..255) are left alone
+    pub sharpen_threshold: f64,
+    /// Gaussian sigma in pixels, 0 = off
+    pub blur_radius: f64,
+    /// Median window radius in pixels, 0 = off
+    pub denoise_radius: u32,
+}
+
+impl Default for Filters {
+    fn default() -> Self {
+        Filters {
+            sharpen_amount: 0.0,
+            sharpen_radius: 1.0,
+            sharpen_threshold: 0.0,
+            blur_radius: 0.0,
+            denoise_radius: 0,
+        }
+    }
+}
+
+/// Denoise, then blur, then sharpen.
+pub fn apply(img: DynamicImage, f: &Filters) -> DynamicImage {
+    if f.sharpen_amount <= 0.0 && f.blur_radius <= 0.0 && f.denoise_radius == 0 {
+        return img;
+    }
+    let mut rgba = img.to_rgba8();
+    if f.denoise_radius > 0 {
+        rgba = median(&rgba, f.denoise_radius.min(5));
+    }
+    if f.blur_radius > 0.0 {
+        rgba = gaussian_blur(&rgba, f.blur_radius.min(50.0));
+    }
+    if f.sharpen_amount > 0.0 {
+        let blurred = gaussian_blur(&rgba, f.sharpen_radius.clamp(0.1, 20.0));
+        for (p, b) in rgba.pixels_mut().zip(blurred.pixels()) {
+            for c in 0..3 {
+                let diff = p[c] as f64 - b[c] as f64;
+                if diff.abs() >= f.sharpen_threshold {
+                    p[c] = (p[c] as f64 + f.sharpen_amount * diff).round().clamp(0.0, 255.0) as u8;
+                }
+            }
+        }
+    }
+    DynamicImage::ImageRgba8(rgba)
+}
+
+/// Box radii for three passes approximating a Gaussian of `sigma` (Kovesi).
+fn box_radii(sigma: f64) -> [usize; 3] {
+    let n = 3.0;
+    let ideal = (12.0 * sigma * sigma / n + 1.0).sqrt();
+    let mut wl = ideal.floor() as i64;
+    if wl % 2 == 0 {
+        wl -= 1;
+    }
+    let wu = wl + 2;
+    let wlf = wl as f64;
+    let m = ((12.0 * sigma * sigma - n * wlf * wlf - 4.0 * n * wlf - 3.0 * n) / (-4.0 * wlf - 4.0))
+        .round() as i64;
+    let mut radii = [0; 3];
+    for (i, r) in radii.iter_mut().enumerate() {
+        let w = if (i as i64) < m { wl } else { wu };
+        *r = ((w - 1) / 2).max(0) as usize;
+    }
+    radii
+}
+
+/// One box blur pass of radius `r` along `lines` lines of `len` samples,
+/// `step` apart, with line `i` starting at `i * line_step`. Edges repeat the
+/// border sample.
+fn box_pass(
+    src: &[f32],
+    dst: &mut [f32],
+    lines: usize,
+    line_step: usize,
+    len: usize,
+    step: usize,
+    r: usize,
+) {
+    if r == 0 {
+        dst.copy_from_slice(src);
+        return;
+    }
+    let norm = 1.0 / (2 * r + 1) as f64;
+    for line in 0..lines {
+        let start = line * line_step;
+        let at = |i: isize| src[start + i.clamp(0, len as isize - 1) as usize * step] as f64;
+        let r = r as isize;
+        let mut sum: f64 = (-r..=r).map(at).sum();
+        for i in 0..len as isize {
+            dst[start + i as usize * step] = (sum * norm) as f32;
+            sum += at(i + r + 1) - at(i - r);
+        }
+    }
+}
+
+/// Gaussian blur of one `w`×`h` plane, in place.
+pub fn blur_plane(plane: &mut [f32], w: usize, h: usize, sigma: f64) {
+    let mut tmp = vec![0f32; w * h];
+    for r in box_radii(sigma) {
+        box_pass(plane, &mut tmp, h, w, w, 1, r);
+        box_pass(&tmp, plane, w, 1, h, w, r);
+    }
+}
+
+/// Mean over the (2r+1)² box around each sample of a `w`×`h` plane.
+pub fn box_mean(plane: &[f32], w: usize, h: usize, r: usize) -> Vec<f32> {
+    let mut tmp = vec![0f32; w * h];
+    let mut out = vec![0f32; w * h];
+    box_pass(plane, &mut tmp, h, w, w, 1, r);
+    box_pass(&tmp, &mut out, w, 1, h, w, r);
+    out
+}
+
+/// Gaussian blur on premultiplied alpha, so transparent pixels don't bleed.
+pub fn gaussian_blur(img: &RgbaImage, sigma: f64) -> RgbaImage {
+    let (w, h) = (img.width() as usize, img.height() as usize);
+    let size = w * h;
+    let mut planes = vec![vec![0f32; size]; 4];
+    for (i, p) in img.pixels().enumerate() {
+        let a = p[3] as f32;
+        for c in 0..3 {
+            planes[c][i] = p[c] as f32 * a / 255.0;
+        }
+        planes[3][i] = a;
+    }
+    for plane in planes.iter_mut() {
+        blur_plane(plane, w, h, sigma);
+    }
+    let mut out = RgbaImage::new(img.width(), img.height());
+    for (i, p) in out.pixels_mut().enumerate() {
+        let a = planes[3][i];
+        if a <= 0.0 {
+            continue;
+        }
+        for c in 0..3 {
+            p[c] = (planes[c][i] * 255.0 / a).round().clamp(0.0, 255.0) as u8;
+        }
+        p[3] = a.round().clamp(0.0, 255.0) as u8;
+    }
+    out
+}
+
+/// Median of each color channel over a (2r+1)² window, using Huang's sliding
+/// histogram so the cost per pixel grows with r rather than r². Alpha is kept.
+fn median(img: &RgbaImage, r: u32) -> RgbaImage {
+    let (w, h) = (img.width() as i64, img.height() as i64);
+    let r = r as i64;
+    let src = img.as_raw();
+    let px = |x: i64, y: i64, c: usize| {
+        src[((y.clamp(0, h - 1) * w + x.clamp(0, w - 1)) * 4) as usize + c] as usize
+    };
+    let half = ((2 * r + 1) * (2 * r + 1) / 2) as u32;
+    let mut out = img.clone();
+    let dst: &mut [u8] = &mut out;
+    for c in 0..3 {
+        for y in 0..h {
+            let mut hist = [0u32; 256];
+            for dy in -r..=r {
+                for dx in -r..=r {
+                    hist[px(dx, y + dy, c)] += 1;
+                }
+            }
+            // `below` counts the window samples less than the running median `m`
+            let mut m = 0usize;
+            let mut below = 0u32;
+            for x in 0..w {
+                if x > 0 {
+                    for dy in -r..=r {
+                        let old = px(x - r - 1, y + dy, c);
+                        let add = px(x + r, y + dy, c);
+                        hist[old] -= 1;
+                        if old < m {
+                            below -= 1;
+                        }
+                        hist[add] += 1;
+                        if add < m {
+                            below += 1;
+                        }
+                    }
+                }
+                while below > half {
+                    m -= 1;
+                    below -= hist[m];
+                }
+                while below + hist[m] <= half {
+                    below += hist[m];
+                    m += 1;
+                }
+                dst[((y * w + x) * 4) as usize + c] = m as u8;
+            }
+        }
+    }
+    out
+}
@@ -1,12 +1,42 @@
+mod backdrop;
+mod chroma;
+mod color;
+mod detect;
+mod encode;
+mod filters;
+mod mask;
+mod matte;
+mod metadata;
+mod models;
+mod redact;
+mod smartcrop;
+mod text;
+mod verify;
+
+use backdrop::Backdrop;
 use base64::Engine;
-use image::{DynamicImage, GenericImageView, ImageEncoder, Rgba, RgbaImage};
+use chroma::ChromaKey;
+use color::ColorAdjustments;
+use detect::Detection;
+use encode::FormatOptions;
+use filters::Filters;
+use image::{DynamicImage, GenericImageView, ImageDecoder, Rgba, RgbaImage};
+use matte::{MatteSettings, Saliency};
+use metadata::{MetadataOptions, SourceMetadata};
+use models::ModelStatus;
+use redact::PixelateStroke;
 use serde::{Deserialize, Serialize};
+use std::collections::HashSet;
 use std::fs;
-use std::path::PathBuf;
+use std::path::{Component, Path, PathBuf};
+use std::sync::{Arc, Mutex};
 use tauri::Manager;
+use text::{FontFamily, LoadedFont, TextBox};
+use verify::{RedactionCheck, RedactionVerifier};
 
 #[derive(Debug, Serialize, Deserialize, Clone)]
 pub struct ImageInfo {
+    pub path: String,
     pub width: u32,
     pub height: u32,
     pub data_url: String,
@@ -20,171 +50,771 @@ pub struct CropRect {
     pub height: f64,
 }
 
-#[derive(Debug, Serialize, Deserialize, Clone)]
-pub struct PixelateStroke {
-    pub points: Vec<(f64, f64)>,
-    pub radius: f64,
+#[derive(Debug, Serialize, Deserialize, Clone, Copy, PartialEq, Default)]
+#[serde(rename_all = "snake_case")]
+pub enum BgRemovalMode {
+    /// Pixels close to one color become transparent
+    #[default]
+    ChromaKey,
+    /// An alpha matte from the salient-object model
+    Subject,
 }
 
 #[derive(Debug, Serialize, Deserialize, Clone)]
 pub struct BgRemovalSettings {
     pub enabled: bool,
-    pub color: (u8, u8, u8),
-    pub tolerance: f64,
+    #[serde(default)]
+    pub mode: BgRemovalMode,
+    #[serde(flatten)]
+    pub chroma_key: ChromaKey,
+    #[serde(default)]
+    pub matte: MatteSettings,
+    /// A mask refined by hand (see `mask.rs`); used instead of the key or
+    /// matte when set
+    #[serde(default)]
+    pub mask: Option<String>,
+}
+
+/// A non-destructive edit on the layer stack. Coordinates are normalized to
+/// the image as it enters the operation.
+#[derive(Debug, Serialize, Deserialize, Clone)]
+#[serde(tag = "kind", rename_all = "snake_case")]
+pub enum Operation {
+    Rotate {
+        degrees: i32,
+        flip_h: bool,
+        flip_v: bool,
+        /// Fine rotation in degrees, applied after the 90° steps and flips
+        #[serde(default)]
+        angle: f64,
+    },
+    Crop {
+        x: f64,
+        y: f64,
+        width: f64,
+        height: f64,
+    },
+    Perspective {
+        /// Normalized source corners, clockwise from top-left
+        corners: [[f64; 2]; 4],
+        width: u32,
+        height: u32,
+    },
+    Resize {
+        width: u32,
+        height: u32,
+    },
+    Adjust(ColorAdjustments),
+    Filter(Filters),
+    /// Redaction strokes, each with its own mode and settings
+    Pixelate {
+        strokes: Vec<PixelateStroke>,
+    },
+    ChromaKey(ChromaKey),
+    /// Salient-object matte
+    RemoveBackground(MatteSettings),
+    /// A background mask refined by hand, as a PNG data URL (see `mask.rs`)
+    Mask {
+        mask: String,
+    },
+    Text {
+        boxes: Vec<TextBox>,
+    },
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct OperationEntry {
+    #[serde(default = "default_true")]
+    pub enabled: bool,
+    #[serde(flatten)]
+    pub op: Operation,
+}
+
+fn default_true() -> bool {
+    true
 }
 
 #[derive(Debug, Serialize, Deserialize, Clone)]
 pub struct ExportPayload {
     pub source_path: String,
+    #[serde(default)]
+    pub operations: Vec<OperationEntry>,
     pub output_path: String,
     pub output_format: String,
-    pub jpeg_quality: u8,
+    /// 1-100, used by the lossy formats
+    pub quality: u8,
+    #[serde(default)]
+    pub format_options: FormatOptions,
     pub target_width: u32,
     pub target_height: u32,
     pub crop: Option<CropRect>,
     pub rotation: i32,
     pub flip_h: bool,
     pub flip_v: bool,
-    pub grayscale: bool,
-    pub brightness: f64,
-    pub contrast: f64,
+    #[serde(default)]
+    pub straighten: f64,
+    #[serde(default)]
+    pub color: ColorAdjustments,
+    #[serde(default)]
+    pub filters: Filters,
     pub pixelate_strokes: Vec<PixelateStroke>,
-    pub pixelate_block_size: u32,
     pub bg_removal: Option<BgRemovalSettings>,
+    /// Drawn over the image after background removal, before the crop
+    #[serde(default)]
+    pub text_boxes: Vec<TextBox>,
+    /// "scale_then_crop", "crop_then_scale", "fit_with_padding" or "smart"
+    pub mode: String,
+    /// What "fit_with_padding" pads with; none leaves the padding transparent
+    #[serde(default)]
+    pub pad_color: Option<[u8; 3]>,
+    /// Composited under the output after the final scale
+    #[serde(default)]
+    pub backdrop: Backdrop,
+    #[serde(default)]
+    pub metadata: MetadataOptions,
+    #[serde(default)]
+    pub size_limit: Option<SizeLimit>,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct SizeLimit {
+    pub max_bytes: u64,
+    /// Lossy formats shrink the image rather than go below this quality
+    pub min_quality: u8,
+}
+
+/// One output of an export profile, e.g. 1080×1080 JPEG with suffix "_1080".
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct Rendition {
+    pub width: u32,
+    pub height: u32,
+    pub format: String,
+    pub quality: u8,
     pub mode: String,
+    pub suffix: String,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct ExportProfile {
+    pub name: String,
+    pub renditions: Vec<Rendition>,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct ExportPreview {
+    pub bytes: u64,
+    pub quality: u8,
+    pub width: u32,
+    pub height: u32,
+    /// The encoded file decoded back, so compression artifacts are visible
+    pub data_url: String,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct FitResult {
+    pub bytes: u64,
+    pub quality: u8,
+    pub width: u32,
+    pub height: u32,
+}
+
+/// Outcome of `export_image`.
+#[derive(Debug, Serialize, Clone)]
+pub struct ExportResult {
+    pub path: String,
+    /// One entry per redaction stroke, checked against the written file
+    pub redactions: Vec<RedactionCheck>,
+    /// Why the strokes could not be checked at all; the file is written
+    pub redaction_error: Option<String>,
+    /// Text boxes drawn in a fallback font or skipped
+    pub warnings: Vec<String>,
+}
+
+impl ExportResult {
+    fn checked(
+        path: String,
+        checks: Result<Vec<RedactionCheck>, String>,
+        warnings: Vec<String>,
+    ) -> ExportResult {
+        let (redactions, redaction_error) = match checks {
+            Ok(redactions) => (redactions, None),
+            Err(e) => (Vec::new(), Some(e)),
+        };
+        ExportResult {
+            path,
+            redactions,
+            redaction_error,
+            warnings,
+        }
+    }
+}
+
+/// The image redaction strokes are drawn on: the layer stack, then rotation,
+/// flips and straighten.
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct DetectPayload {
+    pub source_path: String,
+    #[serde(default)]
+    pub operations: Vec<OperationEntry>,
+    pub rotation: i32,
+    pub flip_h: bool,
+    pub flip_v: bool,
+    #[serde(default)]
+    pub straighten: f64,
+    pub faces: bool,
+    pub text: bool,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct RenderPayload {
+    pub source_path: String,
+    pub operations: Vec<OperationEntry>,
 }
 
 #[tauri::command]
 fn open_image(path: String) -> Result<ImageInfo, String> {
-    let img = image::open(&path).map_err(|e| format!("Failed to open image: {}", e))?;
+    // The previous image's export preview is no use any more; free it
+    *PREVIEW_CACHE.lock().map_err(|e| e.to_string())? = None;
+    let img = open_oriented(&path)?;
     let (width, height) = img.dimensions();
-
-    let rgba = img.to_rgba8();
-    let mut png_buf = std::io::Cursor::new(Vec::new());
-    rgba.write_to(&mut png_buf, image::ImageFormat::Png)
-        .map_err(|e| format!("Failed to encode preview: {}", e))?;
-
-    let b64 = base64::engine::general_purpose::STANDARD.encode(png_buf.into_inner());
-    let data_url = format!("data:image/png;base64,{}", b64);
+    let data_url = encode_preview(&img)?;
 
     Ok(ImageInfo {
+        path,
         width,
         height,
         data_url,
     })
 }
 
-#[tauri::command]
-fn export_image(payload: ExportPayload) -> Result<String, String> {
-    let mut img =
-        image::open(&payload.source_path).map_err(|e| format!("Failed to open image: {}", e))?;
+/// Longer side of the layered base sent to the editor. The editor stretches
+/// it to the full size, so positions and sizes stay in full-size pixels.
+const PREVIEW_MAX_SIDE: u32 = 2560;
 
-    // 1. Rotate
-    img = match payload.rotation {
-        90 | -270 => DynamicImage::ImageRgba8(image::imageops::rotate90(&img.to_rgba8())),
-        180 | -180 => DynamicImage::ImageRgba8(image::imageops::rotate180(&img.to_rgba8())),
-        270 | -90 => DynamicImage::ImageRgba8(image::imageops::rotate270(&img.to_rgba8())),
-        _ => img,
+/// Replays the layer stack on the source image and returns it as the new
+/// preview base: the full size, with a downscaled image.
+#[tauri::command(async)]
+fn render_operations(payload: RenderPayload) -> Result<ImageInfo, String> {
+    let img = open_oriented(&payload.source_path)?;
+    // Text layers that fall back or are skipped are reported on export
+    let img = apply_operations(img, &payload.operations, &mut Vec::new())?;
+    let (width, height) = img.dimensions();
+    let data_url = if width.max(height) > PREVIEW_MAX_SIDE {
+        encode_preview(&img.resize(
+            PREVIEW_MAX_SIDE,
+            PREVIEW_MAX_SIDE,
+            image::imageops::FilterType::Triangle,
+        ))?
+    } else {
+        encode_preview(&img)?
     };
 
-    // 2. Flip
-    if payload.flip_h {
-        img = DynamicImage::ImageRgba8(image::imageops::flip_horizontal(&img.to_rgba8()));
+    Ok(ImageInfo {
+        path: payload.source_path,
+        width,
+        height,
+        data_url,
+    })
+}
+
+/// Proposes face and text regions to redact, normalized like redaction strokes.
+#[tauri::command(async)]
+fn detect_regions(payload: DetectPayload) -> Result<Vec<Detection>, String> {
+    let img = open_oriented(&payload.source_path)?;
+    let img = apply_operations(img, &payload.operations, &mut Vec::new())?;
+    let img = rotate_flip(img, payload.rotation, payload.flip_h, payload.flip_v);
+    let img = rotate_fine(img, payload.straighten);
+
+    let mut found = Vec::new();
+    if payload.faces {
+        found.extend(detect::faces(&img)?);
     }
-    if payload.flip_v {
-        img = DynamicImage::ImageRgba8(image::imageops::flip_vertical(&img.to_rgba8()));
+    if payload.text {
+        found.extend(detect::text(&img)?);
     }
+    Ok(found)
+}
 
-    // 3. Grayscale
-    if payload.grayscale {
-        img = DynamicImage::ImageLuma8(img.to_luma8()).to_rgba8().into();
+/// Which model-backed features can run on this install.
+#[tauri::command]
+fn model_status() -> ModelStatus {
+    ModelStatus {
+        faces: models::installed(detect::FACE_MODEL),
+        text: models::installed(detect::TEXT_MODEL),
+        subject: models::installed(matte::MODEL),
     }
+}
 
-    // 4. Brightness & Contrast
-    if payload.brightness != 0.0 || payload.contrast != 0.0 {
-        let mut rgba = img.to_rgba8();
-        apply_brightness_contrast(&mut rgba, payload.brightness, payload.contrast);
-        img = DynamicImage::ImageRgba8(rgba);
+/// Computes the background removal mask for refining by hand: the key or
+/// matte on the image before the crop, ignoring any refined mask.
+#[tauri::command(async)]
+fn compute_mask(payload: ExportPayload) -> Result<String, String> {
+    let mut payload = payload;
+    let bg = payload.bg_removal.as_mut().ok_or("Background removal is off")?;
+    bg.enabled = true;
+    bg.mask = None;
+    let bg = bg.clone();
+    let (img, saliency) = render_unkeyed(&payload, &mut Vec::new())?;
+    let rgba = img.to_rgba8();
+    let alpha = background_alpha(&rgba, &bg, saliency.as_deref());
+    mask::encode(&alpha, rgba.width(), rgba.height())
+}
+
+/// Places a crop of `aspect` (width / height) around the subject, normalized
+/// like `ExportPayload::crop`; the payload's own crop is ignored.
+#[tauri::command(async)]
+fn smart_crop(payload: ExportPayload, aspect: f64) -> Result<CropRect, String> {
+    let mut payload = payload;
+    payload.crop = None;
+    let img = render_edits(&payload)?;
+    Ok(smartcrop::place(&img, aspect))
+}
+
+/// Font families for text overlays, installed and bundled.
+#[tauri::command(async)]
+fn list_fonts() -> Vec<FontFamily> {
+    text::families()
+}
+
+/// The font file a text box is drawn with, for the editor to preview it.
+#[tauri::command(async)]
+fn load_font(family: String, bold: bool, italic: bool) -> Result<LoadedFont, String> {
+    text::load(&family, bold, italic)
+}
+
+// Runs off the main thread so batch progress keeps rendering while a file exports.
+#[tauri::command(async)]
+fn export_image(payload: ExportPayload) -> Result<ExportResult, String> {
+    let stages = render_stages(&payload)?;
+    let img = finish_export(
+        stages.edits.clone(),
+        &payload,
+        payload.target_width,
+        payload.target_height,
+        &payload.mode,
+    );
+    let meta = metadata::select_metadata(&payload.source_path, &payload.metadata);
+    let bytes = match payload.size_limit {
+        Some(ref limit) => fit_to_size(&img, &payload, limit, &meta)?.0,
+        None => encode_export(&img, &payload, payload.quality, &meta)?,
+    };
+    fs::write(&payload.output_path, bytes).map_err(|e| e.to_string())?;
+    let checks = RedactionVerifier::new(&stages).check(&payload, &img);
+
+    Ok(ExportResult::checked(payload.output_path, checks, stages.warnings.clone()))
+}
+
+/// Runs the size search without writing anything, so the result can be shown
+/// before export. `export_image` repeats the same deterministic search.
+#[tauri::command(async)]
+fn fit_export_size(payload: ExportPayload) -> Result<FitResult, String> {
+    let limit = payload.size_limit.clone().ok_or("No size limit set")?;
+    let img = render_export(&payload)?;
+    let meta = metadata::select_metadata(&payload.source_path, &payload.metadata);
+    Ok(fit_to_size(&img, &payload, &limit, &meta)?.1)
+}
+
+/// Last image rendered by `preview_export`, keyed by the non-encoder part of
+/// the payload, so moving the quality slider only re-encodes. Only one image
+/// is kept, and `open_image` clears it.
+static PREVIEW_CACHE: Mutex<Option<(String, DynamicImage)>> = Mutex::new(None);
+
+/// Runs the whole export in memory and returns the encoded size together with
+/// a preview of the encoded result.
+#[tauri::command(async)]
+fn preview_export(payload: ExportPayload) -> Result<ExportPreview, String> {
+    let mut render_key = payload.clone();
+    render_key.output_path.clear();
+    render_key.output_format.clear();
+    render_key.quality = 0;
+    render_key.format_options = FormatOptions::default();
+    render_key.metadata = MetadataOptions::default();
+    render_key.size_limit = None;
+    let render_key = serde_json::to_string(&render_key).map_err(|e| e.to_string())?;
+
+    let cached = PREVIEW_CACHE
+        .lock()
+        .map_err(|e| e.to_string())?
+        .as_ref()
+        .filter(|(key, _)| *key == render_key)
+        .map(|(_, img)| img.clone());
+    let img = match cached {
+        Some(img) => img,
+        None => {
+            let img = render_export(&payload)?;
+            *PREVIEW_CACHE.lock().map_err(|e| e.to_string())? = Some((render_key, img.clone()));
+            img
+        }
+    };
+
+    let meta = metadata::select_metadata(&payload.source_path, &payload.metadata);
+    let (bytes, fit) = match payload.size_limit {
+        Some(ref limit) => fit_to_size(&img, &payload, limit, &meta)?,
+        None => {
+            let bytes = encode_export(&img, &payload, payload.quality, &meta)?;
+            fit_result(&img, payload.quality, bytes)
+        }
+    };
+    // Not every format can be shown by the webview, so decode it back
+    let data_url = match image::load_from_memory(&bytes) {
+        Ok(decoded) => encode_preview(&decoded)?,
+        Err(_) => format!(
+            "data:image/{};base64,{}",
+            payload.output_format,
+            base64::engine::general_purpose::STANDARD.encode(&bytes)
+        ),
+    };
+
+    Ok(ExportPreview {
+        bytes: fit.bytes,
+        quality: fit.quality,
+        width: fit.width,
+        height: fit.height,
+        data_url,
+    })
+}
+
+/// Writes every rendition of a profile into `output_dir` as
+/// `<base_name><suffix>.<ext>`. The edits are rendered once; only the final
+/// scale and encode run per rendition. The payload's own target size, format
+/// and size limit are ignored. Nothing is written unless every name is a
+/// plain file name and no two renditions share one. Each file gets its own
+/// redaction check, like `export_image`.
+#[tauri::command(async)]
+fn export_renditions(
+    payload: ExportPayload,
+    renditions: Vec<Rendition>,
+    output_dir: String,
+    base_name: String,
+) -> Result<Vec<ExportResult>, String> {
+    let file_names = rendition_file_names(&base_name, &renditions)?;
+    let stages = render_stages(&payload)?;
+    let meta = metadata::select_metadata(&payload.source_path, &payload.metadata);
+    let mut verifier = RedactionVerifier::new(&stages);
+    let mut written = Vec::new();
+    for (rendition, file_name) in renditions.iter().zip(file_names) {
+        let scaled = finish_export(
+            stages.edits.clone(),
+            &payload,
+            rendition.width,
+            rendition.height,
+            &rendition.mode,
+        );
+        let path = PathBuf::from(&output_dir).join(file_name);
+        let mut rendition_payload = payload.clone();
+        rendition_payload.output_path = path.to_string_lossy().to_string();
+        rendition_payload.output_format = rendition.format.clone();
+        rendition_payload.target_width = rendition.width;
+        rendition_payload.target_height = rendition.height;
+        rendition_payload.mode = rendition.mode.clone();
+        rendition_payload.size_limit = None;
+        let bytes = encode_export(&scaled, &rendition_payload, rendition.quality, &meta)?;
+        fs::write(&path, bytes).map_err(|e| format!("{}: {}", path.display(), e))?;
+        let checks = verifier.check(&rendition_payload, &scaled);
+        written.push(ExportResult::checked(
+            rendition_payload.output_path,
+            checks,
+            stages.warnings.clone(),
+        ));
     }
+    Ok(written)
+}
 
-    // 5. Pixelate strokes
-    if !payload.pixelate_strokes.is_empty() {
-        let mut rgba = img.to_rgba8();
-        let (w, h) = (rgba.width(), rgba.height());
-        let block_size = payload.pixelate_block_size.max(4);
-        for stroke in &payload.pixelate_strokes {
-            for &(nx, ny) in &stroke.points {
-                let cx = (nx * w as f64) as i32;
-                let cy = (ny * h as f64) as i32;
-                let r = (stroke.radius * w.max(h) as f64) as i32;
-                pixelate_region(&mut rgba, cx, cy, r, block_size);
-            }
+/// `<base_name><suffix>.<ext>` for each rendition, refusing names that would
+/// leave the output folder and names that differ only in case.
+fn rendition_file_names(base_name: &str, renditions: &[Rendition]) -> Result<Vec<String>, String> {
+    let mut seen = HashSet::new();
+    let mut names = Vec::with_capacity(renditions.len());
+    for rendition in renditions {
+        let name = format!(
+            "{}{}.{}",
+            base_name,
+            rendition.suffix,
+            encode::extension(&rendition.format)
+        );
+        let mut components = Path::new(&name).components();
+        let plain = matches!(components.next(), Some(Component::Normal(_)))
+            && components.next().is_none();
+        if !plain || name.contains(['/', '\\']) || name.contains("..") {
+            return Err(format!("\"{}\" is not a valid file name", name));
         }
-        img = DynamicImage::ImageRgba8(rgba);
+        if !seen.insert(name.to_lowercase()) {
+            return Err(format!("Two renditions would both be written to \"{}\"", name));
+        }
+        names.push(name);
     }
+    Ok(names)
+}
 
-    // 6. Background removal (chroma key)
+fn render_export(payload: &ExportPayload) -> Result<DynamicImage, String> {
+    let img = render_edits(payload)?;
+    Ok(finish_export(
+        img,
+        payload,
+        payload.target_width,
+        payload.target_height,
+        &payload.mode,
+    ))
+}
+
+/// The final scale, then the backdrop, which spans the padding too.
+fn finish_export(
+    img: DynamicImage,
+    payload: &ExportPayload,
+    width: u32,
+    height: u32,
+    mode: &str,
+) -> DynamicImage {
+    let img = scale_to_target(img, width, height, mode, payload.pad_color);
+    backdrop::composite(img, &payload.backdrop)
+}
+
+/// The export pipeline up to and including the crop.
+fn render_edits(payload: &ExportPayload) -> Result<DynamicImage, String> {
+    Ok(render_stages(payload)?.edits)
+}
+
+/// Intermediate images of `render_edits` that the redaction check reuses.
+pub struct EditStages {
+    /// The image before the redaction strokes, kept only when there are any
+    pub unredacted: Option<DynamicImage>,
+    pub saliency: Option<Arc<Saliency>>,
+    /// The `render_edits` result
+    pub edits: DynamicImage,
+    /// Text boxes drawn in a fallback font or skipped
+    pub warnings: Vec<String>,
+}
+
+fn render_stages(payload: &ExportPayload) -> Result<EditStages, String> {
+    let mut warnings = Vec::new();
+    let (img, saliency) = render_base(payload, &mut warnings)?;
+    let unredacted = (!payload.pixelate_strokes.is_empty()).then(|| img.clone());
+
+    // 5. Redaction strokes
+    let img = redact::apply(img, &payload.pixelate_strokes);
+
+    let edits = finish_edits(img, payload, saliency.as_deref(), &mut warnings)?;
+    Ok(EditStages {
+        unredacted,
+        saliency,
+        edits,
+        warnings,
+    })
+}
+
+/// The export pipeline after the redaction strokes, up to and including the
+/// crop.
+fn finish_edits(
+    mut img: DynamicImage,
+    payload: &ExportPayload,
+    saliency: Option<&Saliency>,
+    warnings: &mut Vec<String>,
+) -> Result<DynamicImage, String> {
+    // 6. Background removal
     if let Some(ref bg) = payload.bg_removal {
         if bg.enabled {
             let mut rgba = img.to_rgba8();
-            chroma_key(&mut rgba, bg.color, bg.tolerance);
+            let alpha = match bg.mask {
+                Some(ref mask) => mask::decode(mask, rgba.width(), rgba.height())?,
+                None => background_alpha(&rgba, bg, saliency),
+            };
+            if bg.mode == BgRemovalMode::ChromaKey {
+                chroma::despill(&mut rgba, &bg.chroma_key, &alpha);
+            }
+            mask::apply(&mut rgba, &alpha);
             img = DynamicImage::ImageRgba8(rgba);
         }
     }
 
-    // 7. Crop & Scale
-    let (iw, ih) = img.dimensions();
+    // 7. Text
+    img = text::apply(img, &payload.text_boxes, warnings);
+
+    // 8. Crop
     if let Some(ref crop) = payload.crop {
-        let cx = (crop.x * iw as f64).round() as u32;
-        let cy = (crop.y * ih as f64).round() as u32;
-        let cw = (crop.width * iw as f64).round().max(1.0) as u32;
-        let ch = (crop.height * ih as f64).round().max(1.0) as u32;
-        let cx = cx.min(iw.saturating_sub(1));
-        let cy = cy.min(ih.saturating_sub(1));
-        let cw = cw.min(iw - cx);
-        let ch = ch.min(ih - cy);
-        img = img.crop_imm(cx, cy, cw, ch);
+        img = crop_normalized(img, crop);
     }
 
-    if payload.target_width > 0 && payload.target_height > 0 {
-        if payload.mode == "scale_then_crop" {
-            img = scale_then_crop(img, payload.target_width, payload.target_height);
-        } else {
-            img = img.resize_exact(
-                payload.target_width,
-                payload.target_height,
-                image::imageops::FilterType::Lanczos3,
-            );
+    Ok(img)
+}
+
+/// The export pipeline before background removal, with the subject
+/// prediction when the removal needs one.
+fn render_unkeyed(
+    payload: &ExportPayload,
+    warnings: &mut Vec<String>,
+) -> Result<(DynamicImage, Option<Arc<Saliency>>), String> {
+    let (img, saliency) = render_base(payload, warnings)?;
+
+    // 5. Redaction strokes
+    Ok((redact::apply(img, &payload.pixelate_strokes), saliency))
+}
+
+/// The export pipeline before the redaction strokes, with the subject
+/// prediction when background removal needs one.
+fn render_base(
+    payload: &ExportPayload,
+    warnings: &mut Vec<String>,
+) -> Result<(DynamicImage, Option<Arc<Saliency>>), String> {
+    let mut img = open_oriented(&payload.source_path)?;
+
+    // 0. Layer stack
+    img = apply_operations(img, &payload.operations, warnings)?;
+
+    // 1-2. Rotate, flip & straighten
+    img = rotate_flip(img, payload.rotation, payload.flip_h, payload.flip_v);
+    img = rotate_fine(img, payload.straighten);
+
+    // The subject is found before color edits, filters and redaction, so
+    // changing those reuses the cached prediction
+    let saliency = match payload.bg_removal {
+        Some(ref bg) if bg.enabled && bg.mode == BgRemovalMode::Subject && bg.mask.is_none() => {
+            Some(matte::saliency(&img)?)
         }
+        _ => None,
+    };
+
+    // 3. Color adjustments
+    img = color::apply(img, &payload.color);
+
+    // 4. Denoise, blur & sharpen
+    img = filters::apply(img, &payload.filters);
+
+    Ok((img, saliency))
+}
+
+/// The computed key or matte, 0..1 per pixel of `img`.
+fn background_alpha(img: &RgbaImage, bg: &BgRemovalSettings, saliency: Option<&Saliency>) -> Vec<f32> {
+    match saliency {
+        Some(saliency) => matte::alpha(img, saliency, &bg.matte),
+        None => chroma::alpha(img, &bg.chroma_key),
     }
+}
 
-    // 8. Save
-    let output_path = PathBuf::from(&payload.output_path);
-    match payload.output_format.as_str() {
-        "jpeg" | "jpg" => {
-            let rgb = img.to_rgb8();
-            let mut writer =
-                std::io::BufWriter::new(fs::File::create(&output_path).map_err(|e| e.to_string())?);
-            let encoder = image::codecs::jpeg::JpegEncoder::new_with_quality(
-                &mut writer,
-                payload.jpeg_quality,
-            );
-            encoder
-                .write_image(
-                    rgb.as_raw(),
-                    rgb.width(),
-                    rgb.height(),
-                    image::ExtendedColorType::Rgb8,
-                )
-                .map_err(|e: image::ImageError| e.to_string())?;
+/// Last pipeline step before the backdrop. A zero width or height keeps the
+/// image as is.
+fn scale_to_target(
+    img: DynamicImage,
+    width: u32,
+    height: u32,
+    mode: &str,
+    pad_color: Option<[u8; 3]>,
+) -> DynamicImage {
+    if width == 0 || height == 0 {
+        return img;
+    }
+    match mode {
+        "scale_then_crop" => scale_then_crop(img, width, height),
+        "fit_with_padding" => fit_with_padding(img, width, height, pad_color),
+        "smart" => {
+            let crop = smartcrop::place(&img, width as f64 / height as f64);
+            crop_normalized(img, &crop).resize_exact(
+                width,
+                height,
+                image::imageops::FilterType::Lanczos3,
+            )
         }
-        _ => {
-            img.save_with_format(&output_path, image::ImageFormat::Png)
-                .map_err(|e| e.to_string())?;
+        _ => img.resize_exact(width, height, image::imageops::FilterType::Lanczos3),
+    }
+}
+
+/// Encodes the rendered image and embeds `meta`, the source metadata selected
+/// once per export by `metadata::select_metadata`.
+fn encode_export(
+    img: &DynamicImage,
+    payload: &ExportPayload,
+    quality: u8,
+    meta: &SourceMetadata,
+) -> Result<Vec<u8>, String> {
+    let encoded = encode::encode(img, &payload.output_format, quality, &payload.format_options)?;
+    metadata::write_metadata(encoded, meta)
+}
+
+/// Finds the highest quality that fits `limit.max_bytes`, downscaling when
+/// even `limit.min_quality` (or a lossless format) is too large.
+fn fit_to_size(
+    img: &DynamicImage,
+    payload: &ExportPayload,
+    limit: &SizeLimit,
+    meta: &SourceMetadata,
+) -> Result<(Vec<u8>, FitResult), String> {
+    let lossy = encode::is_lossy(&payload.output_format, &payload.format_options);
+    let min_quality = limit.min_quality.clamp(1, 100);
+    let mut scaled = img.clone();
+
+    for _ in 0..8 {
+        let size = if lossy {
+            let (mut lo, mut hi) = (min_quality, 100u8);
+            let mut best = None;
+            let mut smallest = u64::MAX;
+            while lo <= hi {
+                let mid = lo + (hi - lo) / 2;
+                let bytes = encode_export(&scaled, payload, mid, meta)?;
+                if bytes.len() as u64 <= limit.max_bytes {
+                    best = Some((mid, bytes));
+                    lo = mid + 1;
+                } else {
+                    smallest = smallest.min(bytes.len() as u64);
+                    if mid == min_quality {
+                        break;
+                    }
+                    hi = mid - 1;
+                }
+            }
+            if let Some((quality, bytes)) = best {
+                return Ok(fit_result(&scaled, quality, bytes));
+            }
+            smallest
+        } else {
+            let bytes = encode_export(&scaled, payload, payload.quality, meta)?;
+            if bytes.len() as u64 <= limit.max_bytes {
+                return Ok(fit_result(&scaled, payload.quality, bytes));
+            }
+            bytes.len() as u64
+        };
+
+        let (w, h) = scaled.dimensions();
+        if w <= 1 && h <= 1 {
+            break;
         }
+        // File size scales roughly with pixel count
+        let factor = ((limit.max_bytes as f64 / size as f64).sqrt() * 0.95).clamp(0.1, 0.95);
+        let nw = ((w as f64 * factor).round() as u32).max(1);
+        let nh = ((h as f64 * factor).round() as u32).max(1);
+        scaled = img.resize_exact(nw, nh, image::imageops::FilterType::Lanczos3);
     }
 
-    Ok(payload.output_path)
+    Err(format!(
+        "Could not get the file under {} KB",
+        (limit.max_bytes + 1023) / 1024
+    ))
+}
+
+fn fit_result(img: &DynamicImage, quality: u8, bytes: Vec<u8>) -> (Vec<u8>, FitResult) {
+    let (width, height) = img.dimensions();
+    let result = FitResult {
+        bytes: bytes.len() as u64,
+        quality,
+        width,
+        height,
+    };
+    (bytes, result)
+}
+
+/// Decodes an image and applies its EXIF orientation, so phone photos come in
+/// upright and normalized coordinates match what the user sees.
+fn open_oriented(path: &str) -> Result<DynamicImage, String> {
+    let mut decoder = image::ImageReader::open(path)
+        .and_then(|r| r.with_guessed_format())
+        .map_err(|e| format!("Failed to open image: {}", e))?
+        .into_decoder()
+        .map_err(|e| format!("Failed to open image: {}", e))?;
+    let orientation = decoder
+        .orientation()
+        .unwrap_or(image::metadata::Orientation::NoTransforms);
+    let mut img =
+        DynamicImage::from_decoder(decoder).map_err(|e| format!("Failed to open image: {}", e))?;
+    img.apply_orientation(orientation);
+    Ok(img)
 }
 
 fn scale_then_crop(img: DynamicImage, tw: u32, th: u32) -> DynamicImage {
@@ -198,200 +828,264 @@ fn scale_then_crop(img: DynamicImage, tw: u32, th: u32) -> DynamicImage {
     scaled.crop_imm(ox, oy, tw.min(sw), th.min(sh))
 }
 
-fn apply_brightness_contrast(img: &mut RgbaImage, brightness: f64, contrast: f64) {
-    let b = (brightness * 255.0) as i32;
-    let c = contrast + 1.0;
-    for pixel in img.pixels_mut() {
-        for i in 0..3 {
-            let v = pixel[i] as f64;
-            let v = ((v - 128.0) * c + 128.0 + b as f64).clamp(0.0, 255.0);
-            pixel[i] = v as u8;
-        }
-    }
+/// Scales the image to fit inside the target and centers it, padding the
+/// rest with `pad_color` (transparent without one).
+fn fit_with_padding(
+    img: DynamicImage,
+    tw: u32,
+    th: u32,
+    pad_color: Option<[u8; 3]>,
+) -> DynamicImage {
+    let (iw, ih) = img.dimensions();
+    let scale = (tw as f64 / iw as f64).min(th as f64 / ih as f64);
+    let sw = ((iw as f64 * scale).round() as u32).clamp(1, tw);
+    let sh = ((ih as f64 * scale).round() as u32).clamp(1, th);
+    let scaled = img.resize_exact(sw, sh, image::imageops::FilterType::Lanczos3);
+    let pad = match pad_color {
+        Some([r, g, b]) => Rgba([r, g, b, 255]),
+        None => Rgba([0, 0, 0, 0]),
+    };
+    let mut out = RgbaImage::from_pixel(tw, th, pad);
+    // Replace rather than blend, so transparency in the image is kept for the backdrop
+    let (ox, oy) = ((tw - sw) / 2, (th - sh) / 2);
+    image::imageops::replace(&mut out, &scaled.to_rgba8(), ox as i64, oy as i64);
+    DynamicImage::ImageRgba8(out)
 }
 
-fn pixelate_region(img: &mut RgbaImage, cx: i32, cy: i32, radius: i32, block_size: u32) {
-    let (w, h) = (img.width() as i32, img.height() as i32);
-    let x1 = (cx - radius).max(0);
-    let y1 = (cy - radius).max(0);
-    let x2 = (cx + radius).min(w);
-    let y2 = (cy + radius).min(h);
-
-    let bs = block_size as i32;
-    let mut bx = x1;
-    while bx < x2 {
-        let mut by = y1;
-        while by < y2 {
-            let bx2 = (bx + bs).min(x2);
-            let by2 = (by + bs).min(y2);
-            let mut r_sum: u64 = 0;
-            let mut g_sum: u64 = 0;
-            let mut b_sum: u64 = 0;
-            let mut a_sum: u64 = 0;
-            let mut count: u64 = 0;
-            for py in by..by2 {
-                for px in bx..bx2 {
-                    let p = img.get_pixel(px as u32, py as u32);
-                    r_sum += p[0] as u64;
-                    g_sum += p[1] as u64;
-                    b_sum += p[2] as u64;
-                    a_sum += p[3] as u64;
-                    count += 1;
-                }
-            }
-            if count > 0 {
-                let avg = Rgba([
-                    (r_sum / count) as u8,
-                    (g_sum / count) as u8,
-                    (b_sum / count) as u8,
-                    (a_sum / count) as u8,
-                ]);
-                for py in by..by2 {
-                    for px in bx..bx2 {
-                        img.put_pixel(px as u32, py as u32, avg);
-                    }
-                }
-            }
-            by += bs;
-        }
-        bx += bs;
+fn apply_operations(
+    mut img: DynamicImage,
+    operations: &[OperationEntry],
+    warnings: &mut Vec<String>,
+) -> Result<DynamicImage, String> {
+    for entry in operations.iter().filter(|e| e.enabled) {
+        img = apply_operation(img, &entry.op, warnings)?;
     }
+    Ok(img)
 }
 
-fn chroma_key(img: &mut RgbaImage, color: (u8, u8, u8), tolerance: f64) {
-    let tol = (tolerance * 255.0) as i32;
-    for pixel in img.pixels_mut() {
-        let dr = (pixel[0] as i32 - color.0 as i32).abs();
-        let dg = (pixel[1] as i32 - color.1 as i32).abs();
-        let db = (pixel[2] as i32 - color.2 as i32).abs();
-        let dist = dr + dg + db;
-        if dist <= tol {
-            pixel[3] = 0;
-        } else if dist <= tol * 2 {
-            let factor = (dist - tol) as f64 / tol as f64;
-            pixel[3] = (pixel[3] as f64 * factor).clamp(0.0, 255.0) as u8;
+fn apply_operation(
+    img: DynamicImage,
+    op: &Operation,
+    warnings: &mut Vec<String>,
+) -> Result<DynamicImage, String> {
+    Ok(match op {
+        Operation::Rotate {
+            degrees,
+            flip_h,
+            flip_v,
+            angle,
+        } => rotate_fine(rotate_flip(img, *degrees, *flip_h, *flip_v), *angle),
+        Operation::Crop {
+            x,
+            y,
+            width,
+            height,
+        } => crop_normalized(
+            img,
+            &CropRect {
+                x: *x,
+                y: *y,
+                width: *width,
+                height: *height,
+            },
+        ),
+        Operation::Perspective {
+            corners,
+            width,
+            height,
+        } => perspective_warp(img, corners, *width, *height),
+        Operation::Resize { width, height } => {
+            if *width > 0 && *height > 0 && img.dimensions() != (*width, *height) {
+                img.resize_exact(*width, *height, image::imageops::FilterType::Lanczos3)
+            } else {
+                img
+            }
         }
-    }
-}
-
-#[derive(Debug, Serialize, Deserialize, Clone)]
-pub struct ApplyPayload {
-    pub source_path: String,
-    pub crop: Option<CropRect>,
-    pub rotation: i32,
-    pub flip_h: bool,
-    pub flip_v: bool,
-    pub grayscale: bool,
-    pub brightness: f64,
-    pub contrast: f64,
-    pub pixelate_strokes: Vec<PixelateStroke>,
-    pub pixelate_block_size: u32,
-    pub resize_width: u32,
-    pub resize_height: u32,
+        Operation::Adjust(adjustments) => color::apply(img, adjustments),
+        Operation::Filter(settings) => filters::apply(img, settings),
+        Operation::Pixelate { strokes } => redact::apply(img, strokes),
+        Operation::ChromaKey(key) => {
+            let mut rgba = img.to_rgba8();
+            chroma::apply(&mut rgba, key);
+            DynamicImage::ImageRgba8(rgba)
+        }
+        Operation::RemoveBackground(settings) => {
+            let saliency = matte::saliency(&img)?;
+            let mut rgba = img.to_rgba8();
+            matte::apply(&mut rgba, &saliency, settings);
+            DynamicImage::ImageRgba8(rgba)
+        }
+        Operation::Mask { mask } => {
+            let mut rgba = img.to_rgba8();
+            let alpha = mask::decode(mask, rgba.width(), rgba.height())?;
+            mask::apply(&mut rgba, &alpha);
+            DynamicImage::ImageRgba8(rgba)
+        }
+        Operation::Text { boxes } => text::apply(img, boxes, warnings),
+    })
 }
 
-#[tauri::command]
-fn apply_edits(app: tauri::AppHandle, payload: ApplyPayload) -> Result<ImageInfo, String> {
-    let mut img =
-        image::open(&payload.source_path).map_err(|e| format!("Failed to open image: {}", e))?;
-
-    // Rotate
-    img = match payload.rotation {
+fn rotate_flip(mut img: DynamicImage, degrees: i32, flip_h: bool, flip_v: bool) -> DynamicImage {
+    img = match degrees {
         90 | -270 => DynamicImage::ImageRgba8(image::imageops::rotate90(&img.to_rgba8())),
         180 | -180 => DynamicImage::ImageRgba8(image::imageops::rotate180(&img.to_rgba8())),
         270 | -90 => DynamicImage::ImageRgba8(image::imageops::rotate270(&img.to_rgba8())),
         _ => img,
     };
-
-    // Flip
-    if payload.flip_h {
+    if flip_h {
         img = DynamicImage::ImageRgba8(image::imageops::flip_horizontal(&img.to_rgba8()));
     }
-    if payload.flip_v {
+    if flip_v {
         img = DynamicImage::ImageRgba8(image::imageops::flip_vertical(&img.to_rgba8()));
     }
+    img
+}
 
-    // Grayscale
-    if payload.grayscale {
-        img = DynamicImage::ImageLuma8(img.to_luma8()).to_rgba8().into();
+/// Rotates clockwise by an arbitrary angle around the center, keeping the
+/// canvas size; uncovered corners become transparent. Matches `ctx.rotate` in
+/// the canvas preview so crops line up.
+fn rotate_fine(img: DynamicImage, degrees: f64) -> DynamicImage {
+    if degrees.abs() < 1e-3 {
+        return img;
     }
+    let src = img.to_rgba8();
+    let (w, h) = src.dimensions();
+    let (sin, cos) = degrees.to_radians().sin_cos();
+    let (cx, cy) = (w as f64 / 2.0, h as f64 / 2.0);
+    let out = RgbaImage::from_fn(w, h, |x, y| {
+        // Inverse rotation from the output pixel center back into the source
+        let dx = x as f64 + 0.5 - cx;
+        let dy = y as f64 + 0.5 - cy;
+        let sx = cx + dx * cos + dy * sin;
+        let sy = cy - dx * sin + dy * cos;
+        sample_bilinear(&src, sx - 0.5, sy - 0.5)
+    });
+    DynamicImage::ImageRgba8(out)
+}
 
-    // Brightness & Contrast
-    if payload.brightness != 0.0 || payload.contrast != 0.0 {
-        let mut rgba = img.to_rgba8();
-        apply_brightness_contrast(&mut rgba, payload.brightness, payload.contrast);
-        img = DynamicImage::ImageRgba8(rgba);
+/// Warps the quadrilateral `corners` (normalized, clockwise from top-left) to
+/// a `width`×`height` rectangle. Each output pixel is mapped back through the
+/// unit-square-to-quad homography and sampled bilinearly.
+fn perspective_warp(img: DynamicImage, corners: &[[f64; 2]; 4], width: u32, height: u32) -> DynamicImage {
+    if width == 0 || height == 0 {
+        return img;
     }
+    let src = img.to_rgba8();
+    let (w, h) = (src.width() as f64, src.height() as f64);
+    let Some(map) = square_to_quad(corners.map(|[x, y]| (x * w, y * h))) else {
+        return img;
+    };
 
-    // Pixelate strokes
-    if !payload.pixelate_strokes.is_empty() {
-        let mut rgba = img.to_rgba8();
-        let (w, h) = (rgba.width(), rgba.height());
-        let block_size = payload.pixelate_block_size.max(4);
-        for stroke in &payload.pixelate_strokes {
-            for &(nx, ny) in &stroke.points {
-                let cx = (nx * w as f64) as i32;
-                let cy = (ny * h as f64) as i32;
-                let r = (stroke.radius * w.max(h) as f64) as i32;
-                pixelate_region(&mut rgba, cx, cy, r, block_size);
-            }
-        }
-        img = DynamicImage::ImageRgba8(rgba);
-    }
+    let out = RgbaImage::from_fn(width, height, |x, y| {
+        let u = (x as f64 + 0.5) / width as f64;
+        let v = (y as f64 + 0.5) / height as f64;
+        let (sx, sy) = map(u, v);
+        sample_bilinear(&src, sx - 0.5, sy - 0.5)
+    });
+    DynamicImage::ImageRgba8(out)
+}
 
-    // Crop
-    if let Some(ref crop) = payload.crop {
-        let (iw, ih) = img.dimensions();
-        let cx = (crop.x * iw as f64).round() as u32;
-        let cy = (crop.y * ih as f64).round() as u32;
-        let cw = (crop.width * iw as f64).round().max(1.0) as u32;
-        let ch = (crop.height * ih as f64).round().max(1.0) as u32;
-        let cx = cx.min(iw.saturating_sub(1));
-        let cy = cy.min(ih.saturating_sub(1));
-        let cw = cw.min(iw - cx);
-        let ch = ch.min(ih - cy);
-        img = img.crop_imm(cx, cy, cw, ch);
+/// Heckbert's square-to-quad mapping: (0,0)→p0, (1,0)→p1, (1,1)→p2, (0,1)→p3.
+/// None for a degenerate quad.
+fn square_to_quad([p0, p1, p2, p3]: [(f64, f64); 4]) -> Option<impl Fn(f64, f64) -> (f64, f64)> {
+    let (dx1, dx2, dx3) = (p1.0 - p2.0, p3.0 - p2.0, p0.0 - p1.0 + p2.0 - p3.0);
+    let (dy1, dy2, dy3) = (p1.1 - p2.1, p3.1 - p2.1, p0.1 - p1.1 + p2.1 - p3.1);
+    let den = dx1 * dy2 - dx2 * dy1;
+    if den.abs() < 1e-9 {
+        return None;
     }
+    let g = (dx3 * dy2 - dx2 * dy3) / den;
+    let k = (dx1 * dy3 - dx3 * dy1) / den;
+    let (a, b, c) = (p1.0 - p0.0 + g * p1.0, p3.0 - p0.0 + k * p3.0, p0.0);
+    let (d, e, f) = (p1.1 - p0.1 + g * p1.1, p3.1 - p0.1 + k * p3.1, p0.1);
+    Some(move |u: f64, v: f64| {
+        let z = g * u + k * v + 1.0;
+        ((a * u + b * v + c) / z, (d * u + e * v + f) / z)
+    })
+}
 
-    // Resize
-    if payload.resize_width > 0 && payload.resize_height > 0 {
-        let (cw, ch) = img.dimensions();
-        if payload.resize_width != cw || payload.resize_height != ch {
-            img = img.resize_exact(
-                payload.resize_width,
-                payload.resize_height,
-                image::imageops::FilterType::Lanczos3,
-            );
+/// Bilinear sample weighted by alpha, so edges don't pick up dark fringes.
+/// Samples outside the image count as transparent.
+fn sample_bilinear(img: &RgbaImage, x: f64, y: f64) -> Rgba<u8> {
+    let (x0, y0) = (x.floor(), y.floor());
+    let (fx, fy) = (x - x0, y - y0);
+    let taps = [
+        (0, 0, (1.0 - fx) * (1.0 - fy)),
+        (1, 0, fx * (1.0 - fy)),
+        (0, 1, (1.0 - fx) * fy),
+        (1, 1, fx * fy),
+    ];
+    let mut acc = [0.0f64; 4];
+    for (ox, oy, weight) in taps {
+        let px = x0 as i64 + ox;
+        let py = y0 as i64 + oy;
+        if weight <= 0.0
+            || px < 0
+            || py < 0
+            || px >= img.width() as i64
+            || py >= img.height() as i64
+        {
+            continue;
         }
+        let p = img.get_pixel(px as u32, py as u32);
+        let a = p[3] as f64 * weight;
+        acc[0] += p[0] as f64 * a;
+        acc[1] += p[1] as f64 * a;
+        acc[2] += p[2] as f64 * a;
+        acc[3] += a;
+    }
+    if acc[3] <= 0.0 {
+        return Rgba([0, 0, 0, 0]);
     }
+    Rgba([
+        (acc[0] / acc[3]).round() as u8,
+        (acc[1] / acc[3]).round() as u8,
+        (acc[2] / acc[3]).round() as u8,
+        acc[3].round().min(255.0) as u8,
+    ])
+}
 
-    // Save to temp file
-    let data_dir = app.path().app_data_dir().map_err(|e| e.to_string())?;
-    fs::create_dir_all(&data_dir).map_err(|e| e.to_string())?;
-    let temp_path = data_dir.join("_applied.png");
-    img.save_with_format(&temp_path, image::ImageFormat::Png)
-        .map_err(|e| format!("Failed to save applied image: {}", e))?;
+fn crop_normalized(img: DynamicImage, crop: &CropRect) -> DynamicImage {
+    let (iw, ih) = img.dimensions();
+    let cx = (crop.x * iw as f64).round() as u32;
+    let cy = (crop.y * ih as f64).round() as u32;
+    let cw = (crop.width * iw as f64).round().max(1.0) as u32;
+    let ch = (crop.height * ih as f64).round().max(1.0) as u32;
+    let cx = cx.min(iw.saturating_sub(1));
+    let cy = cy.min(ih.saturating_sub(1));
+    let cw = cw.min(iw - cx);
+    let ch = ch.min(ih - cy);
+    img.crop_imm(cx, cy, cw, ch)
+}
 
-    let (width, height) = img.dimensions();
+fn encode_preview(img: &DynamicImage) -> Result<String, String> {
     let rgba = img.to_rgba8();
     let mut png_buf = std::io::Cursor::new(Vec::new());
     rgba.write_to(&mut png_buf, image::ImageFormat::Png)
         .map_err(|e| format!("Failed to encode preview: {}", e))?;
     let b64 = base64::engine::general_purpose::STANDARD.encode(png_buf.into_inner());
-    let data_url = format!("data:image/png;base64,{}", b64);
-
-    Ok(ImageInfo {
-        width,
-        height,
-        data_url,
-    })
+    Ok(format!("data:image/png;base64,{}", b64))
 }
 
+const IMAGE_EXTENSIONS: [&str; 4] = ["png", "jpg", "jpeg", "webp"];
+
 #[tauri::command]
-fn get_applied_path(app: tauri::AppHandle) -> Result<String, String> {
-    let data_dir = app.path().app_data_dir().map_err(|e| e.to_string())?;
-    let temp_path = data_dir.join("_applied.png");
-    Ok(temp_path.to_string_lossy().to_string())
+fn list_image_files(dir: String) -> Result<Vec<String>, String> {
+    let entries = fs::read_dir(&dir).map_err(|e| format!("Failed to read folder: {}", e))?;
+    let mut files: Vec<String> = entries
+        .filter_map(|entry| entry.ok())
+        .map(|entry| entry.path())
+        .filter(|path| path.is_file())
+        .filter(|path| {
+            path.extension()
+                .and_then(|ext| ext.to_str())
+                .map(|ext| IMAGE_EXTENSIONS.contains(&ext.to_lowercase().as_str()))
+                .unwrap_or(false)
+        })
+        .map(|path| path.to_string_lossy().to_string())
+        .collect();
+    files.sort();
+    Ok(files)
 }
 
 #[tauri::command]
@@ -423,6 +1117,197 @@ fn set_recent_files(app: tauri::AppHandle, files: Vec<String>) -> Result<(), Str
     Ok(())
 }
 
+#[tauri::command]
+fn get_export_profiles(app: tauri::AppHandle) -> Vec<ExportProfile> {
+    let data_dir = app.path().app_data_dir().ok();
+    if let Some(dir) = data_dir {
+        let path = dir.join("export_profiles.json");
+        if path.exists() {
+            if let Ok(data) = fs::read_to_string(&path) {
+                if let Ok(profiles) = serde_json::from_str::<Vec<ExportProfile>>(&data) {
+                    return profiles;
+                }
+            }
+        }
+    }
+    vec![]
+}
+
+#[tauri::command]
+fn set_export_profiles(app: tauri::AppHandle, profiles: Vec<ExportProfile>) -> Result<(), String> {
+    let data_dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| e.to_string())?;
+    fs::create_dir_all(&data_dir).map_err(|e| e.to_string())?;
+    let path = data_dir.join("export_profiles.json");
+    let json = serde_json::to_string_pretty(&profiles).map_err(|e| e.to_string())?;
+    fs::write(&path, json).map_err(|e| e.to_string())?;
+    Ok(())
+}
+
+/// A user crop preset. Without `exact` only the aspect ratio
+/// `width:height` is applied and the target size is left alone.
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct CropPreset {
+    /// Identifies the preset in the editor; older files have none and get one
+    /// assigned there.
+    #[serde(default)]
+    pub id: String,
+    pub name: String,
+    pub width: u32,
+    pub height: u32,
+    #[serde(default)]
+    pub exact: bool,
+    #[serde(default = "default_scale_mode")]
+    pub scale_mode: String,
+}
+
+fn default_scale_mode() -> String {
+    "scale_then_crop".to_string()
+}
+
+#[tauri::command]
+fn get_crop_presets(app: tauri::AppHandle) -> Vec<CropPreset> {
+    let data_dir = app.path().app_data_dir().ok();
+    if let Some(dir) = data_dir {
+        let path = dir.join("crop_presets.json");
+        if path.exists() {
+            if let Ok(data) = fs::read_to_string(&path) {
+                if let Ok(presets) = serde_json::from_str::<Vec<CropPreset>>(&data) {
+                    return presets;
+                }
+            }
+        }
+    }
+    vec![]
+}
+
+#[tauri::command]
+fn set_crop_presets(app: tauri::AppHandle, presets: Vec<CropPreset>) -> Result<(), String> {
+    let data_dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| e.to_string())?;
+    fs::create_dir_all(&data_dir).map_err(|e| e.to_string())?;
+    let path = data_dir.join("crop_presets.json");
+    let json = serde_json::to_string_pretty(&presets).map_err(|e| e.to_string())?;
+    fs::write(&path, json).map_err(|e| e.to_string())?;
+    Ok(())
+}
+
+#[tauri::command]
+fn import_crop_presets(path: String) -> Result<Vec<CropPreset>, String> {
+    let data = fs::read_to_string(&path).map_err(|e| format!("Failed to read presets: {}", e))?;
+    serde_json::from_str(&data).map_err(|e| format!("Invalid presets file: {}", e))
+}
+
+#[tauri::command]
+fn export_crop_presets(path: String, presets: Vec<CropPreset>) -> Result<(), String> {
+    let json = serde_json::to_string_pretty(&presets).map_err(|e| e.to_string())?;
+    fs::write(&path, json).map_err(|e| format!("Failed to write presets: {}", e))
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct RecipeEntry {
+    pub name: String,
+    pub path: String,
+}
+
+fn recipes_dir(app: &tauri::AppHandle) -> Result<PathBuf, String> {
+    let dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| e.to_string())?
+        .join("recipes");
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+    Ok(dir)
+}
+
+/// Turns a recipe name into a safe file stem for the recipe library.
+fn recipe_file_stem(name: &str) -> String {
+    let stem: String = name
+        .trim()
+        .chars()
+        .map(|c| if c.is_alphanumeric() || c == '-' || c == '_' { c } else { '_' })
+        .collect();
+    if stem.is_empty() {
+        "recipe".to_string()
+    } else {
+        stem
+    }
+}
+
+#[tauri::command]
+fn list_recipes(app: tauri::AppHandle) -> Result<Vec<RecipeEntry>, String> {
+    let dir = recipes_dir(&app)?;
+    let mut entries = Vec::new();
+    for entry in fs::read_dir(&dir).map_err(|e| e.to_string())?.flatten() {
+        let path = entry.path();
+        if path.extension().and_then(|e| e.to_str()) != Some("json") {
+            continue;
+        }
+        let stem = path
+            .file_stem()
+            .map(|s| s.to_string_lossy().to_string())
+            .unwrap_or_default();
+        let name = fs::read_to_string(&path)
+            .ok()
+            .and_then(|data| serde_json::from_str::<serde_json::Value>(&data).ok())
+            .and_then(|v| v.get("name").and_then(|n| n.as_str()).map(String::from))
+            .filter(|n| !n.is_empty())
+            .unwrap_or(stem);
+        entries.push(RecipeEntry {
+            name,
+            path: path.to_string_lossy().to_string(),
+        });
+    }
+    entries.sort_by(|a, b| a.name.to_lowercase().cmp(&b.name.to_lowercase()));
+    Ok(entries)
+}
+
+#[tauri::command]
+fn save_recipe(
+    app: tauri::AppHandle,
+    name: String,
+    recipe: serde_json::Value,
+) -> Result<String, String> {
+    let dir = recipes_dir(&app)?;
+    let stem = recipe_file_stem(&name);
+    // Different names can share a stem; replacing a recipe goes through
+    // `write_recipe` with its path, so this never overwrites one
+    let mut path = dir.join(format!("{}.json", stem));
+    let mut n = 2;
+    while path.exists() {
+        path = dir.join(format!("{}_{}.json", stem, n));
+        n += 1;
+    }
+    write_recipe(path.to_string_lossy().to_string(), recipe)?;
+    Ok(path.to_string_lossy().to_string())
+}
+
+#[tauri::command]
+fn delete_recipe(app: tauri::AppHandle, path: String) -> Result<(), String> {
+    let dir = recipes_dir(&app)?;
+    let path = PathBuf::from(path);
+    if path.parent() != Some(dir.as_path()) {
+        return Err("Recipe is not in the library".to_string());
+    }
+    fs::remove_file(&path).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+fn read_recipe(path: String) -> Result<serde_json::Value, String> {
+    let data = fs::read_to_string(&path).map_err(|e| format!("Failed to read recipe: {}", e))?;
+    serde_json::from_str(&data).map_err(|e| format!("Invalid recipe JSON: {}", e))
+}
+
+#[tauri::command]
+fn write_recipe(path: String, recipe: serde_json::Value) -> Result<(), String> {
+    let json = serde_json::to_string_pretty(&recipe).map_err(|e| e.to_string())?;
+    fs::write(&path, json).map_err(|e| format!("Failed to write recipe: {}", e))
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
@@ -431,13 +1316,38 @@ pub fn run() {
         .plugin(tauri_plugin_fs::init())
         .plugin(tauri_plugin_shell::init())
         .plugin(tauri_plugin_updater::Builder::new().build())
+        .setup(|app| {
+            models::init(app.handle());
+            text::init(app.handle());
+            Ok(())
+        })
         .invoke_handler(tauri::generate_handler![
             open_image,
             export_image,
-            apply_edits,
-            get_applied_path,
+            fit_export_size,
+            preview_export,
+            export_renditions,
+            render_operations,
+            detect_regions,
+            model_status,
+            compute_mask,
+            smart_crop,
+            list_fonts,
+            load_font,
+            list_image_files,
             get_recent_files,
-            set_recent_files
+            set_recent_files,
+            get_export_profiles,
+            set_export_profiles,
+            get_crop_presets,
+            set_crop_presets,
+            import_crop_presets,
+            export_crop_presets,
+            list_recipes,
+            save_recipe,
+            delete_recipe,
+            read_recipe,
+            write_recipe
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
@@ -0,0 +1,78 @@
+//! Hand-refined background masks. The editor computes the chroma key or
+//! subject matte once through `compute_mask`, lets it be painted and grown or
+//! shrunk, and sends it back as a PNG whose alpha is the mask (opaque keeps,
+//! transparent removes), which replaces the computed key at export. Masks
+//! cover the image before the crop, at its size or scaled down to
+//! `MAX_MASK_SIDE`; a mask of any other size was computed for another image
+//! or geometry and is rejected rather than stretched over it.
+
+use base64::Engine;
+use image::imageops::FilterType;
+use image::{GrayAlphaImage, LumaA, RgbaImage};
+
+/// Masks sent to the editor are scaled down to fit this; painting and the
+/// whole-mask operations stay responsive, and export scales them back up.
+pub const MAX_MASK_SIDE: u32 = 4096;
+
+/// The size masks of a `w`×`h` image are sent to the editor at.
+fn mask_size(w: u32, h: u32) -> (u32, u32) {
+    let side = w.max(h);
+    if side <= MAX_MASK_SIDE {
+        return (w, h);
+    }
+    let scale = MAX_MASK_SIDE as f64 / side as f64;
+    (
+        ((w as f64 * scale).round() as u32).max(1),
+        ((h as f64 * scale).round() as u32).max(1),
+    )
+}
+
+/// Reads a mask data URL of a `w`×`h` image into alpha 0..1 at `w`×`h`.
+pub fn decode(data_url: &str, w: u32, h: u32) -> Result<Vec<f32>, String> {
+    let b64 = data_url
+        .split_once(',')
+        .map(|(_, data)| data)
+        .ok_or("Mask is not a data URL")?;
+    let bytes = base64::engine::general_purpose::STANDARD
+        .decode(b64)
+        .map_err(|e| format!("Failed to read mask: {}", e))?;
+    let mut mask = image::load_from_memory(&bytes)
+        .map_err(|e| format!("Failed to read mask: {}", e))?
+        .to_luma_alpha8();
+    let (mw, mh) = mask.dimensions();
+    if (mw, mh) != (w, h) {
+        if (mw, mh) != mask_size(w, h) {
+            return Err(format!(
+                "The refined mask ({}×{}) doesn't match the image ({}×{}); recompute the mask",
+                mw, mh, w, h
+            ));
+        }
+        mask = image::imageops::resize(&mask, w, h, FilterType::Triangle);
+    }
+    Ok(mask.pixels().map(|p| p[1] as f32 / 255.0).collect())
+}
+
+/// Encodes alpha 0..1 of a `w`×`h` image as a mask data URL, scaled down to
+/// `MAX_MASK_SIDE`.
+pub fn encode(alpha: &[f32], w: u32, h: u32) -> Result<String, String> {
+    let mut mask = GrayAlphaImage::from_fn(w, h, |x, y| {
+        let a = alpha[(y * w + x) as usize];
+        LumaA([255, (a.clamp(0.0, 1.0) * 255.0).round() as u8])
+    });
+    let (mw, mh) = mask_size(w, h);
+    if (mw, mh) != (w, h) {
+        mask = image::imageops::resize(&mask, mw, mh, FilterType::Triangle);
+    }
+    let mut png_buf = std::io::Cursor::new(Vec::new());
+    mask.write_to(&mut png_buf, image::ImageFormat::Png)
+        .map_err(|e| format!("Failed to encode mask: {}", e))?;
+    let b64 = base64::engine::general_purpose::STANDARD.encode(png_buf.into_inner());
+    Ok(format!("data:image/png;base64,{}", b64))
+}
+
+/// Multiplies the alpha of `img` by `alpha`.
+pub fn apply(img: &mut RgbaImage, alpha: &[f32]) {
+    for (p, a) in img.pixels_mut().zip(alpha) {
+        p[3] = (p[3] as f32 * a.clamp(0.0, 1.0)).round() as u8;
+    }
+}
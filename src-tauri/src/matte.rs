@@ -0,0 +1,205 @@
+//! Salient-object background removal. The bundled U²-Netp model predicts a
+//! low-resolution saliency map, which is scaled to the image, thresholded,
+//! optionally snapped to image edges with a guided filter and feathered into
+//! an alpha matte. Predictions are cached by image content, so re-exports and
+//! setting changes don't run the model again.
+
+use image::imageops::FilterType;
+use image::{DynamicImage, GenericImageView, RgbaImage};
+use ort::session::Session;
+use ort::value::Tensor;
+use serde::{Deserialize, Serialize};
+use std::collections::hash_map::DefaultHasher;
+use std::hash::{Hash, Hasher};
+use std::sync::{Arc, Mutex};
+
+use crate::filters::{blur_plane, box_mean};
+use crate::mask;
+use crate::models::{with_session, IMAGENET_MEAN, IMAGENET_STD};
+
+pub const MODEL: &str = "u2netp.onnx";
+const INPUT_SIZE: u32 = 320;
+const CACHE_SIZE: usize = 4;
+/// Guided filter regularization; lower follows image edges more closely
+const REFINE_EPS: f32 = 1e-3;
+
+static SESSION: Mutex<Option<Session>> = Mutex::new(None);
+
+/// Recent predictions keyed by a hash of the input pixels, oldest first
+static CACHE: Mutex<Vec<(u64, Arc<Saliency>)>> = Mutex::new(Vec::new());
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+#[serde(default)]
+pub struct MatteSettings {
+    /// Saliency (0..1) above which a pixel is kept
+    pub threshold: f64,
+    /// Gaussian sigma of the matte edge in pixels, 0 = hard edge
+    pub feather: f64,
+    /// Snap the matte edge to edges in the image
+    pub refine_edges: bool,
+}
+
+impl Default for MatteSettings {
+    fn default() -> Self {
+        MatteSettings {
+            threshold: 0.5,
+            feather: 1.0,
+            refine_edges: true,
+        }
+    }
+}
+
+/// The model output: saliency 0..1 on an `INPUT_SIZE`² grid.
+pub struct Saliency {
+    values: Vec<f32>,
+}
+
+impl Saliency {
+    /// Saliency at normalized coordinates of the image it was predicted on.
+    pub fn at(&self, nx: f32, ny: f32) -> f32 {
+        sample(&self.values, nx, ny)
+    }
+}
+
+/// Predicts which parts of `img` are the subject, or returns the cached
+/// prediction for the same pixels.
+pub fn saliency(img: &DynamicImage) -> Result<Arc<Saliency>, String> {
+    let mut hasher = DefaultHasher::new();
+    img.dimensions().hash(&mut hasher);
+    img.as_bytes().hash(&mut hasher);
+    let key = hasher.finish();
+
+    {
+        let mut cache = CACHE.lock().map_err(|e| e.to_string())?;
+        if let Some(i) = cache.iter().position(|(k, _)| *k == key) {
+            let entry = cache.remove(i);
+            let found = entry.1.clone();
+            cache.push(entry);
+            return Ok(found);
+        }
+    }
+
+    let found = Arc::new(predict(img)?);
+    let mut cache = CACHE.lock().map_err(|e| e.to_string())?;
+    cache.push((key, found.clone()));
+    if cache.len() > CACHE_SIZE {
+        cache.remove(0);
+    }
+    Ok(found)
+}
+
+fn predict(img: &DynamicImage) -> Result<Saliency, String> {
+    let size = INPUT_SIZE as usize;
+    let small = img
+        .resize_exact(INPUT_SIZE, INPUT_SIZE, FilterType::Triangle)
+        .to_rgb8();
+    // Scaled by the brightest sample first, as in training
+    let max = small.as_raw().iter().copied().max().unwrap_or(0).max(1) as f32;
+    let plane = size * size;
+    let mut data = vec![0f32; 3 * plane];
+    for (i, p) in small.pixels().enumerate() {
+        for c in 0..3 {
+            data[c * plane + i] = (p[c] as f32 / max - IMAGENET_MEAN[c]) / IMAGENET_STD[c];
+        }
+    }
+    let input = Tensor::from_array(([1usize, 3, size, size], data)).map_err(|e| e.to_string())?;
+
+    let mut values = with_session(&SESSION, MODEL, |session| {
+        let outputs = session
+            .run(ort::inputs![input])
+            .map_err(|e| e.to_string())?;
+        // The first output is the fused, full-resolution side output
+        let (_, values) = outputs[0]
+            .try_extract_tensor::<f32>()
+            .map_err(|e| e.to_string())?;
+        Ok(values.to_vec())
+    })?;
+    if values.len() != plane {
+        return Err("Unexpected background model output".to_string());
+    }
+
+    let min = values.iter().copied().fold(f32::INFINITY, f32::min);
+    let max = values.iter().copied().fold(f32::NEG_INFINITY, f32::max);
+    let range = (max - min).max(1e-6);
+    for v in values.iter_mut() {
+        *v = (*v - min) / range;
+    }
+    Ok(Saliency { values })
+}
+
+/// Multiplies the alpha of `img` by the matte.
+pub fn apply(img: &mut RgbaImage, saliency: &Saliency, settings: &MatteSettings) {
+    let alpha = alpha(img, saliency, settings);
+    mask::apply(img, &alpha);
+}
+
+/// The matte for `img`, 0..1 per pixel. `saliency` may have been predicted on
+/// an image of another size with the same framing.
+pub fn alpha(img: &RgbaImage, saliency: &Saliency, settings: &MatteSettings) -> Vec<f32> {
+    let (w, h) = (img.width() as usize, img.height() as usize);
+    if w == 0 || h == 0 {
+        return Vec::new();
+    }
+    let threshold = settings.threshold.clamp(0.0, 1.0) as f32;
+    let mut alpha = vec![0f32; w * h];
+    for y in 0..h {
+        for x in 0..w {
+            let v = sample(
+                &saliency.values,
+                (x as f32 + 0.5) / w as f32,
+                (y as f32 + 0.5) / h as f32,
+            );
+            alpha[y * w + x] = if v >= threshold { 1.0 } else { 0.0 };
+        }
+    }
+
+    if settings.refine_edges {
+        let guide: Vec<f32> = img
+            .pixels()
+            .map(|p| (0.2126 * p[0] as f32 + 0.7152 * p[1] as f32 + 0.0722 * p[2] as f32) / 255.0)
+            .collect();
+        // About one model pixel, so edges can move to where the image has them
+        let r = (w.max(h) / INPUT_SIZE as usize).max(2);
+        alpha = guided_filter(&guide, &alpha, w, h, r);
+    }
+    if settings.feather > 0.0 {
+        blur_plane(&mut alpha, w, h, settings.feather.min(50.0));
+    }
+    alpha
+}
+
+/// Bilinear sample of the `INPUT_SIZE`² grid at normalized coordinates.
+fn sample(values: &[f32], nx: f32, ny: f32) -> f32 {
+    let n = INPUT_SIZE as usize;
+    let x = (nx * n as f32 - 0.5).clamp(0.0, (n - 1) as f32);
+    let y = (ny * n as f32 - 0.5).clamp(0.0, (n - 1) as f32);
+    let (x0, y0) = (x.floor() as usize, y.floor() as usize);
+    let (x1, y1) = ((x0 + 1).min(n - 1), (y0 + 1).min(n - 1));
+    let (fx, fy) = (x - x0 as f32, y - y0 as f32);
+    let top = values[y0 * n + x0] * (1.0 - fx) + values[y0 * n + x1] * fx;
+    let bottom = values[y1 * n + x0] * (1.0 - fx) + values[y1 * n + x1] * fx;
+    top * (1.0 - fy) + bottom * fy
+}
+
+/// He et al.'s guided filter: a locally linear fit of `p` to the guide `i`,
+/// which keeps the guide's edges in the output.
+fn guided_filter(i: &[f32], p: &[f32], w: usize, h: usize, r: usize) -> Vec<f32> {
+    let ip: Vec<f32> = i.iter().zip(p).map(|(a, b)| a * b).collect();
+    let ii: Vec<f32> = i.iter().map(|a| a * a).collect();
+    let mean_i = box_mean(i, w, h, r);
+    let mean_p = box_mean(p, w, h, r);
+    let mean_ip = box_mean(&ip, w, h, r);
+    let mean_ii = box_mean(&ii, w, h, r);
+
+    let mut a = vec![0f32; w * h];
+    let mut b = vec![0f32; w * h];
+    for k in 0..w * h {
+        let var = mean_ii[k] - mean_i[k] * mean_i[k];
+        let cov = mean_ip[k] - mean_i[k] * mean_p[k];
+        a[k] = cov / (var + REFINE_EPS);
+        b[k] = mean_p[k] - a[k] * mean_i[k];
+    }
+    let mean_a = box_mean(&a, w, h, r);
+    let mean_b = box_mean(&b, w, h, r);
+    (0..w * h).map(|k| mean_a[k] * i[k] + mean_b[k]).collect()
+}
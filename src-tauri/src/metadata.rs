@@ -0,0 +1,255 @@
+//! Carries EXIF, XMP and ICC metadata from the source file into the exported
+//! file. The pixel pipeline decodes through `image::DynamicImage`, which drops
+//! all metadata, so it is read from the source bytes and spliced back into
+//! the encoded output.
+
+use exif::{Context, In, Tag};
+use img_parts::jpeg::{markers, Jpeg, JpegSegment};
+use img_parts::png::{Png, PngChunk};
+use img_parts::{Bytes, DynImage, ImageEXIF, ImageICC};
+use serde::{Deserialize, Serialize};
+
+const XMP_JPEG_PREFIX: &[u8] = b"http://ns.adobe.com/xap/1.0/\0";
+const XMP_PNG_KEYWORD: &[u8] = b"XML:com.adobe.xmp";
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct MetadataOptions {
+    /// "strip", "keep" or "custom"
+    pub mode: String,
+    /// Groups to keep in "custom" mode, see `group_matches`.
+    #[serde(default)]
+    pub keep: Vec<String>,
+    pub keep_icc: bool,
+}
+
+impl Default for MetadataOptions {
+    fn default() -> Self {
+        MetadataOptions {
+            mode: "strip".to_string(),
+            keep: vec![],
+            keep_icc: true,
+        }
+    }
+}
+
+/// Metadata blocks read from a source file. EXIF is raw TIFF data.
+#[derive(Debug, Default)]
+pub struct SourceMetadata {
+    pub exif: Option<Bytes>,
+    pub xmp: Option<Bytes>,
+    pub icc: Option<Bytes>,
+}
+
+fn read_source_metadata(path: &str) -> SourceMetadata {
+    let data = match std::fs::read(path) {
+        Ok(data) => Bytes::from(data),
+        Err(_) => return SourceMetadata::default(),
+    };
+    let image = match DynImage::from_bytes(data) {
+        Ok(Some(image)) => image,
+        _ => return SourceMetadata::default(),
+    };
+    let xmp = match &image {
+        DynImage::Jpeg(jpeg) => jpeg_xmp(jpeg),
+        DynImage::Png(png) => png_xmp(png),
+        _ => None,
+    };
+    SourceMetadata {
+        exif: image.exif(),
+        xmp,
+        icc: image.icc_profile(),
+    }
+}
+
+/// Reads the source metadata and keeps the blocks selected by `options`, so
+/// it can be embedded into any number of encodes.
+pub fn select_metadata(path: &str, options: &MetadataOptions) -> SourceMetadata {
+    if options.mode != "keep" && options.mode != "custom" && !options.keep_icc {
+        return SourceMetadata::default();
+    }
+    let source = read_source_metadata(path);
+    let icc = if options.keep_icc { source.icc } else { None };
+    let (exif, xmp) = match options.mode.as_str() {
+        "keep" => (
+            source.exif.as_ref().and_then(|e| rebuild_exif(e, |_| true)),
+            source.xmp,
+        ),
+        "custom" => (
+            source.exif.as_ref().and_then(|e| {
+                rebuild_exif(e, |tag| options.keep.iter().any(|g| group_matches(g, tag)))
+            }),
+            if options.keep.iter().any(|g| g == "xmp") {
+                source.xmp
+            } else {
+                None
+            },
+        ),
+        _ => (None, None),
+    };
+    SourceMetadata { exif, xmp, icc }
+}
+
+/// Embeds `selected` (see `select_metadata`) into `encoded`. Formats that
+/// `img-parts` cannot edit are returned unchanged (i.e. stripped), and WebP
+/// gets no XMP; the export dialog says so (`ExportFormat.metadata`).
+pub fn write_metadata(encoded: Vec<u8>, selected: &SourceMetadata) -> Result<Vec<u8>, String> {
+    let (exif, xmp, icc) = (
+        selected.exif.clone(),
+        selected.xmp.clone(),
+        selected.icc.clone(),
+    );
+    if exif.is_none() && xmp.is_none() && icc.is_none() {
+        return Ok(encoded);
+    }
+
+    let mut image = match DynImage::from_bytes(Bytes::from(encoded.clone())) {
+        Ok(Some(image)) => image,
+        _ => return Ok(encoded),
+    };
+    image.set_icc_profile(icc);
+    image.set_exif(exif);
+    match &mut image {
+        DynImage::Jpeg(jpeg) => set_jpeg_xmp(jpeg, xmp),
+        DynImage::Png(png) => set_png_xmp(png, xmp),
+        _ => {}
+    }
+
+    let mut out = Vec::with_capacity(encoded.len());
+    image
+        .encoder()
+        .write_to(&mut out)
+        .map_err(|e| format!("Failed to write metadata: {}", e))?;
+    Ok(out)
+}
+
+/// Rebuilds the EXIF block with the primary image fields `keep` accepts.
+/// The embedded thumbnail (IFD1) shows the unedited image and is always
+/// dropped, and so is Orientation: the exported pixels are already upright,
+/// so viewers would rotate them a second time.
+fn rebuild_exif(exif: &Bytes, keep: impl Fn(Tag) -> bool) -> Option<Bytes> {
+    let parsed = exif::Reader::new().read_raw(exif.to_vec()).ok()?;
+    let mut writer = exif::experimental::Writer::new();
+    let mut kept = 0;
+    for field in parsed.fields() {
+        if field.ifd_num != In::PRIMARY || field.tag == Tag::Orientation {
+            continue;
+        }
+        if keep(field.tag) {
+            writer.push_field(field);
+            kept += 1;
+        }
+    }
+    if kept == 0 {
+        return None;
+    }
+    let mut buf = std::io::Cursor::new(Vec::new());
+    writer.write(&mut buf, parsed.little_endian()).ok()?;
+    Some(Bytes::from(buf.into_inner()))
+}
+
+fn group_matches(group: &str, tag: Tag) -> bool {
+    match group {
+        "copyright" => tag == Tag::Copyright,
+        "author" => tag == Tag::Artist,
+        "description" => matches!(tag, Tag::ImageDescription | Tag::UserComment),
+        "datetime" => matches!(
+            tag,
+            Tag::DateTime
+                | Tag::DateTimeOriginal
+                | Tag::DateTimeDigitized
+                | Tag::OffsetTime
+                | Tag::OffsetTimeOriginal
+                | Tag::OffsetTimeDigitized
+                | Tag::SubSecTime
+                | Tag::SubSecTimeOriginal
+                | Tag::SubSecTimeDigitized
+        ),
+        "camera" => matches!(
+            tag,
+            Tag::Make
+                | Tag::Model
+                | Tag::LensMake
+                | Tag::LensModel
+                | Tag::ExposureTime
+                | Tag::FNumber
+                | Tag::ExposureProgram
+                | Tag::PhotographicSensitivity
+                | Tag::ExposureBiasValue
+                | Tag::MeteringMode
+                | Tag::Flash
+                | Tag::FocalLength
+                | Tag::FocalLengthIn35mmFilm
+                | Tag::WhiteBalance
+        ),
+        "serials" => matches!(
+            tag,
+            Tag::BodySerialNumber | Tag::LensSerialNumber | Tag::CameraOwnerName
+        ),
+        "gps" => tag.context() == Context::Gps,
+        _ => false,
+    }
+}
+
+fn jpeg_xmp(jpeg: &Jpeg) -> Option<Bytes> {
+    jpeg.segments()
+        .iter()
+        .find(|s| s.marker() == markers::APP1 && s.contents().starts_with(XMP_JPEG_PREFIX))
+        .map(|s| s.contents().slice(XMP_JPEG_PREFIX.len()..))
+}
+
+fn set_jpeg_xmp(jpeg: &mut Jpeg, xmp: Option<Bytes>) {
+    let segments = jpeg.segments_mut();
+    segments
+        .retain(|s| !(s.marker() == markers::APP1 && s.contents().starts_with(XMP_JPEG_PREFIX)));
+    if let Some(xmp) = xmp {
+        let mut contents = XMP_JPEG_PREFIX.to_vec();
+        contents.extend_from_slice(&xmp);
+        // Keep APPn segments together at the start of the file
+        let at = segments
+            .iter()
+            .position(|s| !(markers::APP0..=markers::APP15).contains(&s.marker()))
+            .unwrap_or(segments.len());
+        segments.insert(
+            at,
+            JpegSegment::new_with_contents(markers::APP1, Bytes::from(contents)),
+        );
+    }
+}
+
+fn png_xmp(png: &Png) -> Option<Bytes> {
+    png.chunks()
+        .iter()
+        .find(|c| &c.kind() == b"iTXt" && c.contents().starts_with(XMP_PNG_KEYWORD))
+        .and_then(|c| {
+            // keyword \0 compression-flag compression-method language \0 translated \0 text
+            let contents = c.contents();
+            if contents.get(XMP_PNG_KEYWORD.len() + 1) != Some(&0) {
+                return None; // compressed XMP is not copied
+            }
+            let mut nulls = 0;
+            let mut start = XMP_PNG_KEYWORD.len() + 3;
+            while start < contents.len() && nulls < 2 {
+                if contents[start] == 0 {
+                    nulls += 1;
+                }
+                start += 1;
+            }
+            Some(contents.slice(start..))
+        })
+}
+
+fn set_png_xmp(png: &mut Png, xmp: Option<Bytes>) {
+    let chunks = png.chunks_mut();
+    chunks.retain(|c| !(&c.kind() == b"iTXt" && c.contents().starts_with(XMP_PNG_KEYWORD)));
+    if let Some(xmp) = xmp {
+        let mut contents = XMP_PNG_KEYWORD.to_vec();
+        contents.extend_from_slice(&[0, 0, 0, 0, 0]);
+        contents.extend_from_slice(&xmp);
+        // Insert before the first IDAT chunk
+        let at = chunks
+            .iter()
+            .position(|c| &c.kind() == b"IDAT")
+            .unwrap_or(chunks.len());
+        chunks.insert(at, PngChunk::new(*b"iTXt", Bytes::from(contents)));
+    }
+}
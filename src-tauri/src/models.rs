@@ -0,0 +1,90 @@
+//! The ONNX models bundled in `resources/models`, run on the CPU through ONNX
+//! Runtime. ONNX Runtime is loaded at run time rather than linked, so the
+//! build downloads nothing: `ORT_DYLIB_PATH` if set, otherwise the library
+//! in `resources/onnxruntime`. The paths are resolved once at startup; each
+//! session is loaded on first use and kept for the rest of the run.
+
+use ort::session::Session;
+use serde::Serialize;
+use std::path::PathBuf;
+use std::sync::{Mutex, OnceLock};
+use tauri::path::BaseDirectory;
+use tauri::{AppHandle, Manager};
+
+pub const IMAGENET_MEAN: [f32; 3] = [0.485, 0.456, 0.406];
+pub const IMAGENET_STD: [f32; 3] = [0.229, 0.224, 0.225];
+
+#[cfg(target_os = "windows")]
+const RUNTIME_LIBRARY: &str = "onnxruntime.dll";
+#[cfg(target_os = "macos")]
+const RUNTIME_LIBRARY: &str = "libonnxruntime.dylib";
+#[cfg(not(any(target_os = "windows", target_os = "macos")))]
+const RUNTIME_LIBRARY: &str = "libonnxruntime.so";
+
+static MODEL_DIR: OnceLock<PathBuf> = OnceLock::new();
+static RUNTIME: OnceLock<PathBuf> = OnceLock::new();
+
+/// Which model-backed features can run, for the editor to disable the rest.
+#[derive(Debug, Serialize, Clone)]
+pub struct ModelStatus {
+    pub faces: bool,
+    pub text: bool,
+    pub subject: bool,
+}
+
+pub fn init(app: &AppHandle) {
+    if let Ok(dir) = app
+        .path()
+        .resolve("resources/models", BaseDirectory::Resource)
+    {
+        let _ = MODEL_DIR.set(dir);
+    }
+
+    let runtime = match std::env::var_os("ORT_DYLIB_PATH") {
+        Some(path) => Some(PathBuf::from(path)),
+        None => app
+            .path()
+            .resolve("resources/onnxruntime", BaseDirectory::Resource)
+            .ok()
+            .map(|dir| dir.join(RUNTIME_LIBRARY)),
+    };
+    if let Some(path) = runtime.filter(|path| path.exists()) {
+        // `ort` reads the variable when it first loads the library
+        std::env::set_var("ORT_DYLIB_PATH", &path);
+        let _ = RUNTIME.set(path);
+    }
+}
+
+/// Whether `file` and ONNX Runtime are both installed.
+pub fn installed(file: &str) -> bool {
+    RUNTIME.get().is_some() && model_path(file).is_some()
+}
+
+fn model_path(file: &str) -> Option<PathBuf> {
+    MODEL_DIR
+        .get()
+        .map(|dir| dir.join(file))
+        .filter(|path| path.exists())
+}
+
+/// Runs `f` with the model's session, loading it into `slot` the first time.
+pub fn with_session<T>(
+    slot: &Mutex<Option<Session>>,
+    file: &str,
+    f: impl FnOnce(&mut Session) -> Result<T, String>,
+) -> Result<T, String> {
+    let mut guard = slot.lock().map_err(|e| e.to_string())?;
+    if guard.is_none() {
+        let path = model_path(file).ok_or_else(|| format!("Model {} is not installed", file))?;
+        // Without the library `ort` would panic on first use
+        if RUNTIME.get().is_none() {
+            return Err(format!("ONNX Runtime ({}) is not installed", RUNTIME_LIBRARY));
+        }
+        let session = Session::builder()
+            .and_then(|b| b.commit_from_file(&path))
+            .map_err(|e| format!("Failed to load {}: {}", file, e))?;
+        *guard = Some(session);
+    }
+    let session = guard.as_mut().ok_or("Model not loaded")?;
+    f(session)
+}
@@ -0,0 +1,237 @@
+//! Mosaic, blur and solid-fill redaction, mirroring `src/redact.ts`. Each
+//! stroke is a brush path or a rectangle/ellipse with its own mode and
+//! settings; block size and blur radius are in pixels of the image the
+//! strokes are applied to.
+
+use image::{DynamicImage, Rgba, RgbaImage};
+use serde::{Deserialize, Serialize};
+
+use crate::filters::gaussian_blur;
+
+#[derive(Debug, Serialize, Deserialize, Clone, Copy, PartialEq, Default)]
+#[serde(rename_all = "snake_case")]
+pub enum RedactShape {
+    #[default]
+    Brush,
+    Rectangle,
+    Ellipse,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone, Copy, PartialEq, Default)]
+#[serde(rename_all = "snake_case")]
+pub enum RedactMode {
+    #[default]
+    Mosaic,
+    Blur,
+    Fill,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct PixelateStroke {
+    #[serde(default)]
+    pub shape: RedactShape,
+    /// Brush: the path. Rectangle and ellipse: two opposite corners.
+    pub points: Vec<(f64, f64)>,
+    /// Brush half-width, relative to the longer image side
+    #[serde(default)]
+    pub radius: f64,
+    #[serde(default)]
+    pub mode: RedactMode,
+    #[serde(default = "default_block_size")]
+    pub block_size: u32,
+    /// Gaussian sigma in pixels
+    #[serde(default = "default_blur_radius")]
+    pub blur_radius: f64,
+    #[serde(default)]
+    pub color: (u8, u8, u8),
+}
+
+fn default_block_size() -> u32 {
+    10
+}
+
+fn default_blur_radius() -> f64 {
+    12.0
+}
+
+/// The pixels a stroke covers: a bounding box and a mask over it.
+struct StrokeMask {
+    x: u32,
+    y: u32,
+    width: u32,
+    height: u32,
+    mask: Vec<bool>,
+}
+
+impl StrokeMask {
+    fn covers(&self, x: u32, y: u32) -> bool {
+        self.mask[(y * self.width + x) as usize]
+    }
+}
+
+fn stroke_mask(stroke: &PixelateStroke, width: u32, height: u32) -> Option<StrokeMask> {
+    let (w, h) = (width as i64, height as i64);
+    if stroke.shape == RedactShape::Brush {
+        // Each point covers a square of side 2r
+        let r = (stroke.radius * w.max(h) as f64).round() as i64;
+        let centers: Vec<(i64, i64)> = stroke
+            .points
+            .iter()
+            .map(|&(nx, ny)| ((nx * w as f64).floor() as i64, (ny * h as f64).floor() as i64))
+            .collect();
+        let x1 = (centers.iter().map(|c| c.0).min()? - r).max(0);
+        let y1 = (centers.iter().map(|c| c.1).min()? - r).max(0);
+        let x2 = (centers.iter().map(|c| c.0).max()? + r).min(w);
+        let y2 = (centers.iter().map(|c| c.1).max()? + r).min(h);
+        if x2 <= x1 || y2 <= y1 {
+            return None;
+        }
+        let mw = x2 - x1;
+        let mut mask = vec![false; (mw * (y2 - y1)) as usize];
+        for &(cx, cy) in &centers {
+            for y in (cy - r).max(y1)..(cy + r).min(y2) {
+                let row = (y - y1) * mw - x1;
+                let from = (row + (cx - r).max(x1)) as usize;
+                let to = (row + (cx + r).min(x2)) as usize;
+                if from < to {
+                    mask[from..to].fill(true);
+                }
+            }
+        }
+        return Some(StrokeMask {
+            x: x1 as u32,
+            y: y1 as u32,
+            width: mw as u32,
+            height: (y2 - y1) as u32,
+            mask,
+        });
+    }
+
+    let &[(ax, ay), (bx, by)] = stroke.points.as_slice() else {
+        return None;
+    };
+    let (left, right) = (ax.min(bx) * w as f64, ax.max(bx) * w as f64);
+    let (top, bottom) = (ay.min(by) * h as f64, ay.max(by) * h as f64);
+    let x1 = (left.floor() as i64).max(0);
+    let y1 = (top.floor() as i64).max(0);
+    let x2 = (right.ceil() as i64).min(w);
+    let y2 = (bottom.ceil() as i64).min(h);
+    if x2 <= x1 || y2 <= y1 {
+        return None;
+    }
+    let (mw, mh) = ((x2 - x1) as u32, (y2 - y1) as u32);
+    let mask = if stroke.shape == RedactShape::Rectangle {
+        vec![true; (mw * mh) as usize]
+    } else {
+        // Pixel centers inside the ellipse inscribed in the box
+        let rx = (right - left) / 2.0;
+        let ry = (bottom - top) / 2.0;
+        let (cx, cy) = (left + rx, top + ry);
+        let mut mask = Vec::with_capacity((mw * mh) as usize);
+        for y in 0..mh {
+            let dy = ((y1 + y as i64) as f64 + 0.5 - cy) / ry;
+            for x in 0..mw {
+                let dx = ((x1 + x as i64) as f64 + 0.5 - cx) / rx;
+                mask.push(dx * dx + dy * dy <= 1.0);
+            }
+        }
+        mask
+    };
+    Some(StrokeMask {
+        x: x1 as u32,
+        y: y1 as u32,
+        width: mw,
+        height: mh,
+        mask,
+    })
+}
+
+/// Applies the strokes in order.
+pub fn apply(img: DynamicImage, strokes: &[PixelateStroke]) -> DynamicImage {
+    if strokes.is_empty() {
+        return img;
+    }
+    let mut rgba = img.to_rgba8();
+    let (w, h) = rgba.dimensions();
+    for stroke in strokes {
+        let Some(m) = stroke_mask(stroke, w, h) else {
+            continue;
+        };
+        match stroke.mode {
+            RedactMode::Fill => fill(&mut rgba, &m, stroke.color),
+            RedactMode::Blur => blur(&mut rgba, &m, stroke.blur_radius.clamp(1.0, 100.0)),
+            RedactMode::Mosaic => mosaic(&mut rgba, &m, stroke.block_size.clamp(4, 40)),
+        }
+    }
+    DynamicImage::ImageRgba8(rgba)
+}
+
+fn fill(img: &mut RgbaImage, m: &StrokeMask, (r, g, b): (u8, u8, u8)) {
+    for y in 0..m.height {
+        for x in 0..m.width {
+            if m.covers(x, y) {
+                img.put_pixel(m.x + x, m.y + y, Rgba([r, g, b, 255]));
+            }
+        }
+    }
+}
+
+/// Averages each block of the covered pixels. Blocks sit on a grid anchored
+/// at the image origin, so overlapping strokes line up.
+fn mosaic(img: &mut RgbaImage, m: &StrokeMask, bs: u32) {
+    let mut by = m.y / bs * bs;
+    while by < m.y + m.height {
+        let mut bx = m.x / bs * bs;
+        while bx < m.x + m.width {
+            let x1 = bx.max(m.x) - m.x;
+            let y1 = by.max(m.y) - m.y;
+            let x2 = (bx + bs).min(m.x + m.width) - m.x;
+            let y2 = (by + bs).min(m.y + m.height) - m.y;
+            let mut sum = [0u64; 4];
+            let mut count = 0u64;
+            for y in y1..y2 {
+                for x in x1..x2 {
+                    if m.covers(x, y) {
+                        let p = img.get_pixel(m.x + x, m.y + y);
+                        for c in 0..4 {
+                            sum[c] += p[c] as u64;
+                        }
+                        count += 1;
+                    }
+                }
+            }
+            if count > 0 {
+                let avg = Rgba(sum.map(|v| (v / count) as u8));
+                for y in y1..y2 {
+                    for x in x1..x2 {
+                        if m.covers(x, y) {
+                            img.put_pixel(m.x + x, m.y + y, avg);
+                        }
+                    }
+                }
+            }
+            bx += bs;
+        }
+        by += bs;
+    }
+}
+
+/// Blurs the box around the covered pixels, with margin, and keeps the
+/// covered ones.
+fn blur(img: &mut RgbaImage, m: &StrokeMask, sigma: f64) {
+    let pad = (3.0 * sigma).ceil() as u32;
+    let x1 = m.x.saturating_sub(pad);
+    let y1 = m.y.saturating_sub(pad);
+    let x2 = (m.x + m.width + pad).min(img.width());
+    let y2 = (m.y + m.height + pad).min(img.height());
+    let region = image::imageops::crop_imm(&*img, x1, y1, x2 - x1, y2 - y1).to_image();
+    let blurred = gaussian_blur(&region, sigma);
+    for y in 0..m.height {
+        for x in 0..m.width {
+            if m.covers(x, y) {
+                let p = *blurred.get_pixel(m.x + x - x1, m.y + y - y1);
+                img.put_pixel(m.x + x, m.y + y, p);
+            }
+        }
+    }
+}
@@ -0,0 +1,171 @@
+//! Subject-aware crop placement. The largest window of the target aspect is
+//! slid along the axis the image has to give up to where it holds the most
+//! interest: the subject found by the salient-object model, when it is
+//! installed, plus edge energy, which carries images the model finds nothing
+//! in. Transparent pixels hold none. Used by the editor's auto crop and by
+//! the "smart" scale mode.
+
+use image::imageops::FilterType;
+use image::{DynamicImage, GenericImageView};
+
+use crate::matte;
+use crate::CropRect;
+
+/// Longer side of the image the analysis runs on
+const ANALYSIS_SIDE: u32 = 256;
+/// Share of the interest that comes from edges when the model is available
+const EDGE_WEIGHT: f32 = 0.3;
+/// Share of the total interest a window has to gain to move from the center
+/// to the image border, so flat images stay centered
+const CENTER_BIAS: f64 = 0.05;
+
+/// The largest crop of `aspect` (width / height) around the most interesting
+/// part of `img`, normalized.
+pub fn place(img: &DynamicImage, aspect: f64) -> CropRect {
+    let full = CropRect {
+        x: 0.0,
+        y: 0.0,
+        width: 1.0,
+        height: 1.0,
+    };
+    let (iw, ih) = img.dimensions();
+    if iw == 0 || ih == 0 || !aspect.is_finite() || aspect <= 0.0 {
+        return full;
+    }
+    let image_aspect = iw as f64 / ih as f64;
+    let horizontal = image_aspect > aspect;
+    let size = if horizontal {
+        aspect / image_aspect
+    } else {
+        image_aspect / aspect
+    };
+
+    let (interest, w, h) = interest(img);
+    // Interest per column (or row) along the axis the window moves on
+    let profile: Vec<f64> = if horizontal {
+        (0..w)
+            .map(|x| (0..h).map(|y| interest[y * w + x] as f64).sum::<f64>())
+            .collect()
+    } else {
+        (0..h)
+            .map(|y| {
+                interest[y * w..(y + 1) * w]
+                    .iter()
+                    .map(|&v| v as f64)
+                    .sum::<f64>()
+            })
+            .collect()
+    };
+    let offset = best_offset(&profile, size);
+
+    if horizontal {
+        CropRect {
+            x: offset,
+            width: size,
+            ..full
+        }
+    } else {
+        CropRect {
+            y: offset,
+            height: size,
+            ..full
+        }
+    }
+}
+
+/// Normalized start of the window of normalized `size` with the most
+/// interest in `profile`, held toward the center by `CENTER_BIAS`.
+fn best_offset(profile: &[f64], size: f64) -> f64 {
+    let n = profile.len();
+    let window = ((size * n as f64).round() as usize).clamp(1, n.max(1));
+    let centered = (1.0 - size).max(0.0) / 2.0;
+    if n == 0 || window >= n {
+        return centered;
+    }
+    let mut prefix = vec![0f64; n + 1];
+    for (i, v) in profile.iter().enumerate() {
+        prefix[i + 1] = prefix[i] + v;
+    }
+    let total = prefix[n];
+    let half_travel = (n - window) as f64 / 2.0;
+    let mut best = (f64::NEG_INFINITY, centered);
+    for start in 0..=n - window {
+        let gain = prefix[start + window] - prefix[start];
+        let score = gain - CENTER_BIAS * total * (start as f64 - half_travel).abs() / half_travel;
+        if score > best.0 {
+            best = (score, start as f64 / n as f64);
+        }
+    }
+    best.1.clamp(0.0, (1.0 - size).max(0.0))
+}
+
+/// Interest per pixel of `img` scaled down to `ANALYSIS_SIDE`, with its size.
+fn interest(img: &DynamicImage) -> (Vec<f32>, usize, usize) {
+    let (iw, ih) = img.dimensions();
+    let scale = (ANALYSIS_SIDE as f64 / iw.max(ih) as f64).min(1.0);
+    let w = ((iw as f64 * scale).round() as u32).max(1);
+    let h = ((ih as f64 * scale).round() as u32).max(1);
+    let small = img.resize_exact(w, h, FilterType::Triangle).to_rgba8();
+    let (w, h) = (w as usize, h as usize);
+
+    let luma: Vec<f32> = small
+        .pixels()
+        .map(|p| (0.2126 * p[0] as f32 + 0.7152 * p[1] as f32 + 0.0722 * p[2] as f32) / 255.0)
+        .collect();
+    let alpha: Vec<f32> = small.pixels().map(|p| p[3] as f32 / 255.0).collect();
+
+    // Sobel gradient magnitude
+    let at = |x: usize, y: usize, dx: isize, dy: isize| {
+        let x = (x as isize + dx).clamp(0, w as isize - 1) as usize;
+        let y = (y as isize + dy).clamp(0, h as isize - 1) as usize;
+        luma[y * w + x]
+    };
+    let mut edges = vec![0f32; w * h];
+    for y in 0..h {
+        for x in 0..w {
+            let gx = at(x, y, 1, -1) + 2.0 * at(x, y, 1, 0) + at(x, y, 1, 1)
+                - at(x, y, -1, -1)
+                - 2.0 * at(x, y, -1, 0)
+                - at(x, y, -1, 1);
+            let gy = at(x, y, -1, 1) + 2.0 * at(x, y, 0, 1) + at(x, y, 1, 1)
+                - at(x, y, -1, -1)
+                - 2.0 * at(x, y, 0, -1)
+                - at(x, y, 1, -1);
+            edges[y * w + x] = gx.hypot(gy) * alpha[y * w + x];
+        }
+    }
+
+    // Without the model, edges alone
+    let subject: Option<Vec<f32>> = matte::saliency(img).ok().and_then(|saliency| {
+        let mut subject: Vec<f32> = (0..w * h)
+            .map(|i| {
+                let nx = ((i % w) as f32 + 0.5) / w as f32;
+                let ny = ((i / w) as f32 + 0.5) / h as f32;
+                saliency.at(nx, ny) * alpha[i]
+            })
+            .collect();
+        normalize(&mut subject).then_some(subject)
+    });
+    let has_edges = normalize(&mut edges);
+    match subject {
+        Some(subject) => {
+            let edge_weight = if has_edges { EDGE_WEIGHT } else { 0.0 };
+            let interest = subject
+                .iter()
+                .zip(&edges)
+                .map(|(s, e)| s * (1.0 - edge_weight) + e * edge_weight)
+                .collect();
+            (interest, w, h)
+        }
+        None => (edges, w, h),
+    }
+}
+
+/// Scales `plane` to sum to 1; false when it is all zero.
+fn normalize(plane: &mut [f32]) -> bool {
+    let sum: f32 = plane.iter().sum();
+    if sum > 0.0 {
+        plane.iter_mut().for_each(|v| *v /= sum);
+    }
+    sum > 0.0
+}
@@ -0,0 +1,511 @@
+//! Text overlays, mirroring `src/text.ts`. Boxes are rasterized here at the
+//! full resolution of the image they are drawn on, from the same font file
+//! the editor previews them with (`load` hands it to the webview) and with the
+//! same layout: lines `LINE_HEIGHT` font sizes apart, each centered on its
+//! line by the font's ascent and descent and aligned within the widest line.
+//! A box is drawn unrotated into a layer (fill over a round-joined stroke),
+//! which is then rotated onto the image over its drop shadow. Sizes are
+//! fractions of the image height, so boxes don't depend on its resolution.
+//! A box whose font is missing is drawn in the default sans-serif, and one
+//! that can't be drawn at all is skipped; both are reported as warnings
+//! rather than failing the export.
+
+use ab_glyph::{point, Font, FontRef, GlyphId, PxScale, ScaleFont};
+use base64::Engine;
+use fontdb::{Database, Family, Query, Source, Stretch, Style, Weight};
+use image::{DynamicImage, RgbaImage};
+use serde::{Deserialize, Serialize};
+use std::collections::BTreeMap;
+use std::path::PathBuf;
+use std::sync::OnceLock;
+use tauri::path::BaseDirectory;
+use tauri::{AppHandle, Manager};
+
+use crate::filters::blur_plane;
+
+/// Baseline to baseline, in font sizes
+const LINE_HEIGHT: f32 = 1.2;
+
+static FONT_DIR: OnceLock<PathBuf> = OnceLock::new();
+static DATABASE: OnceLock<Database> = OnceLock::new();
+
+#[derive(Debug, Serialize, Deserialize, Clone, Copy, PartialEq, Default)]
+#[serde(rename_all = "snake_case")]
+pub enum TextAlign {
+    Left,
+    #[default]
+    Center,
+    Right,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct TextBox {
+    /// Lines are separated by "\n"
+    pub text: String,
+    /// Center of the box, normalized
+    pub x: f64,
+    pub y: f64,
+    /// Font size as a fraction of the image height
+    pub size: f64,
+    /// Degrees clockwise around the center
+    #[serde(default)]
+    pub rotation: f64,
+    /// Family name; unknown families fall back to the default sans-serif
+    pub font: String,
+    #[serde(default)]
+    pub bold: bool,
+    #[serde(default)]
+    pub italic: bool,
+    pub color: [u8; 3],
+    /// 0..1, applied to the text, stroke and shadow together
+    #[serde(default = "default_opacity")]
+    pub opacity: f64,
+    #[serde(default)]
+    pub align: TextAlign,
+    /// How far the stroke reaches outside the glyphs, in font sizes; 0 = none
+    #[serde(default)]
+    pub stroke_width: f64,
+    #[serde(default)]
+    pub stroke_color: [u8; 3],
+    /// 0 (no shadow) .. 1
+    #[serde(default)]
+    pub shadow_opacity: f64,
+    #[serde(default)]
+    pub shadow_color: [u8; 3],
+    /// Canvas `shadowBlur` (twice the Gaussian sigma), in font sizes
+    #[serde(default)]
+    pub shadow_blur: f64,
+    /// Shadow offset in font sizes, in image directions whatever the rotation
+    #[serde(default)]
+    pub shadow_x: f64,
+    #[serde(default)]
+    pub shadow_y: f64,
+}
+
+fn default_opacity() -> f64 {
+    1.0
+}
+
+#[derive(Debug, Serialize, Clone)]
+pub struct FontFamily {
+    pub name: String,
+    /// Shipped in `resources/fonts` rather than installed on the system
+    pub bundled: bool,
+}
+
+/// A font file for the webview to preview with.
+#[derive(Debug, Serialize, Clone)]
+pub struct LoadedFont {
+    pub data_url: String,
+    /// In font sizes, as used for the layout here; descent is negative
+    pub ascent: f32,
+    pub descent: f32,
+}
+
+/// A box drawn unrotated: the coverage of the text and its stroke, the
+/// premultiplied color and the blurred shadow, centered on the box center.
+struct Layer {
+    width: usize,
+    height: usize,
+    alpha: Vec<f32>,
+    color: Vec<[f32; 3]>,
+    shadow: Option<Vec<f32>>,
+}
+
+pub fn init(app: &AppHandle) {
+    if let Ok(dir) = app
+        .path()
+        .resolve("resources/fonts", BaseDirectory::Resource)
+    {
+        let _ = FONT_DIR.set(dir);
+    }
+}
+
+/// Installed fonts plus the bundled ones, scanned on first use.
+fn database() -> &'static Database {
+    DATABASE.get_or_init(|| {
+        let mut db = Database::new();
+        db.load_system_fonts();
+        if let Some(dir) = FONT_DIR.get() {
+            db.load_fonts_dir(dir);
+        }
+        db
+    })
+}
+
+/// Every font family, bundled ones first, then by name.
+pub fn families() -> Vec<FontFamily> {
+    let mut found: BTreeMap<String, bool> = BTreeMap::new();
+    for face in database().faces() {
+        if let Some((name, _)) = face.families.first() {
+            *found.entry(name.clone()).or_default() |= is_bundled(&face.source);
+        }
+    }
+    let mut families: Vec<FontFamily> = found
+        .into_iter()
+        .map(|(name, bundled)| FontFamily { name, bundled })
+        .collect();
+    families.sort_by(|a, b| {
+        b.bundled
+            .cmp(&a.bundled)
+            .then_with(|| a.name.to_lowercase().cmp(&b.name.to_lowercase()))
+    });
+    families
+}
+
+fn is_bundled(source: &Source) -> bool {
+    let path = match source {
+        Source::File(path) | Source::SharedFile(path, _) => path,
+        Source::Binary(_) => return false,
+    };
+    FONT_DIR.get().is_some_and(|dir| path.starts_with(dir))
+}
+
+/// The face a box with this font is drawn with. Font collections are sent
+/// whole; the webview previews their first face.
+pub fn load(family: &str, bold: bool, italic: bool) -> Result<LoadedFont, String> {
+    let id = find_face(family, bold, italic)?;
+    database()
+        .with_face_data(id, |data, index| {
+            let font = FontRef::try_from_slice_and_index(data, index)
+                .map_err(|e| format!("Failed to read font {}: {}", family, e))?;
+            let em = font.units_per_em().unwrap_or(1000.0);
+            Ok(LoadedFont {
+                data_url: format!(
+                    "data:font/ttf;base64,{}",
+                    base64::engine::general_purpose::STANDARD.encode(data)
+                ),
+                ascent: font.ascent_unscaled() / em,
+                descent: font.descent_unscaled() / em,
+            })
+        })
+        .ok_or_else(|| format!("Failed to read font {}", family))?
+}
+
+/// The closest face of `family`, or of the default sans-serif when the family
+/// isn't installed.
+fn find_face(family: &str, bold: bool, italic: bool) -> Result<fontdb::ID, String> {
+    let db = database();
+    query_face(db, &[Family::Name(family)], bold, italic)
+        .or_else(|| query_face(db, &[Family::SansSerif], bold, italic))
+        .or_else(|| db.faces().next().map(|face| face.id))
+        .ok_or_else(|| "No fonts are installed".to_string())
+}
+
+fn query_face(db: &Database, families: &[Family], bold: bool, italic: bool) -> Option<fontdb::ID> {
+    db.query(&Query {
+        families,
+        weight: if bold { Weight::BOLD } else { Weight::NORMAL },
+        style: if italic { Style::Italic } else { Style::Normal },
+        stretch: Stretch::Normal,
+    })
+}
+
+/// Draws the boxes onto the image, in order, adding to `warnings` for boxes
+/// drawn in a fallback font or skipped.
+pub fn apply(img: DynamicImage, boxes: &[TextBox], warnings: &mut Vec<String>) -> DynamicImage {
+    if boxes.iter().all(|b| b.text.trim().is_empty()) {
+        return img;
+    }
+    let mut rgba = img.to_rgba8();
+    for b in boxes {
+        let warning = match draw(&mut rgba, b) {
+            Ok(true) => continue,
+            Ok(false) => format!(
+                "Font {} is not installed; {} uses the default font",
+                b.font,
+                label(b)
+            ),
+            Err(e) => format!("{} was skipped: {}", label(b), e),
+        };
+        if !warnings.contains(&warning) {
+            warnings.push(warning);
+        }
+    }
+    DynamicImage::ImageRgba8(rgba)
+}
+
+/// The box's first line, quoted and shortened, to name it in warnings.
+fn label(b: &TextBox) -> String {
+    let first = b.text.trim().lines().next().unwrap_or("");
+    if first.chars().count() > 16 {
+        format!("\"{}…\"", first.chars().take(15).collect::<String>())
+    } else {
+        format!("\"{}\"", first)
+    }
+}
+
+/// Draws the box; false when its font is missing and the fallback was used.
+fn draw(img: &mut RgbaImage, b: &TextBox) -> Result<bool, String> {
+    let size = (b.size * img.height() as f64) as f32;
+    if b.text.trim().is_empty() || size < 1.0 {
+        return Ok(true);
+    }
+    let found = query_face(database(), &[Family::Name(&b.font)], b.bold, b.italic).is_some();
+    let id = find_face(&b.font, b.bold, b.italic)?;
+    let layer = database()
+        .with_face_data(id, |data, index| {
+            FontRef::try_from_slice_and_index(data, index)
+                .map(|font| rasterize(&font, b, size))
+                .map_err(|e| format!("Failed to read font {}: {}", b.font, e))
+        })
+        .ok_or_else(|| format!("Failed to read font {}", b.font))??;
+    composite(img, &layer, b, size);
+    Ok(found)
+}
+
+/// Lays the box out at `size` pixels per font size and draws it into a layer.
+fn rasterize(font: &FontRef, b: &TextBox, size: f32) -> Layer {
+    // `PxScale` is the ascent-to-descent height; CSS sizes are per em
+    let em = font.units_per_em().unwrap_or(1000.0);
+    let scale = PxScale::from(size * font.height_unscaled() / em);
+    let scaled = font.as_scaled(scale);
+
+    // Pen positions of each line's glyphs, and the line's width
+    let lines: Vec<(Vec<(GlyphId, f32)>, f32)> = b
+        .text
+        .split('\n')
+        .map(|line| {
+            let mut glyphs = Vec::new();
+            let mut x = 0.0;
+            let mut prev: Option<GlyphId> = None;
+            for c in line.trim_end_matches('\r').chars() {
+                let id = scaled.glyph_id(c);
+                if let Some(prev) = prev {
+                    x += scaled.kern(prev, id);
+                }
+                glyphs.push((id, x));
+                x += scaled.h_advance(id);
+                prev = Some(id);
+            }
+            (glyphs, x)
+        })
+        .collect();
+    let line_height = size * LINE_HEIGHT;
+    let block_width = lines.iter().map(|l| l.1).fold(0.0, f32::max);
+    let block_height = line_height * lines.len() as f32;
+
+    let stroke = b.stroke_width.max(0.0) as f32 * size;
+    let sigma = b.shadow_blur.max(0.0) as f32 * size / 2.0;
+    let pad = (stroke + 3.0 * sigma).ceil() + 2.0;
+    let width = (block_width + 2.0 * pad).ceil() as usize;
+    let height = (block_height + 2.0 * pad).ceil() as usize;
+    let left = (width as f32 - block_width) / 2.0;
+    let top = (height as f32 - block_height) / 2.0;
+    let first_baseline =
+        top + (line_height - (scaled.ascent() - scaled.descent())) / 2.0 + scaled.ascent();
+
+    let mut fill = vec![0f32; width * height];
+    for (i, (glyphs, line_width)) in lines.iter().enumerate() {
+        let x0 = left
+            + match b.align {
+                TextAlign::Left => 0.0,
+                TextAlign::Center => (block_width - line_width) / 2.0,
+                TextAlign::Right => block_width - line_width,
+            };
+        let baseline = first_baseline + i as f32 * line_height;
+        for &(id, x) in glyphs {
+            let glyph = id.with_scale_and_position(scale, point(x0 + x, baseline));
+            let Some(outlined) = font.outline_glyph(glyph) else {
+                continue;
+            };
+            let bounds = outlined.px_bounds();
+            outlined.draw(|gx, gy, c| {
+                let px = bounds.min.x as i64 + gx as i64;
+                let py = bounds.min.y as i64 + gy as i64;
+                if px >= 0 && py >= 0 && (px as usize) < width && (py as usize) < height {
+                    let v = &mut fill[py as usize * width + px as usize];
+                    *v = (*v + c).min(1.0);
+                }
+            });
+        }
+    }
+
+    // A round-joined stroke reaches `stroke` past the outline everywhere
+    let outline: Option<Vec<f32>> = (stroke > 0.0).then(|| {
+        distance_field(&fill, width, height)
+            .into_iter()
+            .map(|d| (stroke + 0.5 - d).clamp(0.0, 1.0))
+            .collect()
+    });
+    let fill_rgb = unit_rgb(b.color);
+    let stroke_rgb = unit_rgb(b.stroke_color);
+    let mut alpha = vec![0f32; width * height];
+    let mut color = vec![[0f32; 3]; width * height];
+    for i in 0..width * height {
+        let f = fill[i];
+        let under = outline.as_ref().map_or(0.0, |s| s[i] * (1.0 - f));
+        alpha[i] = f + under;
+        color[i] = [0, 1, 2].map(|c| fill_rgb[c] * f + stroke_rgb[c] * under);
+    }
+
+    let shadow = (b.shadow_opacity > 0.0).then(|| {
+        let mut shadow = alpha.clone();
+        if sigma > 0.0 {
+            blur_plane(&mut shadow, width, height, sigma as f64);
+        }
+        shadow
+    });
+
+    Layer {
+        width,
+        height,
+        alpha,
+        color,
+        shadow,
+    }
+}
+
+/// Rotates the layer onto the image around the box center, over its shadow.
+fn composite(img: &mut RgbaImage, layer: &Layer, b: &TextBox, size: f32) {
+    let (w, h) = img.dimensions();
+    let (cx, cy) = (b.x as f32 * w as f32, b.y as f32 * h as f32);
+    let (sin, cos) = (b.rotation as f32).to_radians().sin_cos();
+    let (hw, hh) = (layer.width as f32 / 2.0, layer.height as f32 / 2.0);
+    // Image point to layer point: undo the rotation around the center
+    let to_layer = |x: f32, y: f32| {
+        let (dx, dy) = (x - cx, y - cy);
+        (dx * cos + dy * sin + hw, -dx * sin + dy * cos + hh)
+    };
+    let (sx, sy) = match layer.shadow {
+        Some(_) => (b.shadow_x as f32 * size, b.shadow_y as f32 * size),
+        None => (0.0, 0.0),
+    };
+
+    // Bounds of the rotated layer and its shadow
+    let ex = hw * cos.abs() + hh * sin.abs();
+    let ey = hw * sin.abs() + hh * cos.abs();
+    let x0 = (cx - ex + sx.min(0.0)).floor().max(0.0) as u32;
+    let y0 = (cy - ey + sy.min(0.0)).floor().max(0.0) as u32;
+    let x1 = (cx + ex + sx.max(0.0)).ceil().clamp(0.0, w as f32) as u32;
+    let y1 = (cy + ey + sy.max(0.0)).ceil().clamp(0.0, h as f32) as u32;
+
+    let opacity = b.opacity.clamp(0.0, 1.0) as f32;
+    let shadow_strength = b.shadow_opacity.clamp(0.0, 1.0) as f32;
+    let shadow_rgb = unit_rgb(b.shadow_color);
+    for y in y0..y1 {
+        for x in x0..x1 {
+            let (px, py) = (x as f32 + 0.5, y as f32 + 0.5);
+            let (u, v) = to_layer(px, py);
+            let mut ta = 0.0;
+            let mut tc = [0f32; 3];
+            for (i, weight) in taps(layer, u, v) {
+                ta += layer.alpha[i] * weight;
+                for c in 0..3 {
+                    tc[c] += layer.color[i][c] * weight;
+                }
+            }
+            let sa = match layer.shadow {
+                Some(ref shadow) => {
+                    let (u, v) = to_layer(px - sx, py - sy);
+                    let s: f32 = taps(layer, u, v)
+                        .map(|(i, weight)| shadow[i] * weight)
+                        .sum();
+                    s * shadow_strength
+                }
+                None => 0.0,
+            };
+
+            // Text over its shadow, then the whole at the box opacity
+            let a = (ta + sa * (1.0 - ta)) * opacity;
+            if a <= 0.0 {
+                continue;
+            }
+            let p = img.get_pixel_mut(x, y);
+            let da = p[3] as f32 / 255.0;
+            let out_a = a + da * (1.0 - a);
+            for c in 0..3 {
+                let src = (tc[c] + shadow_rgb[c] * sa * (1.0 - ta)) * opacity * 255.0;
+                let dst = p[c] as f32 * da * (1.0 - a);
+                p[c] = ((src + dst) / out_a).round().clamp(0.0, 255.0) as u8;
+            }
+            p[3] = (out_a * 255.0).round().clamp(0.0, 255.0) as u8;
+        }
+    }
+}
+
+/// Bilinear taps (index, weight) around layer point (`u`, `v`); pixels
+/// outside the layer are empty and left out.
+fn taps(layer: &Layer, u: f32, v: f32) -> impl Iterator<Item = (usize, f32)> {
+    let (x, y) = (u - 0.5, v - 0.5);
+    let (x0, y0) = (x.floor(), y.floor());
+    let (fx, fy) = (x - x0, y - y0);
+    let (w, h) = (layer.width as i64, layer.height as i64);
+    [
+        (0, 0, (1.0 - fx) * (1.0 - fy)),
+        (1, 0, fx * (1.0 - fy)),
+        (0, 1, (1.0 - fx) * fy),
+        (1, 1, fx * fy),
+    ]
+    .into_iter()
+    .filter_map(move |(dx, dy, weight)| {
+        let (tx, ty) = (x0 as i64 + dx, y0 as i64 + dy);
+        (tx >= 0 && ty >= 0 && tx < w && ty < h).then(|| ((ty * w + tx) as usize, weight))
+    })
+}
+
+/// Euclidean distance in pixels from each pixel to the nearest one at least
+/// half covered (Felzenszwalb & Huttenlocher: the lower envelope of
+/// parabolas along columns, then rows).
+fn distance_field(coverage: &[f32], w: usize, h: usize) -> Vec<f32> {
+    const FAR: f64 = 1e20;
+    let mut d: Vec<f64> = coverage
+        .iter()
+        .map(|&c| if c >= 0.5 { 0.0 } else { FAR })
+        .collect();
+    let mut line = vec![0f64; w.max(h)];
+    let mut out = vec![0f64; w.max(h)];
+    for x in 0..w {
+        for y in 0..h {
+            line[y] = d[y * w + x];
+        }
+        envelope(&line[..h], &mut out[..h]);
+        for y in 0..h {
+            d[y * w + x] = out[y];
+        }
+    }
+    for y in 0..h {
+        envelope(&d[y * w..(y + 1) * w], &mut out[..w]);
+        d[y * w..(y + 1) * w].copy_from_slice(&out[..w]);
+    }
+    d.into_iter().map(|v| v.sqrt() as f32).collect()
+}
+
+/// Squared distance transform of one line of sampled squared distances `f`.
+fn envelope(f: &[f64], out: &mut [f64]) {
+    let n = f.len();
+    if n == 0 {
+        return;
+    }
+    let mut v = vec![0usize; n];
+    let mut z = vec![0f64; n + 1];
+    let mut k = 0;
+    z[0] = f64::NEG_INFINITY;
+    z[1] = f64::INFINITY;
+    let intersect = |q: usize, p: usize| {
+        ((f[q] + (q * q) as f64) - (f[p] + (p * p) as f64)) / (2.0 * (q as f64 - p as f64))
+    };
+    for q in 1..n {
+        let mut s = intersect(q, v[k]);
+        while s <= z[k] {
+            k -= 1;
+            s = intersect(q, v[k]);
+        }
+        k += 1;
+        v[k] = q;
+        z[k] = s;
+        z[k + 1] = f64::INFINITY;
+    }
+    k = 0;
+    for (q, out) in out.iter_mut().enumerate() {
+        while z[k + 1] < q as f64 {
+            k += 1;
+        }
+        let dq = q as f64 - v[k] as f64;
+        *out = dq * dq + f[v[k]];
+    }
+}
+
+fn unit_rgb(c: [u8; 3]) -> [f32; 3] {
+    c.map(|v| v as f32 / 255.0)
+}
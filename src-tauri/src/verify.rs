@@ -0,0 +1,578 @@
+//! Checks after export that every redaction stroke changed the written file.
+//! Each stroke's bounding box is carried through the rest of the pipeline
+//! (later layers, transforms, crop and the final scale), then the file is
+//! decoded and compared inside that box with the same export rendered
+//! without any redaction. The "smart" scale mode places its crop by image
+//! content, which redaction changes, so both renders use the crop the export
+//! got.
+
+use image::imageops::FilterType;
+use image::metadata::Orientation;
+use image::{DynamicImage, GenericImageView, ImageDecoder, RgbaImage};
+use serde::Serialize;
+use std::fs;
+
+use crate::redact::{PixelateStroke, RedactShape};
+use crate::{
+    crop_normalized, finish_edits, finish_export, render_edits, smartcrop, square_to_quad,
+    CropRect, EditStages, ExportPayload, Operation,
+};
+
+/// How much closer (mean difference per channel, 0..255) the file has to be
+/// to the redacted render than to the unredacted one. Lossy encoding noise
+/// affects both equally, so it cancels out.
+const MIN_CHANGE: f64 = 1.0;
+
+/// Samples per side when tracking regions through a perspective warp.
+const PERSPECTIVE_GRID: usize = 64;
+
+#[derive(Debug, Serialize, Clone, Copy, PartialEq)]
+#[serde(rename_all = "snake_case")]
+pub enum RedactionStatus {
+    /// The region differs from the unredacted export
+    Ok,
+    /// Part of the region was cropped away; the rest differs
+    PartlyOutside,
+    /// The region lies entirely outside the exported image
+    Outside,
+    /// The region looks the same as without redaction
+    Unchanged,
+    /// The written file could not be read back
+    Unverified,
+}
+
+#[derive(Debug, Serialize, Clone)]
+pub struct RedactionCheck {
+    /// "Stroke 2" for live strokes, "Layer 3, stroke 2" for layer strokes
+    pub label: String,
+    pub status: RedactionStatus,
+    /// Mean difference per channel from the unredacted export, 0..255
+    pub difference: f64,
+}
+
+/// Axis-aligned box, normalized to the image it's on.
+#[derive(Debug, Clone, Copy)]
+struct Region {
+    x0: f64,
+    y0: f64,
+    x1: f64,
+    y1: f64,
+}
+
+impl Region {
+    fn bounding(points: impl IntoIterator<Item = (f64, f64)>) -> Option<Region> {
+        points.into_iter().fold(None, |r, (x, y)| {
+            Some(match r {
+                None => Region { x0: x, y0: y, x1: x, y1: y },
+                Some(r) => Region {
+                    x0: r.x0.min(x),
+                    y0: r.y0.min(y),
+                    x1: r.x1.max(x),
+                    y1: r.y1.max(y),
+                },
+            })
+        })
+    }
+
+    /// The bounding box of the mapped corners.
+    fn map(&self, f: impl Fn(f64, f64) -> (f64, f64)) -> Region {
+        let corners = [
+            (self.x0, self.y0),
+            (self.x1, self.y0),
+            (self.x1, self.y1),
+            (self.x0, self.y1),
+        ];
+        Region::bounding(corners.map(|(x, y)| f(x, y))).unwrap()
+    }
+
+    fn area(&self) -> f64 {
+        (self.x1 - self.x0).max(0.0) * (self.y1 - self.y0).max(0.0)
+    }
+
+    /// The part inside the image, or None if nothing is left.
+    fn clip(&self) -> Option<Region> {
+        let r = Region {
+            x0: self.x0.clamp(0.0, 1.0),
+            y0: self.y0.clamp(0.0, 1.0),
+            x1: self.x1.clamp(0.0, 1.0),
+            y1: self.y1.clamp(0.0, 1.0),
+        };
+        (r.area() > 0.0).then_some(r)
+    }
+
+    fn contains(&self, x: f64, y: f64) -> bool {
+        x >= self.x0 && x <= self.x1 && y >= self.y0 && y <= self.y1
+    }
+}
+
+struct Tracked {
+    label: String,
+    /// None once the region has left the image
+    region: Option<Region>,
+    /// Set when a crop cut part of the region away
+    partial: bool,
+}
+
+/// Follows stroke regions through the pipeline, keeping the current image size
+/// for the steps that work in pixels.
+struct Tracker {
+    width: f64,
+    height: f64,
+    strokes: Vec<Tracked>,
+}
+
+impl Tracker {
+    fn add(&mut self, label: String, stroke: &PixelateStroke) {
+        let region = if stroke.shape == RedactShape::Brush {
+            let r = stroke.radius * self.width.max(self.height);
+            let (rx, ry) = (r / self.width, r / self.height);
+            Region::bounding(stroke.points.iter().map(|&(x, y)| (x, y))).map(|b| Region {
+                x0: b.x0 - rx,
+                y0: b.y0 - ry,
+                x1: b.x1 + rx,
+                y1: b.y1 + ry,
+            })
+        } else {
+            Region::bounding(stroke.points.iter().map(|&(x, y)| (x, y)))
+        };
+        self.strokes.push(Tracked {
+            label,
+            region: region.and_then(|r| r.clip()),
+            partial: false,
+        });
+    }
+
+    /// Moves every region with `f`. The regions are clipped to the image but
+    /// not marked partial: the box may grow past the edge while the stroke
+    /// itself stays inside.
+    fn map(&mut self, f: impl Fn(f64, f64) -> (f64, f64)) {
+        for s in &mut self.strokes {
+            s.region = s.region.and_then(|r| r.map(&f).clip());
+        }
+    }
+
+    fn rotate_flip(&mut self, degrees: i32, flip_h: bool, flip_v: bool) {
+        match degrees {
+            90 | -270 => {
+                self.map(|x, y| (1.0 - y, x));
+                std::mem::swap(&mut self.width, &mut self.height);
+            }
+            180 | -180 => self.map(|x, y| (1.0 - x, 1.0 - y)),
+            270 | -90 => {
+                self.map(|x, y| (y, 1.0 - x));
+                std::mem::swap(&mut self.width, &mut self.height);
+            }
+            _ => {}
+        }
+        if flip_h {
+            self.map(|x, y| (1.0 - x, y));
+        }
+        if flip_v {
+            self.map(|x, y| (x, 1.0 - y));
+        }
+    }
+
+    /// Same rotation as `rotate_fine`, clockwise around the center.
+    fn rotate_fine(&mut self, degrees: f64) {
+        if degrees.abs() < 1e-3 {
+            return;
+        }
+        let (sin, cos) = degrees.to_radians().sin_cos();
+        let (w, h) = (self.width, self.height);
+        self.map(|x, y| {
+            let dx = (x - 0.5) * w;
+            let dy = (y - 0.5) * h;
+            (
+                0.5 + (dx * cos - dy * sin) / w,
+                0.5 + (dx * sin + dy * cos) / h,
+            )
+        });
+    }
+
+    /// Keeps the normalized rectangle `keep` of the current image.
+    fn crop(&mut self, keep: Region) {
+        let Some(keep) = keep.clip() else {
+            return;
+        };
+        let (kw, kh) = (keep.x1 - keep.x0, keep.y1 - keep.y0);
+        for s in &mut self.strokes {
+            let Some(r) = s.region else {
+                continue;
+            };
+            let moved = r.map(|x, y| ((x - keep.x0) / kw, (y - keep.y0) / kh));
+            s.region = moved.clip();
+            if let Some(clipped) = s.region {
+                if clipped.area() < moved.area() * 0.999 {
+                    s.partial = true;
+                }
+            }
+        }
+        self.width *= kw;
+        self.height *= kh;
+    }
+
+    /// Samples the warp on a grid and keeps the output cells whose source
+    /// falls inside each region.
+    fn perspective(&mut self, corners: &[[f64; 2]; 4], width: u32, height: u32) {
+        if width == 0 || height == 0 {
+            return;
+        }
+        let Some(map) = square_to_quad(corners.map(|[x, y]| (x, y))) else {
+            return;
+        };
+        let n = PERSPECTIVE_GRID;
+        let cell = 1.0 / n as f64;
+        let samples: Vec<((f64, f64), (f64, f64))> = (0..n * n)
+            .map(|i| {
+                let u = ((i % n) as f64 + 0.5) * cell;
+                let v = ((i / n) as f64 + 0.5) * cell;
+                ((u, v), map(u, v))
+            })
+            .collect();
+        for s in &mut self.strokes {
+            let Some(r) = s.region else {
+                continue;
+            };
+            let inside = samples
+                .iter()
+                .filter(|(_, (sx, sy))| r.contains(*sx, *sy))
+                .map(|(uv, _)| *uv);
+            s.region = Region::bounding(inside).and_then(|b| {
+                let half = cell / 2.0;
+                Region {
+                    x0: b.x0 - half,
+                    y0: b.y0 - half,
+                    x1: b.x1 + half,
+                    y1: b.y1 + half,
+                }
+                .clip()
+            });
+        }
+        self.width = width as f64;
+        self.height = height as f64;
+    }
+
+    /// Mirrors `scale_to_target`.
+    fn scale_to_target(&mut self, width: u32, height: u32, mode: &str) {
+        if width == 0 || height == 0 {
+            return;
+        }
+        if mode == "scale_then_crop" {
+            let (tw, th) = (width as f64, height as f64);
+            let scale = (tw / self.width).max(th / self.height);
+            let sw = (self.width * scale).round();
+            let sh = (self.height * scale).round();
+            let ox = ((sw - tw).max(0.0) / 2.0).floor();
+            let oy = ((sh - th).max(0.0) / 2.0).floor();
+            self.crop(Region {
+                x0: ox / sw,
+                y0: oy / sh,
+                x1: (ox + tw.min(sw)) / sw,
+                y1: (oy + th.min(sh)) / sh,
+            });
+        } else if mode == "fit_with_padding" {
+            let (tw, th) = (width as f64, height as f64);
+            let scale = (tw / self.width).min(th / self.height);
+            let sw = (self.width * scale).round().clamp(1.0, tw);
+            let sh = (self.height * scale).round().clamp(1.0, th);
+            let ox = ((tw - sw) / 2.0).floor();
+            let oy = ((th - sh) / 2.0).floor();
+            self.map(|x, y| ((ox + x * sw) / tw, (oy + y * sh) / th));
+        }
+        self.width = width as f64;
+        self.height = height as f64;
+    }
+}
+
+/// Where each redaction stroke of the export ends up in the output. `smart`
+/// is the crop the "smart" scale mode took.
+fn track_strokes(
+    payload: &ExportPayload,
+    smart: Option<&CropRect>,
+) -> Result<Vec<Tracked>, String> {
+    let (width, height) = oriented_dimensions(&payload.source_path)?;
+    let mut t = Tracker {
+        width: width as f64,
+        height: height as f64,
+        strokes: Vec::new(),
+    };
+
+    for (i, entry) in payload.operations.iter().enumerate() {
+        if !entry.enabled {
+            continue;
+        }
+        match &entry.op {
+            Operation::Rotate {
+                degrees,
+                flip_h,
+                flip_v,
+                angle,
+            } => {
+                t.rotate_flip(*degrees, *flip_h, *flip_v);
+                t.rotate_fine(*angle);
+            }
+            Operation::Crop {
+                x,
+                y,
+                width,
+                height,
+            } => t.crop(Region {
+                x0: *x,
+                y0: *y,
+                x1: x + width,
+                y1: y + height,
+            }),
+            Operation::Perspective {
+                corners,
+                width,
+                height,
+            } => t.perspective(corners, *width, *height),
+            Operation::Resize { width, height } => {
+                if *width > 0 && *height > 0 {
+                    t.width = *width as f64;
+                    t.height = *height as f64;
+                }
+            }
+            Operation::Pixelate { strokes } => {
+                for (j, stroke) in strokes.iter().enumerate() {
+                    t.add(format!("Layer {}, stroke {}", i + 1, j + 1), stroke);
+                }
+            }
+            Operation::Adjust(_)
+            | Operation::Filter(_)
+            | Operation::ChromaKey(_)
+            | Operation::RemoveBackground(_)
+            | Operation::Mask { .. }
+            | Operation::Text { .. } => {}
+        }
+    }
+
+    t.rotate_flip(payload.rotation, payload.flip_h, payload.flip_v);
+    t.rotate_fine(payload.straighten);
+    for (j, stroke) in payload.pixelate_strokes.iter().enumerate() {
+        t.add(format!("Stroke {}", j + 1), stroke);
+    }
+    if let Some(ref crop) = payload.crop {
+        t.crop(Region {
+            x0: crop.x,
+            y0: crop.y,
+            x1: crop.x + crop.width,
+            y1: crop.y + crop.height,
+        });
+    }
+    match smart {
+        Some(crop) => {
+            t.crop(Region {
+                x0: crop.x,
+                y0: crop.y,
+                x1: crop.x + crop.width,
+                y1: crop.y + crop.height,
+            });
+            t.scale_to_target(payload.target_width, payload.target_height, "crop_then_scale");
+        }
+        None => t.scale_to_target(payload.target_width, payload.target_height, &payload.mode),
+    }
+    Ok(t.strokes)
+}
+
+/// Size of the source after its EXIF orientation, read from the header only.
+fn oriented_dimensions(path: &str) -> Result<(u32, u32), String> {
+    let mut decoder = image::ImageReader::open(path)
+        .and_then(|r| r.with_guessed_format())
+        .map_err(|e| format!("Failed to open image: {}", e))?
+        .into_decoder()
+        .map_err(|e| format!("Failed to open image: {}", e))?;
+    let (w, h) = decoder.dimensions();
+    Ok(match decoder.orientation() {
+        Ok(
+            Orientation::Rotate90
+            | Orientation::Rotate270
+            | Orientation::Rotate90FlipH
+            | Orientation::Rotate270FlipH,
+        ) => (h, w),
+        _ => (w, h),
+    })
+}
+
+/// Checks the redaction strokes of one export's files. The renders the check
+/// compares with reuse the export's own: the edits place the "smart" crop,
+/// and the unredacted edits are finished from the image before the strokes
+/// and kept for every file.
+pub struct RedactionVerifier<'a> {
+    stages: &'a EditStages,
+    /// `render_edits` without any redaction, once rendered
+    clean: Option<DynamicImage>,
+}
+
+impl<'a> RedactionVerifier<'a> {
+    pub fn new(stages: &'a EditStages) -> Self {
+        RedactionVerifier {
+            stages,
+            clean: None,
+        }
+    }
+
+    /// Checks every redaction stroke against the file written to
+    /// `payload.output_path`. `redacted` is the export as rendered, before
+    /// encoding. A file that can't be read back is reported per stroke; a
+    /// failure to track or render is returned, and the file stays written.
+    pub fn check(
+        &mut self,
+        payload: &ExportPayload,
+        redacted: &DynamicImage,
+    ) -> Result<Vec<RedactionCheck>, String> {
+        let has_strokes = !payload.pixelate_strokes.is_empty() || has_layer_strokes(payload);
+        if !has_strokes {
+            return Ok(Vec::new());
+        }
+        let smart = smart_crop(payload, &self.stages.edits);
+        let tracked = track_strokes(payload, smart.as_ref())?;
+        if tracked.is_empty() {
+            return Ok(Vec::new());
+        }
+
+        let written = fs::read(&payload.output_path)
+            .ok()
+            .and_then(|bytes| image::load_from_memory(&bytes).ok());
+        let references = match written {
+            Some(written) => {
+                let unredacted = self.render_unredacted(payload, smart.as_ref())?;
+                let (w, h) = written.dimensions();
+                let fit = |img: &DynamicImage| {
+                    if img.dimensions() == (w, h) {
+                        img.to_rgba8()
+                    } else {
+                        // A size limit may have shrunk the file
+                        img.resize_exact(w, h, FilterType::Triangle).to_rgba8()
+                    }
+                };
+                Some((written.to_rgba8(), fit(redacted), fit(&unredacted)))
+            }
+            None => None,
+        };
+
+        Ok(tracked
+            .into_iter()
+            .map(|s| {
+                let (status, difference) = match (s.region, &references) {
+                    (None, _) => (RedactionStatus::Outside, 0.0),
+                    (Some(_), None) => (RedactionStatus::Unverified, 0.0),
+                    (Some(region), Some((written, redacted, unredacted))) => {
+                        let from_source = mean_difference(written, unredacted, &region);
+                        let from_render = mean_difference(written, redacted, &region);
+                        let status = if from_source - from_render < MIN_CHANGE {
+                            RedactionStatus::Unchanged
+                        } else if s.partial {
+                            RedactionStatus::PartlyOutside
+                        } else {
+                            RedactionStatus::Ok
+                        };
+                        (status, from_source)
+                    }
+                };
+                RedactionCheck {
+                    label: s.label,
+                    status,
+                    difference: (difference * 10.0).round() / 10.0,
+                }
+            })
+            .collect())
+    }
+
+    /// The export rendered without redaction, cropped at `smart` rather than
+    /// wherever the "smart" scale mode would place it on the unredacted image.
+    fn render_unredacted(
+        &mut self,
+        payload: &ExportPayload,
+        smart: Option<&CropRect>,
+    ) -> Result<DynamicImage, String> {
+        let clean = without_redaction(payload);
+        let edits = match self.clean {
+            Some(ref edits) => edits.clone(),
+            None => {
+                // Redaction layers sit in the stack, before the kept image
+                let edits = match self.stages.unredacted {
+                    Some(ref img) if !has_layer_strokes(payload) => {
+                        // Any text warnings were reported with the export itself
+                        finish_edits(
+                            img.clone(),
+                            &clean,
+                            self.stages.saliency.as_deref(),
+                            &mut Vec::new(),
+                        )?
+                    }
+                    _ => render_edits(&clean)?,
+                };
+                self.clean = Some(edits.clone());
+                edits
+            }
+        };
+        Ok(match smart {
+            Some(crop) => finish_export(
+                crop_normalized(edits, crop),
+                &clean,
+                clean.target_width,
+                clean.target_height,
+                "crop_then_scale",
+            ),
+            None => finish_export(
+                edits,
+                &clean,
+                clean.target_width,
+                clean.target_height,
+                &clean.mode,
+            ),
+        })
+    }
+}
+
+fn has_layer_strokes(payload: &ExportPayload) -> bool {
+    payload
+        .operations
+        .iter()
+        .any(|e| e.enabled && matches!(e.op, Operation::Pixelate { .. }))
+}
+
+/// The crop the "smart" scale mode took on the export's `edits`, if it used
+/// it.
+fn smart_crop(payload: &ExportPayload, edits: &DynamicImage) -> Option<CropRect> {
+    let (width, height) = (payload.target_width, payload.target_height);
+    if payload.mode != "smart" || width == 0 || height == 0 {
+        return None;
+    }
+    Some(smartcrop::place(edits, width as f64 / height as f64))
+}
+
+/// The same export with every redaction layer and stroke left out.
+fn without_redaction(payload: &ExportPayload) -> ExportPayload {
+    let mut clean = payload.clone();
+    clean.pixelate_strokes.clear();
+    for entry in &mut clean.operations {
+        if matches!(entry.op, Operation::Pixelate { .. }) {
+            entry.enabled = false;
+        }
+    }
+    clean
+}
+
+/// Mean absolute difference per channel inside `region`.
+fn mean_difference(a: &RgbaImage, b: &RgbaImage, region: &Region) -> f64 {
+    let (w, h) = a.dimensions();
+    let x0 = (region.x0 * w as f64).floor() as u32;
+    let y0 = (region.y0 * h as f64).floor() as u32;
+    let x1 = ((region.x1 * w as f64).ceil() as u32).min(w);
+    let y1 = ((region.y1 * h as f64).ceil() as u32).min(h);
+    if x1 <= x0 || y1 <= y0 {
+        return 0.0;
+    }
+    let mut sum = 0u64;
+    for y in y0..y1 {
+        for x in x0..x1 {
+            let (p, q) = (a.get_pixel(x, y), b.get_pixel(x, y));
+            for c in 0..4 {
+                sum += (p[c] as i32 - q[c] as i32).unsigned_abs() as u64;
+            }
+        }
+    }
+    sum as f64 / ((x1 - x0) as u64 * (y1 - y0) as u64 * 4) as f64
+}
@@ -0,0 +1,81 @@
+// ─── Chroma Key ──────────────────────────────────────────────────────────────
+//
+// Settings for chroma key background removal, which runs only in Rust
+// (`chroma.rs`): pixels within a Lab ΔE of any key color are removed, anywhere
+// or only where connected to the image border or to seed points, and spill
+// suppression strips the key's tint from the edge that remains. Field names
+// are snake_case so the settings can be sent to Rust as-is.
+
+export type KeyRegion = "anywhere" | "edges" | "seeds";
+
+export const KEY_REGIONS: KeyRegion[] = ["anywhere", "edges", "seeds"];
+
+/** Key colors beyond this are ignored */
+export const MAX_KEY_COLORS = 16;
+
+export interface ChromaKey {
+  colors: [number, number, number][];
+  /** 0..1; ΔE up to `tolerance * 100` is removed, fading out by twice that */
+  tolerance: number;
+  region: KeyRegion;
+  /** Flood fill start points for the "seeds" region, normalized */
+  seeds: [number, number][];
+  /** Spill suppression strength, 0 (off) .. 1 */
+  spill: number;
+}
+
+/**
+ * Validates chroma key settings read from a file. Settings from before
+ * multiple key colors have a single `color`.
+ */
+export function parseChromaKey(raw: any): ChromaKey {
+  const n = (v: unknown, fallback: number, min: number, max: number) =>
+    typeof v === "number" && Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+  const colors: [number, number, number][] = Array.isArray(raw?.colors)
+    ? raw.colors.filter(isColor).map((c: number[]) => [c[0], c[1], c[2]])
+    : isColor(raw?.color)
+      ? [[raw.color[0], raw.color[1], raw.color[2]]]
+      : [];
+  return {
+    colors: colors.slice(0, MAX_KEY_COLORS),
+    tolerance: n(raw?.tolerance, 0.3, 0, 1),
+    region: KEY_REGIONS.includes(raw?.region) ? raw.region : "anywhere",
+    seeds: Array.isArray(raw?.seeds)
+      ? raw.seeds
+          .filter((p: unknown) => Array.isArray(p) && typeof p[0] === "number" && typeof p[1] === "number")
+          .map((p: number[]) => [p[0], p[1]])
+      : [],
+    spill: n(raw?.spill, 0, 0, 1),
+  };
+}
+
+/**
+ * Converts a tolerance saved before ΔE, when pixels within an RGB Manhattan
+ * distance of `tolerance * 255` were removed outright. Near typical key
+ * colors a step of that distance is about a third of a ΔE; the old cutoff is
+ * put in the middle of the fade.
+ */
+export function legacyTolerance(tolerance: number): number {
+  return (tolerance * 255 * 0.33) / (1.5 * 100);
+}
+
+export function isColor(c: unknown): c is [number, number, number] {
+  return Array.isArray(c) && c.length >= 3 && c.slice(0, 3).every((v) => typeof v === "number");
+}
+
+export function cloneChromaKey(key: ChromaKey): ChromaKey {
+  return {
+    ...key,
+    colors: key.colors.map((c) => [...c] as [number, number, number]),
+    seeds: key.seeds.map(([x, y]) => [x, y] as [number, number]),
+  };
+}
+
+export function describeChromaKey(key: ChromaKey): string {
+  const parts = [String(Math.round(key.tolerance * 100))];
+  if (key.colors.length > 1) parts.push(`${key.colors.length} colors`);
+  if (key.region === "edges") parts.push("from edges");
+  if (key.region === "seeds") parts.push(`from ${key.seeds.length} seed${key.seeds.length === 1 ? "" : "s"}`);
+  if (key.spill > 0) parts.push("despill");
+  return parts.join(", ");
+}
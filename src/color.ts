@@ -0,0 +1,322 @@
+// ─── Color Adjustments ───────────────────────────────────────────────────────
+//
+// The color suite used by the canvas preview and, through `color.rs`, by the
+// Rust pipeline. The two are line-for-line ports of each other: per-channel
+// tone steps (white balance, exposure, levels, brightness, contrast, curves)
+// are baked into one lookup table per channel, then hue, saturation, vibrance
+// and grayscale run per pixel, all in f64 on straight (unpremultiplied) RGBA.
+// Field names are snake_case so the settings can be sent to Rust as-is.
+
+/** Curve control point, input and output in 0..255. */
+export type CurvePoint = [number, number];
+
+export interface Curves {
+  rgb: CurvePoint[];
+  r: CurvePoint[];
+  g: CurvePoint[];
+  b: CurvePoint[];
+}
+
+export interface ColorAdjustments {
+  grayscale: boolean;
+  /** -1..1, a gamma curve that keeps black and white in place */
+  brightness: number;
+  /** -1..1, an S-curve around mid gray */
+  contrast: number;
+  /** In stops, -5..5 */
+  exposure: number;
+  /** Input black and white points (0..255) and midtone gamma (0.1..10) */
+  levels_black: number;
+  levels_white: number;
+  levels_gamma: number;
+  curves: Curves;
+  /** -1 (cool) .. 1 (warm) */
+  temperature: number;
+  /** -1 (green) .. 1 (magenta) */
+  tint: number;
+  saturation: number;
+  /** Like saturation, but weighted towards less saturated pixels */
+  vibrance: number;
+  /** Degrees, -180..180 */
+  hue: number;
+}
+
+/** Channel gain at temperature/tint ±1. */
+const WB_STRENGTH = 0.5;
+
+export function identityCurve(): CurvePoint[] {
+  return [
+    [0, 0],
+    [255, 255],
+  ];
+}
+
+export function defaultColorAdjustments(): ColorAdjustments {
+  return {
+    grayscale: false,
+    brightness: 0,
+    contrast: 0,
+    exposure: 0,
+    levels_black: 0,
+    levels_white: 255,
+    levels_gamma: 1,
+    curves: { rgb: identityCurve(), r: identityCurve(), g: identityCurve(), b: identityCurve() },
+    temperature: 0,
+    tint: 0,
+    saturation: 0,
+    vibrance: 0,
+    hue: 0,
+  };
+}
+
+export function cloneColorAdjustments(adj: ColorAdjustments): ColorAdjustments {
+  return JSON.parse(JSON.stringify(adj));
+}
+
+export function isCurveIdentity(points: CurvePoint[]): boolean {
+  return (
+    points.length >= 2 &&
+    points.every(([x, y]) => x === y) &&
+    Math.min(...points.map(([x]) => x)) === 0 &&
+    Math.max(...points.map(([x]) => x)) === 255
+  );
+}
+
+function tonesUnchanged(adj: ColorAdjustments): boolean {
+  const { curves } = adj;
+  return (
+    adj.brightness === 0 &&
+    adj.contrast === 0 &&
+    adj.exposure === 0 &&
+    adj.levels_black === 0 &&
+    adj.levels_white === 255 &&
+    adj.levels_gamma === 1 &&
+    adj.temperature === 0 &&
+    adj.tint === 0 &&
+    isCurveIdentity(curves.rgb) &&
+    isCurveIdentity(curves.r) &&
+    isCurveIdentity(curves.g) &&
+    isCurveIdentity(curves.b)
+  );
+}
+
+function colorsUnchanged(adj: ColorAdjustments): boolean {
+  return !adj.grayscale && adj.saturation === 0 && adj.vibrance === 0 && adj.hue === 0;
+}
+
+/** Whether the adjustments leave every pixel unchanged. */
+export function isColorNeutral(adj: ColorAdjustments): boolean {
+  return tonesUnchanged(adj) && colorsUnchanged(adj);
+}
+
+/** Validates adjustments read from a file; missing fields take their defaults. */
+export function parseColorAdjustments(raw: any): ColorAdjustments {
+  const d = defaultColorAdjustments();
+  if (!raw || typeof raw !== "object") return d;
+  const n = (v: unknown, fallback: number, min: number, max: number) =>
+    typeof v === "number" && Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+  const curves = raw.curves ?? {};
+  const black = n(raw.levels_black, d.levels_black, 0, 254);
+  return {
+    grayscale: !!raw.grayscale,
+    brightness: n(raw.brightness, 0, -1, 1),
+    contrast: n(raw.contrast, 0, -1, 1),
+    exposure: n(raw.exposure, 0, -5, 5),
+    levels_black: black,
+    levels_white: n(raw.levels_white, d.levels_white, black + 1, 255),
+    levels_gamma: n(raw.levels_gamma, d.levels_gamma, 0.1, 10),
+    curves: {
+      rgb: parseCurve(curves.rgb),
+      r: parseCurve(curves.r),
+      g: parseCurve(curves.g),
+      b: parseCurve(curves.b),
+    },
+    temperature: n(raw.temperature, 0, -1, 1),
+    tint: n(raw.tint, 0, -1, 1),
+    saturation: n(raw.saturation, 0, -1, 1),
+    vibrance: n(raw.vibrance, 0, -1, 1),
+    hue: n(raw.hue, 0, -180, 180),
+  };
+}
+
+function parseCurve(raw: unknown): CurvePoint[] {
+  if (!Array.isArray(raw)) return identityCurve();
+  const points = raw
+    .filter((p) => Array.isArray(p) && Number.isFinite(p[0]) && Number.isFinite(p[1]))
+    .map(([x, y]) => [Math.max(0, Math.min(255, x)), Math.max(0, Math.min(255, y))] as CurvePoint);
+  return points.length >= 2 ? points : identityCurve();
+}
+
+/**
+ * Monotone cubic (Fritsch–Carlson) interpolation through the curve points,
+ * so the curve never overshoots between them. Flat beyond the end points.
+ */
+export function curveFunction(points: CurvePoint[]): (x: number) => number {
+  const sorted = [...points].sort((a, b) => a[0] - b[0]);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const [x, y] of sorted) {
+    // A later point at the same x replaces the earlier one
+    if (xs.length > 0 && xs[xs.length - 1] === x) {
+      ys[ys.length - 1] = y;
+    } else {
+      xs.push(x);
+      ys.push(y);
+    }
+  }
+  const n = xs.length;
+  if (n === 0) return (x) => x;
+  if (n === 1) return () => ys[0];
+
+  const d: number[] = [];
+  for (let i = 0; i < n - 1; i++) d.push((ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]));
+  const m: number[] = [d[0]];
+  for (let i = 1; i < n - 1; i++) m.push(d[i - 1] * d[i] <= 0 ? 0 : (d[i - 1] + d[i]) / 2);
+  m.push(d[n - 2]);
+  for (let i = 0; i < n - 1; i++) {
+    if (d[i] === 0) {
+      m[i] = 0;
+      m[i + 1] = 0;
+      continue;
+    }
+    const a = m[i] / d[i];
+    const b = m[i + 1] / d[i];
+    const s = a * a + b * b;
+    if (s > 9) {
+      const t = 3 / Math.sqrt(s);
+      m[i] = t * a * d[i];
+      m[i + 1] = t * b * d[i];
+    }
+  }
+
+  return (x) => {
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[n - 1]) return ys[n - 1];
+    let i = 0;
+    while (x >= xs[i + 1]) i++;
+    const h = xs[i + 1] - xs[i];
+    const t = (x - xs[i]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (
+      (2 * t3 - 3 * t2 + 1) * ys[i] +
+      (t3 - 2 * t2 + t) * h * m[i] +
+      (-2 * t3 + 3 * t2) * ys[i + 1] +
+      (t3 - t2) * h * m[i + 1]
+    );
+  };
+}
+
+/** One 256-entry table per channel for the tone steps. */
+export function buildColorLuts(adj: ColorAdjustments): [Uint8Array, Uint8Array, Uint8Array] {
+  const gains = [
+    1 + WB_STRENGTH * adj.temperature,
+    1 - WB_STRENGTH * adj.tint,
+    1 - WB_STRENGTH * adj.temperature,
+  ];
+  const exposure = 2 ** adj.exposure;
+  const black = adj.levels_black;
+  const white = Math.max(black + 1, adj.levels_white);
+  const gamma = 1 / adj.levels_gamma;
+  const brightness = 2 ** -adj.brightness;
+  const contrast = 2 ** (2 * adj.contrast);
+  const rgbCurve = curveFunction(adj.curves.rgb);
+  const channelCurves = [adj.curves.r, adj.curves.g, adj.curves.b].map(curveFunction);
+
+  const luts: [Uint8Array, Uint8Array, Uint8Array] = [
+    new Uint8Array(256),
+    new Uint8Array(256),
+    new Uint8Array(256),
+  ];
+  for (let c = 0; c < 3; c++) {
+    for (let i = 0; i < 256; i++) {
+      let v = (i / 255) * gains[c] * exposure;
+      v = Math.max(0, Math.min(1, (v * 255 - black) / (white - black)));
+      v = v ** gamma;
+      v = v ** brightness;
+      v = v < 0.5 ? 0.5 * (2 * v) ** contrast : 1 - 0.5 * (2 - 2 * v) ** contrast;
+      v = channelCurves[c](rgbCurve(v * 255));
+      luts[c][i] = Math.round(Math.max(0, Math.min(255, v)));
+    }
+  }
+  return luts;
+}
+
+/** Applies the adjustments in place to RGBA pixel data. */
+export function applyColorAdjustments(data: Uint8ClampedArray, adj: ColorAdjustments) {
+  if (!tonesUnchanged(adj)) {
+    const [lr, lg, lb] = buildColorLuts(adj);
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = lr[data[i]];
+      data[i + 1] = lg[data[i + 1]];
+      data[i + 2] = lb[data[i + 2]];
+    }
+  }
+  if (colorsUnchanged(adj)) return;
+
+  const hue = hueMatrix(adj.hue);
+  const saturation = 1 + adj.saturation;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] / 255;
+    let g = data[i + 1] / 255;
+    let b = data[i + 2] / 255;
+    if (hue) {
+      [r, g, b] = [
+        hue[0] * r + hue[1] * g + hue[2] * b,
+        hue[3] * r + hue[4] * g + hue[5] * b,
+        hue[6] * r + hue[7] * g + hue[8] * b,
+      ];
+    }
+    if (adj.saturation !== 0 || adj.vibrance !== 0) {
+      const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      const chroma = Math.max(0, Math.min(1, Math.max(r, g, b) - Math.min(r, g, b)));
+      const s = saturation * (1 + adj.vibrance * (1 - chroma));
+      r = luma + (r - luma) * s;
+      g = luma + (g - luma) * s;
+      b = luma + (b - luma) * s;
+    }
+    if (adj.grayscale) {
+      r = g = b = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    }
+    data[i] = Math.round(Math.max(0, Math.min(1, r)) * 255);
+    data[i + 1] = Math.round(Math.max(0, Math.min(1, g)) * 255);
+    data[i + 2] = Math.round(Math.max(0, Math.min(1, b)) * 255);
+  }
+}
+
+/** Rotation around the gray axis, the same matrix as CSS `hue-rotate()`. */
+function hueMatrix(degrees: number): number[] | null {
+  if (degrees === 0) return null;
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213,
+    0.715 - cos * 0.715 - sin * 0.715,
+    0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143,
+    0.715 + cos * 0.285 + sin * 0.14,
+    0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787,
+    0.715 - cos * 0.715 + sin * 0.715,
+    0.072 + cos * 0.928 + sin * 0.072,
+  ];
+}
+
+/**
+ * Temperature and tint that make the given color neutral gray. The red/blue
+ * gains solve r·(1 + k·t) = b·(1 − k·t); green is then scaled to that gray.
+ */
+export function neutralWhiteBalance([r, g, b]: [number, number, number]): {
+  temperature: number;
+  tint: number;
+} {
+  if (r + b === 0 || g === 0) return { temperature: 0, tint: 0 };
+  const kt = (b - r) / (b + r);
+  const gray = r * (1 + kt);
+  const kTint = 1 - gray / g;
+  return {
+    temperature: Math.max(-1, Math.min(1, kt / WB_STRENGTH)),
+    tint: Math.max(-1, Math.min(1, kTint / WB_STRENGTH)),
+  };
+}
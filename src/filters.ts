@@ -0,0 +1,218 @@
+// ─── Filters ─────────────────────────────────────────────────────────────────
+//
+// Denoise, blur and sharpen, mirrored by `filters.rs`. Every filter is linear
+// or near-linear in its radius so the preview can update live: the Gaussian is
+// three box blurs (constant cost per pixel for any radius) and the median uses
+// a sliding histogram. The preview runs them on a copy scaled to the zoom
+// level with radii scaled to match. Field names are snake_case so the
+// settings can be sent to Rust as-is.
+
+export interface Filters {
+  /** Unsharp mask strength, 0 (off) .. 5 */
+  sharpen_amount: number;
+  /** Unsharp mask blur sigma in pixels */
+  sharpen_radius: number;
+  /** Differences below this (0..255) are left alone, to spare noise and skin */
+  sharpen_threshold: number;
+  /** Gaussian sigma in pixels, 0 (off) .. 50 */
+  blur_radius: number;
+  /** Median window radius in pixels, 0 (off) .. 5 */
+  denoise_radius: number;
+}
+
+export function defaultFilters(): Filters {
+  return {
+    sharpen_amount: 0,
+    sharpen_radius: 1,
+    sharpen_threshold: 0,
+    blur_radius: 0,
+    denoise_radius: 0,
+  };
+}
+
+export function isFiltersNeutral(f: Filters): boolean {
+  return f.sharpen_amount === 0 && f.blur_radius === 0 && f.denoise_radius === 0;
+}
+
+/** Validates filters read from a file; missing fields take their defaults. */
+export function parseFilters(raw: any): Filters {
+  const d = defaultFilters();
+  if (!raw || typeof raw !== "object") return d;
+  const n = (v: unknown, fallback: number, min: number, max: number) =>
+    typeof v === "number" && Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+  return {
+    sharpen_amount: n(raw.sharpen_amount, d.sharpen_amount, 0, 5),
+    sharpen_radius: n(raw.sharpen_radius, d.sharpen_radius, 0.1, 20),
+    sharpen_threshold: n(raw.sharpen_threshold, d.sharpen_threshold, 0, 255),
+    blur_radius: n(raw.blur_radius, d.blur_radius, 0, 50),
+    denoise_radius: Math.round(n(raw.denoise_radius, d.denoise_radius, 0, 5)),
+  };
+}
+
+/**
+ * Applies the filters in place to RGBA pixel data: denoise, then blur, then
+ * sharpen. `scale` is the size of the data relative to the full image, so a
+ * downscaled preview gets proportionally smaller radii.
+ */
+export function applyFilters(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  f: Filters,
+  scale = 1
+) {
+  // At least 1, or denoise would vanish from previews zoomed out to fit
+  const denoise = f.denoise_radius > 0 ? Math.max(1, Math.round(f.denoise_radius * scale)) : 0;
+  if (denoise > 0) data.set(median(data, width, height, denoise));
+  if (f.blur_radius > 0) {
+    data.set(gaussianBlur(data, width, height, f.blur_radius * scale));
+  }
+  if (f.sharpen_amount > 0) {
+    const blurred = gaussianBlur(data, width, height, f.sharpen_radius * scale);
+    for (let i = 0; i < data.length; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        const diff = data[i + c] - blurred[i + c];
+        if (Math.abs(diff) >= f.sharpen_threshold) {
+          data[i + c] = Math.round(data[i + c] + f.sharpen_amount * diff);
+        }
+      }
+    }
+  }
+}
+
+/** Box radii for three passes approximating a Gaussian of `sigma` (Kovesi). */
+function boxRadii(sigma: number): number[] {
+  const n = 3;
+  const ideal = Math.sqrt((12 * sigma * sigma) / n + 1);
+  let wl = Math.floor(ideal);
+  if (wl % 2 === 0) wl--;
+  const wu = wl + 2;
+  const m = Math.round(
+    (12 * sigma * sigma - n * wl * wl - 4 * n * wl - 3 * n) / (-4 * wl - 4)
+  );
+  return [0, 1, 2].map((i) => Math.max(0, ((i < m ? wl : wu) - 1) / 2));
+}
+
+/**
+ * One box blur pass of radius `r` along `lines` lines of `len` samples,
+ * `step` apart, with line `i` starting at `i * lineStep`. Edges repeat the
+ * border sample.
+ */
+function boxPass(
+  src: Float32Array,
+  dst: Float32Array,
+  lines: number,
+  lineStep: number,
+  len: number,
+  step: number,
+  r: number
+) {
+  if (r === 0) {
+    dst.set(src);
+    return;
+  }
+  const norm = 1 / (2 * r + 1);
+  for (let line = 0; line < lines; line++) {
+    const start = line * lineStep;
+    const first = src[start];
+    const last = src[start + (len - 1) * step];
+    let sum = 0;
+    for (let i = -r; i <= r; i++) sum += src[start + Math.max(0, Math.min(len - 1, i)) * step];
+    for (let i = 0; i < len; i++) {
+      dst[start + i * step] = sum * norm;
+      const add = i + r + 1;
+      const sub = i - r;
+      sum += (add < len ? src[start + add * step] : last) - (sub >= 0 ? src[start + sub * step] : first);
+    }
+  }
+}
+
+/** Gaussian blur of one `width`×`height` plane, in place. */
+export function blurPlane(plane: Float32Array, width: number, height: number, sigma: number) {
+  const tmp = new Float32Array(width * height);
+  for (const r of boxRadii(sigma)) {
+    boxPass(plane, tmp, height, width, width, 1, r);
+    boxPass(tmp, plane, width, 1, height, width, r);
+  }
+}
+
+/** Gaussian blur on premultiplied alpha, so transparent pixels don't bleed. */
+export function gaussianBlur(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  sigma: number
+): Uint8ClampedArray {
+  const size = width * height;
+  const planes = [0, 1, 2, 3].map(() => new Float32Array(size));
+  for (let p = 0; p < size; p++) {
+    const a = data[p * 4 + 3];
+    for (let c = 0; c < 3; c++) planes[c][p] = (data[p * 4 + c] * a) / 255;
+    planes[3][p] = a;
+  }
+  for (const plane of planes) blurPlane(plane, width, height, sigma);
+  const out = new Uint8ClampedArray(data.length);
+  for (let p = 0; p < size; p++) {
+    const a = planes[3][p];
+    if (a <= 0) continue;
+    for (let c = 0; c < 3; c++) out[p * 4 + c] = Math.round((planes[c][p] * 255) / a);
+    out[p * 4 + 3] = Math.round(a);
+  }
+  return out;
+}
+
+/**
+ * Median of each color channel over a (2r+1)² window, using Huang's sliding
+ * histogram so the cost per pixel grows with r rather than r². Alpha is kept.
+ */
+function median(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  r: number
+): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(data);
+  const size = 2 * r + 1;
+  const half = Math.floor((size * size) / 2);
+  // Byte offsets of the clamped columns -r..width+r-1 and of the window rows
+  const cols = new Int32Array(width + 2 * r);
+  for (let i = 0; i < cols.length; i++) cols[i] = Math.max(0, Math.min(width - 1, i - r)) * 4;
+  const rows = new Int32Array(size);
+  const hist = new Uint32Array(256);
+  for (let c = 0; c < 3; c++) {
+    for (let y = 0; y < height; y++) {
+      for (let k = 0; k < size; k++) {
+        rows[k] = Math.max(0, Math.min(height - 1, y - r + k)) * width * 4 + c;
+      }
+      hist.fill(0);
+      for (let k = 0; k < size; k++) {
+        for (let i = 0; i < size; i++) hist[data[rows[k] + cols[i]]]++;
+      }
+      // `below` counts the window samples less than the running median `m`
+      let m = 0;
+      let below = 0;
+      for (let x = 0; x < width; x++) {
+        if (x > 0) {
+          for (let k = 0; k < size; k++) {
+            const old = data[rows[k] + cols[x - 1]];
+            const add = data[rows[k] + cols[x + 2 * r]];
+            hist[old]--;
+            if (old < m) below--;
+            hist[add]++;
+            if (add < m) below++;
+          }
+        }
+        while (below > half) {
+          m--;
+          below -= hist[m];
+        }
+        while (below + hist[m] <= half) {
+          below += hist[m];
+          m++;
+        }
+        out[(y * width + x) * 4 + c] = m;
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,54 @@
+// ─── Export Formats ──────────────────────────────────────────────────────────
+//
+// Formats `export_image` can write, and the per-format encoder options sent
+// along as `format_options`. Option names are snake_case to match Rust.
+
+export interface ExportFormat {
+  id: string;
+  label: string;
+  ext: string;
+  /** Whether the quality slider applies */
+  lossy: (options: FormatOptions) => boolean;
+  /** Metadata blocks `metadata.rs` can embed; the rest are dropped */
+  metadata: MetadataBlock[];
+}
+
+export type MetadataBlock = "exif" | "xmp" | "icc";
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  { id: "png", label: "PNG", ext: "png", lossy: () => false, metadata: ["exif", "xmp", "icc"] },
+  { id: "jpeg", label: "JPEG", ext: "jpg", lossy: () => true, metadata: ["exif", "xmp", "icc"] },
+  { id: "webp", label: "WebP", ext: "webp", lossy: (o) => !o.webp_lossless, metadata: ["exif", "icc"] },
+  { id: "avif", label: "AVIF", ext: "avif", lossy: () => true, metadata: [] },
+  { id: "tiff", label: "TIFF", ext: "tiff", lossy: () => false, metadata: [] },
+  { id: "bmp", label: "BMP", ext: "bmp", lossy: () => false, metadata: [] },
+  { id: "gif", label: "GIF", ext: "gif", lossy: () => false, metadata: [] },
+];
+
+export interface FormatOptions {
+  png_compression: "fast" | "default" | "best";
+  jpeg_progressive: boolean;
+  jpeg_subsampling: "420" | "422" | "444";
+  webp_lossless: boolean;
+  avif_speed: number;
+  tiff_compression: "none" | "lzw" | "deflate";
+  bmp_alpha: boolean;
+  gif_speed: number;
+  background: [number, number, number];
+}
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+  png_compression: "default",
+  jpeg_progressive: false,
+  jpeg_subsampling: "420",
+  webp_lossless: false,
+  avif_speed: 6,
+  tiff_compression: "lzw",
+  bmp_alpha: true,
+  gif_speed: 10,
+  background: [255, 255, 255],
+};
+
+export function findFormat(id: string): ExportFormat {
+  return EXPORT_FORMATS.find((f) => f.id === id) ?? EXPORT_FORMATS[0];
+}
@@ -1,25 +1,189 @@
 import { invoke } from "@tauri-apps/api/core";
 import { getCurrentWebviewWindow } from "@tauri-apps/api/webviewWindow";
-import { open as dialogOpen, save as dialogSave } from "@tauri-apps/plugin-dialog";
+import { ask, open as dialogOpen, save as dialogSave } from "@tauri-apps/plugin-dialog";
+import { exists } from "@tauri-apps/plugin-fs";
+import { KEY_REGIONS, KeyRegion, MAX_KEY_COLORS } from "./chroma";
+import {
+  cloneOperations,
+  createOperation,
+  describeOperation,
+  Operation,
+} from "./operations";
+import {
+  applyColorAdjustments,
+  cloneColorAdjustments,
+  ColorAdjustments,
+  curveFunction,
+  Curves,
+  defaultColorAdjustments,
+  identityCurve,
+  isColorNeutral,
+  neutralWhiteBalance,
+} from "./color";
+import { applyFilters, defaultFilters, Filters, isFiltersNeutral } from "./filters";
+import { EXPORT_FORMATS, findFormat, FormatOptions, MetadataBlock } from "./formats";
+import { featherMask, growMask, MaskBrush, MaskView, paintMask } from "./mask";
+import { BgRemovalMode, defaultMatteSettings, MatteSettings } from "./matte";
+import { parseRecipe, Recipe, RECIPE_FORMAT, RECIPE_VERSION } from "./recipe";
+import {
+  applyRedaction,
+  cloneStroke,
+  PixelateStroke,
+  RedactMode,
+  RedactShape,
+} from "./redact";
+import {
+  cloneTextBox,
+  cloneTextStyle,
+  defaultTextStyle,
+  drawTextBox,
+  PreviewFont,
+  TextAlign,
+  TextBox,
+  textBoxCorners,
+  TextStyle,
+  textStyleOf,
+} from "./text";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
 interface ImageInfo {
+  path: string;
   width: number;
   height: number;
   data_url: string;
 }
 
-interface PixelateStroke {
-  points: [number, number][];
-  radius: number;
+/** The operation stack rendered on top of the original; live edits draw over it. */
+interface SourceImage {
+  path: string;
+  width: number;
+  height: number;
+  dataUrl: string;
+}
+
+/**
+ * A saved crop preset; mirrors `CropPreset` in Rust. Without `exact` only the
+ * `width:height` aspect ratio is applied.
+ */
+interface CropPreset {
+  /** Stable key for the preset select; names can repeat */
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  exact: boolean;
+  scale_mode: string;
+}
+
+/** One output of an export profile; mirrors `Rendition` in Rust */
+interface Rendition {
+  width: number;
+  height: number;
+  format: string;
+  quality: number;
+  mode: string;
+  suffix: string;
+}
+
+interface ExportProfile {
+  name: string;
+  renditions: Rendition[];
+}
+
+/** Outcome of `fit_export_size` */
+interface FitResult {
+  bytes: number;
+  quality: number;
+  width: number;
+  height: number;
+}
+
+/** Outcome of `preview_export` */
+interface ExportPreview extends FitResult {
+  data_url: string;
+}
+
+/** A redaction stroke checked against the written file; mirrors `RedactionCheck` in Rust */
+interface RedactionCheck {
+  label: string;
+  status: "ok" | "partly_outside" | "outside" | "unchanged" | "unverified";
+  /** Mean difference per channel from the unredacted export, 0..255 */
+  difference: number;
+}
+
+/** A region proposed by `detect_regions`; mirrors `Detection` in Rust */
+interface Detection {
+  kind: "face" | "text";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+}
+
+/** Which model-backed features can run; mirrors `ModelStatus` in Rust */
+interface ModelStatus {
+  faces: boolean;
+  text: boolean;
+  subject: boolean;
+}
+
+/** What transparent pixels are composited onto on export; mirrors `Backdrop` in Rust */
+type Backdrop =
+  | { kind: "none" }
+  | { kind: "solid"; color: [number, number, number] }
+  | { kind: "gradient"; from: [number, number, number]; to: [number, number, number]; angle: number };
+
+/** An installed or bundled font family; mirrors `FontFamily` in Rust */
+interface FontFamily {
+  name: string;
+  bundled: boolean;
+}
+
+/** A font file from `load_font`; mirrors `LoadedFont` in Rust */
+interface LoadedFont {
+  data_url: string;
+  /** Per em; descent is negative */
+  ascent: number;
+  descent: number;
+}
+
+/** Outcome of `export_image`, and of each file `export_renditions` writes */
+interface ExportResult {
+  path: string;
+  redactions: RedactionCheck[];
+  /** Why the redactions could not be checked; the file is written anyway */
+  redaction_error: string | null;
+  /** Text boxes drawn in a fallback font or skipped */
+  warnings: string[];
+}
+
+interface HistoryEntry {
+  label: string;
+  source: SourceImage;
+  edits: Recipe;
+}
+
+interface RecipeEntry {
+  name: string;
+  path: string;
 }
 
 interface AppState {
   sourcePath: string | null;
   imageWidth: number;
   imageHeight: number;
-  tool: "select" | "crop" | "pixelate" | "eyedropper";
+  operations: Operation[];
+  tool:
+    | "select"
+    | "crop"
+    | "pixelate"
+    | "eyedropper"
+    | "straighten"
+    | "perspective"
+    | "mask"
+    | "text";
 
   // View
   zoom: number;
@@ -37,20 +201,26 @@ interface AppState {
   targetHeight: number;
   lockAspect: boolean;
   scaleMode: string;
+  /** Padding of the "fit_with_padding" scale mode; null is transparent */
+  padColor: [number, number, number] | null;
 
   // Edits
-  grayscale: boolean;
-  brightness: number;
-  contrast: number;
+  color: ColorAdjustments;
+  filters: Filters;
   rotation: number;
   flipH: boolean;
   flipV: boolean;
+  straighten: number;
 
-  // Pixelate
+  // Redaction (pixelate tool). The settings apply to new strokes; each stroke
+  // keeps its own copy.
   pixelateStrokes: PixelateStroke[];
-  pixelateRedoStack: PixelateStroke[];
   pixelateBrushSize: number;
   pixelateBlockSize: number;
+  redactShape: RedactShape;
+  redactMode: RedactMode;
+  redactBlurRadius: number;
+  redactColor: [number, number, number];
   isPixelatePainting: boolean;
   currentStroke: PixelateStroke | null;
 
@@ -58,14 +228,32 @@ interface AppState {
   resizeW: number;
   resizeH: number;
   resizeLockAspect: boolean;
-  originalPath: string | null;
   originalWidth: number;
   originalHeight: number;
 
   // Background removal
   bgEnabled: boolean;
-  bgColor: [number, number, number];
+  bgMode: BgRemovalMode;
+  bgColors: [number, number, number][];
   bgTolerance: number;
+  bgRegion: KeyRegion;
+  bgSeeds: [number, number][];
+  bgSpill: number;
+  bgMatte: MatteSettings;
+  /** Refined mask used instead of the key or matte; see `mask.ts` */
+  bgMask: string | null;
+
+  // Mask refinement (mask tool). Brush size is a radius in image pixels.
+  maskBrush: MaskBrush;
+  maskBrushSize: number;
+  maskHardness: number;
+  maskView: MaskView;
+  isMaskPainting: boolean;
+
+  // Text overlays (text tool). The style applies to new boxes and follows the
+  // selected one; each box keeps its own copy.
+  textBoxes: TextBox[];
+  textStyle: TextStyle;
 }
 
 // ─── State ───────────────────────────────────────────────────────────────────
@@ -74,6 +262,7 @@ const state: AppState = {
   sourcePath: null,
   imageWidth: 0,
   imageHeight: 0,
+  operations: [],
   tool: "select",
   zoom: 1,
   panX: 0,
@@ -86,30 +275,62 @@ const state: AppState = {
   targetHeight: 600,
   lockAspect: false,
   scaleMode: "scale_then_crop",
-  grayscale: false,
-  brightness: 0,
-  contrast: 0,
+  padColor: [255, 255, 255],
+  color: defaultColorAdjustments(),
+  filters: defaultFilters(),
   rotation: 0,
   flipH: false,
   flipV: false,
+  straighten: 0,
   pixelateStrokes: [],
-  pixelateRedoStack: [],
   pixelateBrushSize: 20,
   pixelateBlockSize: 10,
+  redactShape: "brush",
+  redactMode: "mosaic",
+  redactBlurRadius: 12,
+  redactColor: [0, 0, 0],
   isPixelatePainting: false,
   currentStroke: null,
   resizeW: 0,
   resizeH: 0,
   resizeLockAspect: true,
-  originalPath: null,
   originalWidth: 0,
   originalHeight: 0,
   bgEnabled: false,
-  bgColor: [0, 0, 0],
+  bgMode: "chroma_key",
+  bgColors: [[0, 0, 0]],
   bgTolerance: 30,
+  bgRegion: "anywhere",
+  bgSeeds: [],
+  bgSpill: 0,
+  bgMatte: defaultMatteSettings(),
+  bgMask: null,
+  maskBrush: "remove",
+  maskBrushSize: 20,
+  maskHardness: 0.5,
+  maskView: "overlay",
+  isMaskPainting: false,
+  textBoxes: [],
+  textStyle: defaultTextStyle(),
 };
 
 let loadedImage: HTMLImageElement | null = null;
+let originalSource: SourceImage | null = null;
+let currentSource: SourceImage | null = null;
+let editingOperationId: number | null = null;
+
+const MAX_HISTORY = 100;
+let history: HistoryEntry[] = [];
+let historyIndex = -1;
+
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "webp"];
+
+// Export settings last shown by "Check Size"
+let checkedFitKey: string | null = null;
+
+// Export preview refresh; stale results are dropped by generation
+let exportPreviewTimer: number | undefined;
+let exportPreviewGeneration = 0;
 
 // ─── DOM ─────────────────────────────────────────────────────────────────────
 
@@ -131,6 +352,9 @@ function initApp() {
   // Open / Export
   $("btn-open").addEventListener("click", openFile);
   $("btn-export").addEventListener("click", showExportModal);
+  $("btn-redaction-close").addEventListener("click", () => {
+    $("redaction-modal").style.display = "none";
+  });
 
   // Recents
   $("btn-recents").addEventListener("click", showRecentsModal);
@@ -146,47 +370,127 @@ function initApp() {
 
   // Crop controls
   $("crop-preset").addEventListener("change", onCropPresetChange);
+  $("btn-smart-crop").addEventListener("click", smartCrop);
   $("crop-width").addEventListener("change", onCropSizeChange);
   $("crop-height").addEventListener("change", onCropSizeChange);
   $("lock-aspect").addEventListener("change", () => {
     state.lockAspect = ($("lock-aspect") as HTMLInputElement).checked;
+    recordHistory(state.lockAspect ? "Lock aspect" : "Unlock aspect");
   });
   $("scale-mode").addEventListener("change", () => {
     state.scaleMode = ($("scale-mode") as HTMLSelectElement).value;
+    syncPadControls();
+    recordHistory("Scale mode");
+  });
+  $("pad-color").addEventListener("change", () => {
+    state.padColor = hexToRgb(($("pad-color") as HTMLInputElement).value);
+    syncPadControls();
+    recordHistory("Pad color");
+  });
+  $("pad-transparent").addEventListener("change", () => {
+    const transparent = ($("pad-transparent") as HTMLInputElement).checked;
+    state.padColor = transparent ? null : hexToRgb(($("pad-color") as HTMLInputElement).value);
+    syncPadControls();
+    recordHistory(transparent ? "Transparent padding" : "Pad color");
+  });
+  $("crop-guide-toggles").addEventListener("change", (e) => {
+    const input = e.target as HTMLInputElement;
+    if (input.checked) cropGuides.add(input.dataset.guide!);
+    else cropGuides.delete(input.dataset.guide!);
+    renderCropGuides();
+  });
+  $("btn-spiral-rotate").addEventListener("click", () => {
+    spiralOrientation = (spiralOrientation + 1) % 4;
+    renderCropGuides();
+  });
+  $("crop-snap").addEventListener("change", () => {
+    cropSnap = ($("crop-snap") as HTMLInputElement).checked;
   });
 
-  // Edit controls
-  $("edit-grayscale").addEventListener("change", () => {
-    state.grayscale = ($("edit-grayscale") as HTMLInputElement).checked;
-    renderCanvas();
+  // Straighten
+  $("edit-straighten").addEventListener("input", () => {
+    setStraighten(parseFloat(($("edit-straighten") as HTMLInputElement).value));
   });
-  $("edit-brightness").addEventListener("input", () => {
-    const v = parseInt(($("edit-brightness") as HTMLInputElement).value);
-    state.brightness = v / 100;
-    $("brightness-val").textContent = String(v);
-    renderCanvas();
+  $("edit-straighten").addEventListener("change", () => recordHistory("Straighten"));
+  $("btn-straighten-reset").addEventListener("click", () => {
+    setStraighten(0);
+    recordHistory("Reset straighten");
+  });
+  $("straighten-autocrop").addEventListener("change", () => {
+    straightenAutoCrop = ($("straighten-autocrop") as HTMLInputElement).checked;
+  });
+
+  // Color
+  for (const id of ["edit-levels-black", "edit-levels-gamma", "edit-levels-white"]) {
+    $(id).addEventListener("change", onLevelsChange);
+  }
+  $("curves-channel").addEventListener("change", drawCurves);
+  $("btn-curves-reset").addEventListener("click", resetCurve);
+  $("curves-canvas").addEventListener("mousedown", onCurvesMouseDown);
+  $("curves-canvas").addEventListener("contextmenu", onCurvesContextMenu);
+  window.addEventListener("mousemove", onCurvesMouseMove);
+  window.addEventListener("mouseup", onCurvesMouseUp);
+  $("btn-pick-neutral").addEventListener("click", () => {
+    setTool("eyedropper");
+    pickingNeutral = true;
+  });
+  $("btn-color-reset").addEventListener("click", resetColor);
+  drawCurves();
+
+  // Histogram & inspector
+  document.querySelectorAll<HTMLElement>("#pixel-inspector .copyable").forEach((el) => {
+    el.addEventListener("click", () => copyInspectorValue(el));
   });
-  $("edit-contrast").addEventListener("input", () => {
-    const v = parseInt(($("edit-contrast") as HTMLInputElement).value);
-    state.contrast = v / 100;
-    $("contrast-val").textContent = String(v);
+
+  // Perspective
+  $("keystone-v").addEventListener("input", onKeystoneChange);
+  $("keystone-h").addEventListener("input", onKeystoneChange);
+  $("btn-perspective-reset").addEventListener("click", resetPerspective);
+  $("btn-apply-perspective").addEventListener("click", applyPerspective);
+
+  // Edit controls
+  $("edit-grayscale").addEventListener("change", () => {
+    state.color.grayscale = ($("edit-grayscale") as HTMLInputElement).checked;
     renderCanvas();
+    recordHistory(state.color.grayscale ? "Grayscale on" : "Grayscale off");
   });
+  for (const slider of COLOR_SLIDERS) {
+    const input = $(`edit-${slider.id}`) as HTMLInputElement;
+    input.addEventListener("input", () => {
+      state.color[slider.key] = parseInt(input.value) / slider.scale;
+      $(`${slider.id}-val`).textContent = slider.format(state.color[slider.key]);
+      renderCanvas();
+    });
+    input.addEventListener("change", () => recordHistory(slider.label));
+  }
+  for (const slider of FILTER_SLIDERS) {
+    const input = $(`edit-${slider.id}`) as HTMLInputElement;
+    input.addEventListener("input", () => {
+      state.filters[slider.key] = parseInt(input.value) / slider.scale;
+      $(`${slider.id}-val`).textContent = slider.format(state.filters[slider.key]);
+      renderCanvas();
+    });
+    input.addEventListener("change", () => recordHistory(slider.label));
+  }
   $("btn-rotate-left").addEventListener("click", () => {
     state.rotation = (state.rotation - 90 + 360) % 360;
     renderCanvas();
+    recordHistory("Rotate left");
   });
   $("btn-rotate-right").addEventListener("click", () => {
     state.rotation = (state.rotation + 90) % 360;
     renderCanvas();
+    recordHistory("Rotate right");
   });
   $("btn-flip-h").addEventListener("click", () => {
     state.flipH = !state.flipH;
     renderCanvas();
+    recordHistory("Flip horizontal");
   });
   $("btn-flip-v").addEventListener("click", () => {
     state.flipV = !state.flipV;
     renderCanvas();
+    recordHistory("Flip vertical");
   });
 
   // Apply button
@@ -205,12 +509,36 @@ function initApp() {
     );
     $("pixelate-block-val").textContent = String(state.pixelateBlockSize);
   });
-  $("btn-undo-stroke").addEventListener("click", undoStroke);
-  $("btn-redo-stroke").addEventListener("click", redoStroke);
+  $("redact-shape").addEventListener("change", () => {
+    state.redactShape = ($("redact-shape") as HTMLSelectElement).value as RedactShape;
+    syncRedactControls();
+  });
+  $("redact-mode").addEventListener("change", () => {
+    state.redactMode = ($("redact-mode") as HTMLSelectElement).value as RedactMode;
+    syncRedactControls();
+  });
+  $("redact-blur").addEventListener("input", () => {
+    state.redactBlurRadius = parseInt(($("redact-blur") as HTMLInputElement).value);
+    $("redact-blur-val").textContent = String(state.redactBlurRadius);
+  });
+  $("redact-color").addEventListener("input", () => {
+    state.redactColor = hexToRgb(($("redact-color") as HTMLInputElement).value);
+  });
+  $("btn-undo-stroke").addEventListener("click", undo);
+  $("btn-redo-stroke").addEventListener("click", redo);
+  $("btn-detect").addEventListener("click", detectRegions);
+  loadModelStatus();
+  $("btn-detect-accept").addEventListener("click", acceptProposals);
+  $("btn-detect-discard").addEventListener("click", () => {
+    proposals = [];
+    renderProposals();
+  });
 
   // BG removal
   $("bg-enabled").addEventListener("change", () => {
     state.bgEnabled = ($("bg-enabled") as HTMLInputElement).checked;
+    updateSeedOverlay();
+    recordHistory(state.bgEnabled ? "Background removal on" : "Background removal off");
   });
   $("bg-tolerance").addEventListener("input", () => {
     state.bgTolerance = parseInt(
@@ -218,6 +546,86 @@ function initApp() {
     );
     $("bg-tolerance-val").textContent = String(state.bgTolerance);
   });
+  $("bg-tolerance").addEventListener("change", () => recordHistory("Tolerance"));
+  $("bg-region").addEventListener("change", () => {
+    state.bgRegion = ($("bg-region") as HTMLSelectElement).value as KeyRegion;
+    syncBgControls();
+    recordHistory("Key region");
+  });
+  $("btn-bg-seeds").addEventListener("click", () => {
+    setTool("eyedropper");
+    pickingSeeds = true;
+    updateSeedOverlay();
+  });
+  $("btn-bg-seeds-clear").addEventListener("click", () => {
+    if (state.bgSeeds.length === 0) return;
+    state.bgSeeds = [];
+    syncBgControls();
+    recordHistory("Clear seeds");
+  });
+  $("bg-spill").addEventListener("input", () => {
+    state.bgSpill = parseInt(($("bg-spill") as HTMLInputElement).value);
+    $("bg-spill-val").textContent = String(state.bgSpill);
+  });
+  $("bg-spill").addEventListener("change", () => recordHistory("Spill suppression"));
+  $("bg-mode").addEventListener("change", () => {
+    state.bgMode = ($("bg-mode") as HTMLSelectElement).value as BgRemovalMode;
+    syncBgControls();
+    recordHistory("Background removal mode");
+  });
+  $("bg-threshold").addEventListener("input", () => {
+    state.bgMatte.threshold = parseInt(($("bg-threshold") as HTMLInputElement).value) / 100;
+    syncBgControls();
+  });
+  $("bg-threshold").addEventListener("change", () => recordHistory("Matte threshold"));
+  $("bg-feather").addEventListener("input", () => {
+    state.bgMatte.feather = parseFloat(($("bg-feather") as HTMLInputElement).value);
+    syncBgControls();
+  });
+  $("bg-feather").addEventListener("change", () => recordHistory("Matte feather"));
+  $("bg-refine").addEventListener("change", () => {
+    state.bgMatte.refine_edges = ($("bg-refine") as HTMLInputElement).checked;
+    recordHistory(state.bgMatte.refine_edges ? "Refine edges on" : "Refine edges off");
+  });
+  $("btn-mask-compute").addEventListener("click", computeMask);
+  $("btn-mask-discard").addEventListener("click", () => {
+    state.bgMask = null;
+    syncMaskControls();
+    recordHistory("Discard mask");
+    renderCanvas();
+  });
+  $("mask-brush").addEventListener("change", () => {
+    state.maskBrush = ($("mask-brush") as HTMLSelectElement).value as MaskBrush;
+  });
+  $("mask-size").addEventListener("input", () => {
+    state.maskBrushSize = parseInt(($("mask-size") as HTMLInputElement).value);
+    syncMaskControls();
+  });
+  $("mask-hardness").addEventListener("input", () => {
+    state.maskHardness = parseInt(($("mask-hardness") as HTMLInputElement).value) / 100;
+    syncMaskControls();
+  });
+  $("mask-view").addEventListener("change", () => {
+    state.maskView = ($("mask-view") as HTMLSelectElement).value as MaskView;
+    renderCanvas();
+  });
+  $("btn-mask-feather").addEventListener("click", () => refineMask("feather"));
+  $("btn-mask-expand").addEventListener("click", () => refineMask("expand"));
+  $("btn-mask-contract").addEventListener("click", () => refineMask("contract"));
+
+  // Text controls
+  $("text-content").addEventListener("input", () => {
+    const box = selectedTextBox();
+    if (!box) return;
+    box.text = ($("text-content") as HTMLTextAreaElement).value;
+    renderCanvas();
+  });
+  $("text-content").addEventListener("change", () => recordHistory("Edit text"));
+  $("text-panel").addEventListener("input", onTextStyleInput);
+  $("text-panel").addEventListener("change", (e) => {
+    if (onTextStyleInput(e)) recordHistory("Text style");
+  });
+  $("btn-text-delete").addEventListener("click", deleteSelectedText);
 
   // Resize controls
   $("resize-width").addEventListener("input", onResizeWidthChange);
@@ -237,16 +645,118 @@ function initApp() {
   // Export modal
   $("btn-export-cancel").addEventListener("click", () => {
     $("export-modal").style.display = "none";
+    clearTimeout(exportPreviewTimer);
   });
+  for (const type of ["input", "change"]) {
+    $("export-modal").addEventListener(type, (e) => {
+      if ((e.target as HTMLElement).id !== "export-preview-zoom") scheduleExportPreview();
+    });
+  }
+  $("export-preview-zoom").addEventListener("change", applyExportPreviewZoom);
+  $("export-preview-img").addEventListener("load", applyExportPreviewZoom);
   $("btn-export-confirm").addEventListener("click", doExport);
-  $("export-format").addEventListener("change", () => {
-    const fmt = ($("export-format") as HTMLSelectElement).value;
-    $("jpeg-quality-field").style.display = fmt === "jpeg" ? "block" : "none";
+  $("export-format").addEventListener("change", updateFormatOptionPanels);
+  $("opt-webp-lossless").addEventListener("change", updateFormatOptionPanels);
+  $("export-limit-enabled").addEventListener("change", updateFormatOptionPanels);
+  $("btn-export-fit").addEventListener("click", checkExportSize);
+  $("opt-bmp-alpha").addEventListener("change", updateFormatOptionPanels);
+  $("export-backdrop").addEventListener("change", updateFormatOptionPanels);
+  $("opt-avif-speed").addEventListener("input", () => {
+    $("opt-avif-speed-val").textContent = ($("opt-avif-speed") as HTMLInputElement).value;
+  });
+  $("opt-gif-speed").addEventListener("input", () => {
+    $("opt-gif-speed-val").textContent = ($("opt-gif-speed") as HTMLInputElement).value;
+  });
+  $("export-metadata").addEventListener("change", () => {
+    const mode = ($("export-metadata") as HTMLSelectElement).value;
+    $("export-metadata-groups").style.display = mode === "custom" ? "grid" : "none";
+    updateMetadataHint();
   });
-  $("jpeg-quality").addEventListener("input", () => {
-    $("jpeg-quality-val").textContent = ($("jpeg-quality") as HTMLInputElement).value;
+  $("export-metadata-groups").addEventListener("change", updateMetadataHint);
+  $("export-keep-icc").addEventListener("change", updateMetadataHint);
+  $("export-quality").addEventListener("input", () => {
+    $("export-quality-val").textContent = ($("export-quality") as HTMLInputElement).value;
   });
 
+  // Export profiles
+  $("btn-export-profiles").addEventListener("click", showProfilesModal);
+  $("btn-profiles-close").addEventListener("click", () => {
+    $("profiles-modal").style.display = "none";
+  });
+  $("profile-select").addEventListener("change", () => {
+    activeProfile = parseInt(($("profile-select") as HTMLSelectElement).value);
+    renderProfile();
+  });
+  $("profile-name").addEventListener("input", () => {
+    const profile = exportProfiles[activeProfile];
+    if (!profile) return;
+    profile.name = ($("profile-name") as HTMLInputElement).value;
+    const option = ($("profile-select") as HTMLSelectElement).options[activeProfile];
+    if (option) option.textContent = profile.name || "Untitled";
+  });
+  $("btn-profile-new").addEventListener("click", newProfile);
+  $("btn-profile-delete").addEventListener("click", deleteProfile);
+  $("btn-rendition-add").addEventListener("click", addRendition);
+  $("profile-renditions").addEventListener("change", onRenditionChange);
+  $("profile-renditions").addEventListener("click", (e) => {
+    const btn = (e.target as HTMLElement).closest<HTMLButtonElement>("[data-remove]");
+    if (!btn) return;
+    exportProfiles[activeProfile]?.renditions.splice(parseInt(btn.dataset.remove!), 1);
+    renderRenditions();
+  });
+  $("btn-profile-output").addEventListener("click", chooseProfileOutputDir);
+  $("btn-profile-save").addEventListener("click", saveProfiles);
+  $("btn-profile-run").addEventListener("click", runProfile);
+
+  // Batch
+  $("btn-batch").addEventListener("click", showBatchModal);
+  $("btn-batch-add-files").addEventListener("click", addBatchFiles);
+  $("btn-batch-add-folder").addEventListener("click", addBatchFolder);
+  $("btn-batch-clear").addEventListener("click", () => {
+    batchFiles = [];
+    renderBatchFiles();
+  });
+  $("btn-batch-output").addEventListener("click", chooseBatchOutputDir);
+  $("btn-batch-start").addEventListener("click", runBatch);
+  $("btn-batch-cancel").addEventListener("click", () => {
+    batchCancelled = true;
+    $("batch-progress-label").textContent = "Cancelling after current file...";
+  });
+  $("btn-batch-close").addEventListener("click", () => {
+    $("batch-modal").style.display = "none";
+  });
+  $("batch-format").addEventListener("change", syncBatchFormat);
+  $("batch-quality").addEventListener("input", () => {
+    $("batch-quality-val").textContent = ($("batch-quality") as HTMLInputElement).value;
+  });
+
+  // Layers
+  renderOperationsPanel();
+
+  // History
+  $("btn-undo").addEventListener("click", undo);
+  $("btn-redo").addEventListener("click", redo);
+  renderHistoryPanel();
+
+  // Crop presets
+  $("btn-crop-presets").addEventListener("click", showCropPresetsModal);
+  $("btn-crop-presets-close").addEventListener("click", () => {
+    $("crop-presets-modal").style.display = "none";
+  });
+  $("btn-crop-preset-add").addEventListener("click", addCropPreset);
+  $("btn-crop-presets-import").addEventListener("click", importCropPresets);
+  $("btn-crop-presets-export").addEventListener("click", exportCropPresets);
+  loadCropPresets();
+
+  // Recipes
+  $("btn-recipes").addEventListener("click", showRecipesModal);
+  $("btn-recipes-close").addEventListener("click", () => {
+    $("recipes-modal").style.display = "none";
+  });
+  $("btn-recipe-save-library").addEventListener("click", saveRecipeToLibrary);
+  $("btn-recipe-save-file").addEventListener("click", saveRecipeToFile);
+  $("btn-recipe-load-file").addEventListener("click", loadRecipeFromFile);
+
   // Zoom controls
   $("btn-fit").addEventListener("click", zoomFit);
   $("btn-100").addEventListener("click", () => setZoom(1));
@@ -279,7 +789,7 @@ function initApp() {
       const paths = event.payload.paths;
       if (paths && paths.length > 0) {
         const ext = paths[0].split(".").pop()?.toLowerCase();
-        if (["png", "jpg", "jpeg", "webp"].includes(ext || "")) {
+        if (IMAGE_EXTENSIONS.includes(ext || "")) {
           loadImage(paths[0]);
         }
       }
@@ -296,26 +806,36 @@ function initApp() {
 
 function setTool(tool: AppState["tool"]) {
   state.tool = tool;
+  pickingNeutral = false;
+  pickingSeeds = false;
   document.querySelectorAll<HTMLButtonElement>(".tool-btn").forEach((btn) => {
     btn.classList.toggle("active", btn.dataset.tool === tool);
   });
 
   $("crop-panel").style.display = tool === "crop" ? "block" : "none";
   $("pixelate-panel").style.display = tool === "pixelate" ? "block" : "none";
+  $("perspective-panel").style.display = tool === "perspective" ? "block" : "none";
+  $("text-panel").style.display = tool === "text" ? "block" : "none";
   $("crop-overlay").style.display = tool === "crop" && loadedImage ? "block" : "none";
 
   const container = $("canvas-container");
-  if (tool === "pixelate") {
+  if (tool === "pixelate" || tool === "straighten" || tool === "mask" || tool === "text") {
     container.style.cursor = "crosshair";
   } else if (tool === "eyedropper") {
     container.style.cursor = "crosshair";
-  } else if (tool === "crop") {
+  } else if (tool === "crop" || tool === "perspective") {
     container.style.cursor = "default";
   } else {
     container.style.cursor = "grab";
   }
 
   if (tool === "crop") updateCropOverlay();
+  if (tool === "perspective") resetPerspective();
+  else updatePerspectiveOverlay();
+  if (tool === "text") loadFontFamilies();
+  updateDetectOverlay();
+  updateSeedOverlay();
+  updateTextOverlay();
 }
 
 // ─── File Operations ─────────────────────────────────────────────────────────
@@ -323,7 +843,7 @@ function setTool(tool: AppState["tool"]) {
 async function openFile() {
   const path = await dialogOpen({
     filters: [
-      { name: "Images", extensions: ["png", "jpg", "jpeg", "webp"] },
+      { name: "Images", extensions: IMAGE_EXTENSIONS },
     ],
     multiple: false,
     directory: false,
@@ -337,55 +857,24 @@ async function loadImage(path: string) {
   try {
     const info: ImageInfo = await invoke("open_image", { path });
     state.sourcePath = path;
-    state.originalPath = path;
-    state.imageWidth = info.width;
-    state.imageHeight = info.height;
-    state.rotation = 0;
-    state.flipH = false;
-    state.flipV = false;
-    state.grayscale = false;
-    state.brightness = 0;
-    state.contrast = 0;
-    state.pixelateStrokes = [];
-    state.pixelateRedoStack = [];
-    state.cropX = 0;
-    state.cropY = 0;
-    state.cropW = 1;
-    state.cropH = 1;
-    state.targetWidth = info.width;
-    state.targetHeight = info.height;
-
-    ($("edit-brightness") as HTMLInputElement).value = "0";
-    ($("edit-contrast") as HTMLInputElement).value = "0";
-    ($("edit-grayscale") as HTMLInputElement).checked = false;
-    $("brightness-val").textContent = "0";
-    $("contrast-val").textContent = "0";
-    ($("crop-width") as HTMLInputElement).value = String(info.width);
-    ($("crop-height") as HTMLInputElement).value = String(info.height);
-
-    // Populate resize fields
-    state.resizeW = info.width;
-    state.resizeH = info.height;
-    state.originalWidth = info.width;
-    state.originalHeight = info.height;
-    ($("resize-width") as HTMLInputElement).value = String(info.width);
-    ($("resize-height") as HTMLInputElement).value = String(info.height);
-    $("resize-current-size").textContent = `${info.width} \u00d7 ${info.height}`;
-
-    const img = new Image();
-    img.onload = () => {
-      loadedImage = img;
+    state.operations = [];
+    editingOperationId = null;
+    resetLiveEdits(info.width, info.height);
+
+    originalSource = {
+      path,
+      width: info.width,
+      height: info.height,
+      dataUrl: info.data_url,
+    };
+    setBaseImage(originalSource, () => {
       $("drop-zone").classList.add("hidden");
       ($("btn-export") as HTMLButtonElement).disabled = false;
-      $("image-info").textContent = `${info.width} × ${info.height} — ${path.split("/").pop() || path.split("\\").pop()}`;
+      ($("btn-batch") as HTMLButtonElement).disabled = false;
       zoomFit();
-      renderCanvas();
-      if (state.tool === "crop") {
-        $("crop-overlay").style.display = "block";
-        updateCropOverlay();
-      }
-    };
-    img.src = info.data_url;
+    });
+    renderOperationsPanel();
+    resetHistory("Open image");
 
     // Update recents
     addToRecents(path);
@@ -394,6 +883,59 @@ async function loadImage(path: string) {
   }
 }
 
+/** Resets crop, transforms, adjustments and strokes for a base of `w` × `h`. */
+function resetLiveEdits(w: number, h: number) {
+  state.rotation = 0;
+  state.flipH = false;
+  state.flipV = false;
+  state.straighten = 0;
+  state.color = defaultColorAdjustments();
+  state.filters = defaultFilters();
+  state.pixelateStrokes = [];
+  state.bgMask = null;
+  state.textBoxes = [];
+  selectedText = null;
+  state.cropX = 0;
+  state.cropY = 0;
+  state.cropW = 1;
+  state.cropH = 1;
+  state.targetWidth = w;
+  state.targetHeight = h;
+  syncEditControls();
+}
+
+/** Shows `source` as the image the live edits are drawn on. */
+function setBaseImage(source: SourceImage, onLoad?: () => void) {
+  currentSource = source;
+  state.imageWidth = source.width;
+  state.imageHeight = source.height;
+  state.resizeW = source.width;
+  state.resizeH = source.height;
+  state.originalWidth = source.width;
+  state.originalHeight = source.height;
+  ($("resize-width") as HTMLInputElement).value = String(source.width);
+  ($("resize-height") as HTMLInputElement).value = String(source.height);
+  $("resize-current-size").textContent = `${source.width} \u00d7 ${source.height}`;
+
+  const img = new Image();
+  img.onload = () => {
+    if (currentSource !== source) return;
+    loadedImage = img;
+    const layers = state.operations.filter((op) => op.enabled).length;
+    $("image-info").textContent =
+      `${source.width} \u00d7 ${source.height} \u2014 ${fileName(source.path)}` +
+      (layers > 0 ? ` (${layers} layer${layers === 1 ? "" : "s"})` : "");
+    onLoad?.();
+    renderCanvas();
+    if (state.tool === "crop") {
+      $("crop-overlay").style.display = "block";
+      updateCropOverlay();
+    }
+    if (state.tool === "perspective") resetPerspective();
+  };
+  img.src = source.dataUrl;
+}
+
 async function addToRecents(path: string) {
   try {
     let files: string[] = await invoke("get_recent_files");
@@ -426,27 +968,24 @@ function renderCanvas() {
   ctx.clearRect(0, 0, dw, dh);
   ctx.save();
 
-  // Apply transforms
+  // Apply transforms in export order: 90° rotation, flips, then straighten
+  // (canvas transforms apply to the image last-to-first)
   ctx.translate(dw / 2, dh / 2);
-  ctx.rotate((state.rotation * Math.PI) / 180);
+  ctx.rotate((state.straighten * Math.PI) / 180);
   if (state.flipH) ctx.scale(-1, 1);
   if (state.flipV) ctx.scale(1, -1);
+  ctx.rotate((state.rotation * Math.PI) / 180);
+  canvasImageTransform = ctx.getTransform();
 
-  // Build filter string
-  let filter = "";
-  if (state.grayscale) filter += "grayscale(1) ";
-  if (state.brightness !== 0)
-    filter += `brightness(${1 + state.brightness}) `;
-  if (state.contrast !== 0) filter += `contrast(${1 + state.contrast}) `;
-  ctx.filter = filter.trim() || "none";
-
-  ctx.drawImage(loadedImage, -w / 2, -h / 2, w, h);
+  ctx.drawImage(adjustedImage(), -w / 2, -h / 2, w, h);
   ctx.restore();
 
   // Draw pixelate strokes preview
   if (state.pixelateStrokes.length > 0) {
     drawPixelatePreview(ctx, dw, dh);
   }
+  for (const box of state.textBoxes) drawTextBox(ctx, box, dw, dh, previewFont(box));
+  drawMaskView(ctx, dw, dh);
 
   // Position canvas
   const container = $("canvas-container");
@@ -458,62 +997,28 @@ function renderCanvas() {
   canvas.style.height = dh * scale + "px";
   canvas.style.left = cw / 2 + state.panX - (dw * scale) / 2 + "px";
   canvas.style.top = ch / 2 + state.panY - (dh * scale) / 2 + "px";
+  scheduleHistogram();
+  updateDetectOverlay();
+  updateSeedOverlay();
+  updateTextOverlay();
 }
 
 function drawPixelatePreview(ctx: CanvasRenderingContext2D, dw: number, dh: number) {
-  const blockSize = state.pixelateBlockSize;
   const imageData = ctx.getImageData(0, 0, dw, dh);
-  const data = imageData.data;
-
-  for (const stroke of state.pixelateStrokes) {
-    for (const [nx, ny] of stroke.points) {
-      const cx = Math.round(nx * dw);
-      const cy = Math.round(ny * dh);
-      const r = Math.round(stroke.radius * Math.max(dw, dh));
-
-      const x1 = Math.max(0, cx - r);
-      const y1 = Math.max(0, cy - r);
-      const x2 = Math.min(dw, cx + r);
-      const y2 = Math.min(dh, cy + r);
-
-      for (let bx = x1; bx < x2; bx += blockSize) {
-        for (let by = y1; by < y2; by += blockSize) {
-          const bx2 = Math.min(bx + blockSize, x2);
-          const by2 = Math.min(by + blockSize, y2);
-          let rr = 0, gg = 0, bb = 0, aa = 0, count = 0;
-          for (let py = by; py < by2; py++) {
-            for (let px = bx; px < bx2; px++) {
-              const idx = (py * dw + px) * 4;
-              rr += data[idx];
-              gg += data[idx + 1];
-              bb += data[idx + 2];
-              aa += data[idx + 3];
-              count++;
-            }
-          }
-          if (count > 0) {
-            rr = Math.round(rr / count);
-            gg = Math.round(gg / count);
-            bb = Math.round(bb / count);
-            aa = Math.round(aa / count);
-            for (let py = by; py < by2; py++) {
-              for (let px = bx; px < bx2; px++) {
-                const idx = (py * dw + px) * 4;
-                data[idx] = rr;
-                data[idx + 1] = gg;
-                data[idx + 2] = bb;
-                data[idx + 3] = aa;
-              }
-            }
-          }
-        }
-      }
-    }
-  }
-
+  applyRedaction(imageData.data, dw, dh, state.pixelateStrokes);
   ctx.putImageData(imageData, 0, 0);
 }
 
+/** Shows the redaction settings that apply to the chosen shape and mode. */
+function syncRedactControls() {
+  ($("redact-shape") as HTMLSelectElement).value = state.redactShape;
+  ($("redact-mode") as HTMLSelectElement).value = state.redactMode;
+  $("pixelate-size-field").style.display = state.redactShape === "brush" ? "" : "none";
+  $("pixelate-block-field").style.display = state.redactMode === "mosaic" ? "" : "none";
+  $("redact-blur-field").style.display = state.redactMode === "blur" ? "" : "none";
+  $("redact-color-field").style.display = state.redactMode === "fill" ? "" : "none";
+}
+
 // ─── Zoom & Pan ──────────────────────────────────────────────────────────────
 
 function setZoom(z: number) {
@@ -524,6 +1029,7 @@ function setZoom(z: number) {
   $("zoom-label").textContent = Math.round(state.zoom * 100) + "%";
   renderCanvas();
   if (state.tool === "crop") updateCropOverlay();
+  if (state.tool === "perspective") updatePerspectiveOverlay();
 }
 
 function zoomFit() {
@@ -559,6 +1065,22 @@ let cropStartCropY = 0;
 let cropStartCropW = 0;
 let cropStartCropH = 0;
 
+// Composition guides and snapping are view settings, not part of the edit state
+const cropGuides = new Set<string>();
+let spiralOrientation = 0;
+let cropSnap = true;
+const SNAP_DISTANCE_PX = 8;
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+// Straighten tool: the horizon line being drawn, in client coordinates
+let straightenLine: { x1: number; y1: number; x2: number; y2: number } | null = null;
+let straightenAutoCrop = true;
+
+// Perspective tool: normalized corners clockwise from top-left, and the
+// corner being dragged
+let perspectiveCorners: [number, number][] = [];
+let perspectiveDragCorner: number | null = null;
+
 function getCanvasCoords(e: MouseEvent): [number, number] {
   const canvas = $("main-canvas") as HTMLCanvasElement;
   const rect = canvas.getBoundingClientRect();
@@ -585,6 +1107,7 @@ function onCanvasMouseDown(e: MouseEvent) {
   }
 
   if (state.tool === "pixelate") {
+    if (startProposalDrag(e)) return;
     const [nx, ny] = getCanvasCoords(e);
     if (nx >= 0 && nx <= 1 && ny >= 0 && ny <= 1) {
       state.isPixelatePainting = true;
@@ -593,17 +1116,51 @@ function onCanvasMouseDown(e: MouseEvent) {
         isRotated ? state.imageHeight : state.imageWidth,
         isRotated ? state.imageWidth : state.imageHeight
       );
+      const brush = state.redactShape === "brush";
       state.currentStroke = {
-        points: [[nx, ny]],
-        radius: state.pixelateBrushSize / maxDim,
+        shape: state.redactShape,
+        // Shapes start as a zero-size box and grow as the mouse moves
+        points: brush ? [[nx, ny]] : [[nx, ny], [nx, ny]],
+        radius: brush ? state.pixelateBrushSize / maxDim : 0,
+        mode: state.redactMode,
+        block_size: state.pixelateBlockSize,
+        blur_radius: state.redactBlurRadius,
+        color: [...state.redactColor],
       };
-      state.pixelateRedoStack = [];
     }
     return;
   }
 
+  if (state.tool === "mask") {
+    startMaskStroke(e);
+    return;
+  }
+
+  if (state.tool === "text") {
+    if (!startTextDrag(e)) addTextBox(e);
+    return;
+  }
+
   if (state.tool === "eyedropper") {
-    pickColor(e);
+    if (pickingNeutral) pickNeutral(e);
+    else if (pickingSeeds) addSeed(e);
+    else pickColor(e);
+    return;
+  }
+
+  if (state.tool === "straighten") {
+    straightenLine = { x1: e.clientX, y1: e.clientY, x2: e.clientX, y2: e.clientY };
+    drawStraightenLine();
+    e.preventDefault();
+    return;
+  }
+
+  if (state.tool === "perspective") {
+    const corner = (e.target as HTMLElement).dataset?.corner;
+    if (corner !== undefined) {
+      perspectiveDragCorner = parseInt(corner);
+      e.preventDefault();
+    }
     return;
   }
 
@@ -629,6 +1186,8 @@ function onCanvasMouseDown(e: MouseEvent) {
 }
 
 function onCanvasMouseMove(e: MouseEvent) {
+  inspectPixel(e);
+
   if (state.tool === "select" && isDragging) {
     state.panX = dragStartPanX + (e.clientX - dragStartX);
     state.panY = dragStartPanY + (e.clientY - dragStartY);
@@ -637,9 +1196,19 @@ function onCanvasMouseMove(e: MouseEvent) {
     return;
   }
 
+  if (state.tool === "pixelate" && proposalDrag) {
+    dragProposal(e);
+    return;
+  }
+
   if (state.tool === "pixelate" && state.isPixelatePainting && state.currentStroke) {
     const [nx, ny] = getCanvasCoords(e);
-    if (nx >= 0 && nx <= 1 && ny >= 0 && ny <= 1) {
+    if (state.currentStroke.shape !== "brush") {
+      state.currentStroke.points[1] = [Math.max(0, Math.min(1, nx)), Math.max(0, Math.min(1, ny))];
+      state.pixelateStrokes.push(state.currentStroke);
+      renderCanvas();
+      state.pixelateStrokes.pop();
+    } else if (nx >= 0 && nx <= 1 && ny >= 0 && ny <= 1) {
       state.currentStroke.points.push([nx, ny]);
       // Live preview
       state.pixelateStrokes.push(state.currentStroke);
@@ -649,13 +1218,45 @@ function onCanvasMouseMove(e: MouseEvent) {
     return;
   }
 
+  if (state.tool === "mask" && state.isMaskPainting) {
+    continueMaskStroke(e);
+    return;
+  }
+
+  if (state.tool === "text" && textDrag) {
+    dragText(e);
+    return;
+  }
+
+  if (state.tool === "straighten" && straightenLine) {
+    straightenLine.x2 = e.clientX;
+    straightenLine.y2 = e.clientY;
+    drawStraightenLine();
+    return;
+  }
+
+  if (state.tool === "perspective" && perspectiveDragCorner !== null) {
+    const [nx, ny] = getCanvasCoords(e);
+    perspectiveCorners[perspectiveDragCorner] = [
+      Math.max(0, Math.min(1, nx)),
+      Math.max(0, Math.min(1, ny)),
+    ];
+    updatePerspectiveSize();
+    updatePerspectiveOverlay();
+    return;
+  }
+
   if (state.tool === "crop" && cropDragMode) {
     const canvas = $("main-canvas") as HTMLCanvasElement;
     const rect = canvas.getBoundingClientRect();
     const dx = (e.clientX - cropStartX) / rect.width;
     const dy = (e.clientY - cropStartY) / rect.height;
 
-    handleCropDrag(dx, dy);
+    const snap =
+      cropSnap && !e.altKey
+        ? { x: SNAP_DISTANCE_PX / rect.width, y: SNAP_DISTANCE_PX / rect.height }
+        : null;
+    handleCropDrag(dx, dy, snap);
     updateCropOverlay();
   }
 }
@@ -663,13 +1264,41 @@ function onCanvasMouseMove(e: MouseEvent) {
 function onCanvasMouseUp(_e: MouseEvent) {
   isDragging = false;
 
+  if (straightenLine) {
+    finishStraightenLine();
+  }
+  perspectiveDragCorner = null;
+  finishProposalDrag();
+  finishTextDrag();
+
   if (state.isPixelatePainting && state.currentStroke) {
-    state.pixelateStrokes.push(state.currentStroke);
+    const stroke = state.currentStroke;
     state.currentStroke = null;
     state.isPixelatePainting = false;
+    // A click without a drag leaves a shape with no area
+    const [p, q] = stroke.points;
+    const empty = stroke.shape !== "brush" && (p[0] === q[0] || p[1] === q[1]);
+    if (!empty) {
+      state.pixelateStrokes.push(stroke);
+      recordHistory(stroke.shape === "brush" ? "Redact stroke" : `Redact ${stroke.shape}`);
+    }
     renderCanvas();
   }
 
+  if (state.isMaskPainting) {
+    state.isMaskPainting = false;
+    maskStrokeEnd = null;
+    commitMask(state.maskBrush === "keep" ? "Mask keep stroke" : "Mask remove stroke");
+  }
+
+  if (cropDragMode) {
+    const moved =
+      state.cropX !== cropStartCropX ||
+      state.cropY !== cropStartCropY ||
+      state.cropW !== cropStartCropW ||
+      state.cropH !== cropStartCropH;
+    if (moved) recordHistory(cropDragMode === "move" ? "Move crop" : "Resize crop");
+  }
   cropDragMode = null;
 }
 
@@ -689,319 +1318,3275 @@ function pickColor(e: MouseEvent) {
 
   if (x >= 0 && x < canvas.width && y >= 0 && y < canvas.height) {
     const pixel = ctx.getImageData(x, y, 1, 1).data;
-    state.bgColor = [pixel[0], pixel[1], pixel[2]];
-    const hex = `#${pixel[0].toString(16).padStart(2, "0")}${pixel[1].toString(16).padStart(2, "0")}${pixel[2].toString(16).padStart(2, "0")}`;
-    $("bg-color-preview").style.background = hex;
-    $("bg-color-text").textContent = hex;
+    const color: [number, number, number] = [pixel[0], pixel[1], pixel[2]];
+    const hex = rgbToHex(color);
+    // Shift+click adds a key color instead of replacing them
+    if (e.shiftKey) {
+      if (state.bgColors.length >= MAX_KEY_COLORS) {
+        showToast(`At most ${MAX_KEY_COLORS} key colors`, "error");
+        return;
+      }
+      state.bgColors.push(color);
+    } else {
+      state.bgColors = [color];
+    }
+    renderKeyColors();
     showToast(`Color picked: ${hex}`, "success");
+    recordHistory(e.shiftKey ? "Add key color" : "Pick color");
   }
 }
 
-// ─── Crop Handling ───────────────────────────────────────────────────────────
-
-function handleCropDrag(dx: number, dy: number) {
-  const mode = cropDragMode!;
-  let { cropX: x, cropY: y, cropW: w, cropH: h } = {
-    cropX: cropStartCropX,
-    cropY: cropStartCropY,
-    cropW: cropStartCropW,
-    cropH: cropStartCropH,
-  };
+// ─── Chroma Key ──────────────────────────────────────────────────────────────
+
+// Set while the eyedropper places flood fill seeds instead of picking colors
+let pickingSeeds = false;
+
+function renderKeyColors() {
+  const list = $("bg-colors");
+  list.innerHTML = state.bgColors
+    .map((c, i) => {
+      const hex = rgbToHex(c);
+      return `<div class="key-color" data-index="${i}" title="${hex}">
+          <div class="color-swatch" style="background:${hex}"></div>
+          <span>${hex}</span>
+          ${state.bgColors.length > 1 ? `<button class="layer-btn" title="Remove">&#10005;</button>` : ""}
+        </div>`;
+    })
+    .join("");
+  list.querySelectorAll<HTMLDivElement>(".key-color").forEach((item) => {
+    item.querySelector<HTMLButtonElement>(".layer-btn")?.addEventListener("click", () => {
+      state.bgColors.splice(parseInt(item.dataset.index!), 1);
+      renderKeyColors();
+      recordHistory("Remove key color");
+    });
+  });
+}
 
-  if (mode === "move") {
-    x += dx;
-    y += dy;
-  } else {
-    if (mode.includes("w")) {
-      x += dx;
-      w -= dx;
-    }
-    if (mode.includes("e")) {
-      w += dx;
-    }
-    if (mode.includes("n")) {
-      y += dy;
-      h -= dy;
-    }
-    if (mode.includes("s")) {
-      h += dy;
-    }
-  }
+function addSeed(e: MouseEvent) {
+  if (!loadedImage) return;
+  const [nx, ny] = getCanvasCoords(e);
+  if (nx < 0 || nx > 1 || ny < 0 || ny > 1) return;
+  state.bgSeeds.push([nx, ny]);
+  syncBgControls();
+  recordHistory("Add seed");
+}
 
-  // Enforce aspect ratio if locked
-  if (state.lockAspect && mode !== "move") {
-    const aspect = state.targetWidth / state.targetHeight;
-    if (mode.includes("e") || mode.includes("w")) {
-      h = w / aspect;
-    } else {
-      w = h * aspect;
-    }
+/** Marks the seed points while they're in use or being placed. */
+function updateSeedOverlay() {
+  const svg = $("seed-overlay");
+  const visible =
+    loadedImage &&
+    state.bgMode === "chroma_key" &&
+    (pickingSeeds || (state.bgEnabled && state.bgRegion === "seeds")) &&
+    state.bgSeeds.length > 0;
+  if (!visible) {
+    svg.style.display = "none";
+    return;
   }
+  const rect = ($("main-canvas") as HTMLCanvasElement).getBoundingClientRect();
+  const box = $("canvas-container").getBoundingClientRect();
+  svg.innerHTML = state.bgSeeds
+    .map(([x, y]) => {
+      const cx = rect.left - box.left + x * rect.width;
+      const cy = rect.top - box.top + y * rect.height;
+      return `<circle class="seed-marker" cx="${cx}" cy="${cy}" r="5" />`;
+    })
+    .join("");
+  svg.style.display = "block";
+}
 
-  // Clamp
-  w = Math.max(0.02, Math.min(1, w));
-  h = Math.max(0.02, Math.min(1, h));
-  x = Math.max(0, Math.min(1 - w, x));
-  y = Math.max(0, Math.min(1 - h, y));
+// ─── Background Mask ─────────────────────────────────────────────────────────
+//
+// The key or matte is computed once in Rust and then refined here with keep
+// and remove brushes and whole-mask operations (`mask.ts`). Strokes paint on
+// a decoded copy of the mask, which is stored as a new mask when they end, so
+// undo sees the mask like any other edit. The edit state and history only
+// hold the stored mask's id. A mask belongs to the image and geometry it was
+// computed on: it is cleared when those change and never saved in recipes.
+
+const MASK_OVERLAY_COLOR = "rgba(255, 40, 40, 0.55)";
+
+/** A refined mask and the image geometry its pixels line up with. */
+interface RefinedMask {
+  url: string;
+  key: string;
+}
 
-  state.cropX = x;
-  state.cropY = y;
-  state.cropW = w;
-  state.cropH = h;
+// Masks by id; `state.bgMask` holds the id of the one in use
+const refinedMasks = new Map<string, RefinedMask>();
+let nextMaskId = 1;
+
+// The current mask decoded for painting and display
+let maskCanvas: HTMLCanvasElement | null = null;
+let maskCanvasSource: string | null = null;
+let maskLoading: string | null = null;
+let computingMask = false;
+// Where the stroke being painted last ended, in mask pixels
+let maskStrokeEnd: [number, number] | null = null;
+
+/** Identifies the source and the geometry the mask is drawn over. */
+function maskKey(): string {
+  const geometry = state.operations
+    .filter((op) => op.enabled && ["rotate", "crop", "perspective", "resize"].includes(op.kind))
+    .map(({ id, ...op }) => op);
+  return JSON.stringify([state.sourcePath, geometry, state.rotation, state.flipH, state.flipV, state.straighten]);
 }
 
-function updateCropOverlay() {
-  if (!loadedImage) return;
+/** Stores a mask of the current image and returns its id. */
+function storeMask(url: string): string {
+  const id = `mask-${nextMaskId++}`;
+  refinedMasks.set(id, { url, key: maskKey() });
+  return id;
+}
 
-  const canvas = $("main-canvas") as HTMLCanvasElement;
-  const rect = canvas.getBoundingClientRect();
-  const container = $("canvas-container");
-  const containerRect = container.getBoundingClientRect();
+/** The mask's data URL, or null without one or once the geometry has changed. */
+function currentMask(): string | null {
+  const mask = state.bgMask ? refinedMasks.get(state.bgMask) : undefined;
+  return mask && mask.key === maskKey() ? mask.url : null;
+}
 
-  const cropRect = $("crop-rect");
-  const offsetX = rect.left - containerRect.left;
-  const offsetY = rect.top - containerRect.top;
+/** Clears a mask that no longer lines up with the image. */
+function dropStaleMask() {
+  if (!state.bgMask || currentMask()) return;
+  state.bgMask = null;
+  syncMaskControls();
+  showToast("Refined mask cleared: the image changed since it was computed", "error");
+}
 
-  cropRect.style.left = offsetX + state.cropX * rect.width + "px";
-  cropRect.style.top = offsetY + state.cropY * rect.height + "px";
-  cropRect.style.width = state.cropW * rect.width + "px";
-  cropRect.style.height = state.cropH * rect.height + "px";
+/** Forgets the masks that neither the edit state nor the history use. */
+function pruneMasks() {
+  const used = new Set<string | null>(history.map((entry) => entry.edits.bgRemoval.mask));
+  used.add(state.bgMask);
+  for (const id of Array.from(refinedMasks.keys())) {
+    if (!used.has(id)) refinedMasks.delete(id);
+  }
 }
 
-function onCropPresetChange() {
-  const preset = ($("crop-preset") as HTMLSelectElement).value;
-  if (preset === "free") {
-    state.lockAspect = false;
-    ($("lock-aspect") as HTMLInputElement).checked = false;
-    return;
+/** The mask as a canvas, or null while there is none or it's being decoded. */
+function loadedMask(): HTMLCanvasElement | null {
+  const url = currentMask();
+  if (!url) return null;
+  if (maskCanvasSource === url) return maskCanvas;
+  if (maskLoading !== url) {
+    maskLoading = url;
+    const img = new Image();
+    img.onload = () => {
+      if (maskLoading !== url) return;
+      maskLoading = null;
+      const canvas = document.createElement("canvas");
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      canvas.getContext("2d")!.drawImage(img, 0, 0);
+      maskCanvas = canvas;
+      maskCanvasSource = url;
+      renderCanvas();
+    };
+    img.src = url;
   }
-  if (preset === "custom") return;
+  return null;
+}
 
-  const [w, h] = preset.split(":").map(Number);
-  state.targetWidth = ($("crop-width") as HTMLInputElement).valueAsNumber || w * 100;
-  state.targetHeight = Math.round(state.targetWidth * (h / w));
-  ($("crop-height") as HTMLInputElement).value = String(state.targetHeight);
-  state.lockAspect = true;
-  ($("lock-aspect") as HTMLInputElement).checked = true;
+/** Mask pixels per image pixel; the mask may be smaller than the image. */
+function maskScale(mask: HTMLCanvasElement): number {
+  const isRotated = state.rotation === 90 || state.rotation === 270;
+  return mask.width / (isRotated ? state.imageHeight : state.imageWidth);
+}
 
-  // Adjust crop rect to match aspect
-  const aspect = w / h;
-  if (state.cropW / state.cropH > aspect) {
-    state.cropW = state.cropH * aspect;
+async function computeMask() {
+  if (!state.sourcePath || computingMask) return;
+  state.bgEnabled = true;
+  ($("bg-enabled") as HTMLInputElement).checked = true;
+
+  const button = $("btn-mask-compute") as HTMLButtonElement;
+  computingMask = true;
+  button.disabled = true;
+  button.textContent = "Computing\u2026";
+  try {
+    const url = await invoke<string>("compute_mask", {
+      payload: buildExportPayload(state.sourcePath, "", "png", 100),
+    });
+    state.bgMask = storeMask(url);
+    if (state.maskView === "image") state.maskView = "overlay";
+    setTool("mask");
+    recordHistory("Compute mask");
+    renderCanvas();
+  } catch (e: any) {
+    showToast("Failed to compute mask: " + e, "error");
+  } finally {
+    computingMask = false;
+    button.disabled = false;
+    syncMaskControls();
+  }
+}
+
+/** Writes the painted mask back to the edit state. */
+function commitMask(label: string) {
+  if (!maskCanvas || maskCanvasSource !== currentMask()) return;
+  const url = maskCanvas.toDataURL("image/png");
+  state.bgMask = storeMask(url);
+  maskCanvasSource = url;
+  recordHistory(label);
+}
+
+function startMaskStroke(e: MouseEvent) {
+  const mask = loadedMask();
+  if (!mask) {
+    if (!state.bgMask) showToast("Compute a mask first", "error");
+    return;
+  }
+  const [nx, ny] = getCanvasCoords(e);
+  if (nx < 0 || nx > 1 || ny < 0 || ny > 1) return;
+  state.isMaskPainting = true;
+  maskStrokeEnd = [nx * mask.width, ny * mask.height];
+  paintMaskTo(mask, maskStrokeEnd);
+}
+
+function continueMaskStroke(e: MouseEvent) {
+  const mask = loadedMask();
+  if (!mask || !maskStrokeEnd) return;
+  const [nx, ny] = getCanvasCoords(e);
+  paintMaskTo(mask, [nx * mask.width, ny * mask.height]);
+}
+
+function paintMaskTo(mask: HTMLCanvasElement, to: [number, number]) {
+  const radius = Math.max(0.5, state.maskBrushSize * maskScale(mask));
+  paintMask(mask.getContext("2d")!, maskStrokeEnd!, to, radius, state.maskHardness, state.maskBrush);
+  maskStrokeEnd = to;
+  renderCanvas();
+}
+
+/** Feathers, expands or contracts the whole mask by the amount set, in image pixels. */
+function refineMask(operation: "feather" | "expand" | "contract") {
+  const mask = loadedMask();
+  if (!mask) return;
+  const amount = parseFloat(($("mask-amount") as HTMLInputElement).value) * maskScale(mask);
+  if (!(amount > 0)) return;
+  const ctx = mask.getContext("2d")!;
+  const image = ctx.getImageData(0, 0, mask.width, mask.height);
+  if (operation === "feather") featherMask(image.data, mask.width, mask.height, amount);
+  else growMask(image.data, mask.width, mask.height, operation === "expand" ? amount : -amount);
+  ctx.putImageData(image, 0, 0);
+  commitMask(`${operation[0].toUpperCase()}${operation.slice(1)} mask`);
+  renderCanvas();
+}
+
+/** Draws the mask over the canvas the way the mask view asks for. */
+function drawMaskView(ctx: CanvasRenderingContext2D, dw: number, dh: number) {
+  if (state.maskView === "image") return;
+  const mask = loadedMask();
+  if (!mask) return;
+  ctx.save();
+  if (state.maskView === "mask") {
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, dw, dh);
+    ctx.drawImage(mask, 0, 0, dw, dh);
+  } else if (state.maskView === "overlay") {
+    const tint = document.createElement("canvas");
+    tint.width = dw;
+    tint.height = dh;
+    const tctx = tint.getContext("2d")!;
+    tctx.fillStyle = MASK_OVERLAY_COLOR;
+    tctx.fillRect(0, 0, dw, dh);
+    tctx.globalCompositeOperation = "destination-out";
+    tctx.drawImage(mask, 0, 0, dw, dh);
+    ctx.drawImage(tint, 0, 0);
   } else {
-    state.cropH = state.cropW / aspect;
+    // The canvas container's checkerboard shows through
+    ctx.globalCompositeOperation = "destination-in";
+    ctx.drawImage(mask, 0, 0, dw, dh);
   }
-  state.cropX = Math.min(state.cropX, 1 - state.cropW);
-  state.cropY = Math.min(state.cropY, 1 - state.cropH);
+  ctx.restore();
+}
+
+function syncMaskControls() {
+  $("bg-mask-fields").style.display = state.bgMask ? "" : "none";
+  $("btn-mask-compute").textContent = state.bgMask ? "Recompute Mask" : "Compute Mask";
+  ($("mask-brush") as HTMLSelectElement).value = state.maskBrush;
+  ($("mask-size") as HTMLInputElement).value = String(state.maskBrushSize);
+  $("mask-size-val").textContent = String(state.maskBrushSize);
+  ($("mask-hardness") as HTMLInputElement).value = String(Math.round(state.maskHardness * 100));
+  $("mask-hardness-val").textContent = String(Math.round(state.maskHardness * 100));
+  ($("mask-view") as HTMLSelectElement).value = state.maskView;
+}
+
+// ─── Color ───────────────────────────────────────────────────────────────────
+//
+// The preview runs the same adjustment and filter code as export (`color.ts`,
+// `filters.ts`) on a copy of the base image. The copy is cached until the base
+// or the settings change, so panning and transforms don't redo the per-pixel
+// work. With filters on, the copy is made at screen resolution instead of
+// full size, which is what keeps them live on large images at fit zoom.
+
+type ColorSliderKey =
+  | "brightness"
+  | "contrast"
+  | "exposure"
+  | "temperature"
+  | "tint"
+  | "saturation"
+  | "vibrance"
+  | "hue";
+
+/** Sliders bound to `state.color`; the input holds the value × `scale`. */
+const COLOR_SLIDERS: {
+  id: string;
+  key: ColorSliderKey;
+  scale: number;
+  label: string;
+  format: (v: number) => string;
+}[] = [
+  { id: "brightness", key: "brightness", scale: 100, label: "Brightness", format: (v) => String(Math.round(v * 100)) },
+  { id: "contrast", key: "contrast", scale: 100, label: "Contrast", format: (v) => String(Math.round(v * 100)) },
+  { id: "exposure", key: "exposure", scale: 100, label: "Exposure", format: (v) => v.toFixed(1) },
+  { id: "temperature", key: "temperature", scale: 100, label: "Temperature", format: (v) => String(Math.round(v * 100)) },
+  { id: "tint", key: "tint", scale: 100, label: "Tint", format: (v) => String(Math.round(v * 100)) },
+  { id: "vibrance", key: "vibrance", scale: 100, label: "Vibrance", format: (v) => String(Math.round(v * 100)) },
+  { id: "saturation", key: "saturation", scale: 100, label: "Saturation", format: (v) => String(Math.round(v * 100)) },
+  { id: "hue", key: "hue", scale: 1, label: "Hue", format: (v) => String(Math.round(v)) },
+];
+
+const FILTER_SLIDERS: {
+  id: string;
+  key: keyof Filters;
+  scale: number;
+  label: string;
+  format: (v: number) => string;
+}[] = [
+  { id: "sharpen-amount", key: "sharpen_amount", scale: 100, label: "Sharpen", format: (v) => String(Math.round(v * 100)) },
+  { id: "sharpen-radius", key: "sharpen_radius", scale: 10, label: "Sharpen radius", format: (v) => v.toFixed(1) },
+  { id: "sharpen-threshold", key: "sharpen_threshold", scale: 1, label: "Sharpen threshold", format: (v) => String(v) },
+  { id: "blur-radius", key: "blur_radius", scale: 10, label: "Blur", format: (v) => v.toFixed(1) },
+  { id: "denoise-radius", key: "denoise_radius", scale: 1, label: "Denoise", format: (v) => String(v) },
+];
+
+const CURVE_COLORS: Record<keyof Curves, string> = {
+  rgb: "",
+  r: "#ef5350",
+  g: "#4caf50",
+  b: "#4d7dff",
+};
+
+let colorCache: { image: HTMLImageElement; key: string; canvas: HTMLCanvasElement } | null = null;
+// Maps base image coordinates (centered) to canvas pixels, for the pixel
+// inspector and "Pick Neutral Gray"
+let canvasImageTransform: DOMMatrix | null = null;
+let pickingNeutral = false;
+// Index of the curve point being dragged in the selected channel
+let curveDrag: number | null = null;
+
+/** The base image with the live color adjustments and filters applied. */
+function adjustedImage(): CanvasImageSource {
+  const image = loadedImage!;
+  const filtered = !isFiltersNeutral(state.filters);
+  if (isColorNeutral(state.color) && !filtered) return image;
+
+  const scale = filtered ? Math.min(1, state.zoom * window.devicePixelRatio) : 1;
+  const key = JSON.stringify([state.color, state.filters, scale]);
+  if (colorCache && colorCache.image === image && colorCache.key === key) {
+    return colorCache.canvas;
+  }
+  const canvas = colorCache?.canvas ?? document.createElement("canvas");
+  // Layered bases arrive downscaled; filter radii stay in full-size pixels
+  canvas.width = Math.max(1, Math.round(Math.min(image.naturalWidth, state.imageWidth * scale)));
+  canvas.height = Math.max(1, Math.round(Math.min(image.naturalHeight, state.imageHeight * scale)));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyColorAdjustments(pixels.data, state.color);
+  if (filtered) {
+    applyFilters(pixels.data, canvas.width, canvas.height, state.filters, canvas.width / state.imageWidth);
+  }
+  ctx.putImageData(pixels, 0, 0);
+  colorCache = { image, key, canvas };
+  return canvas;
+}
+
+function syncColorControls() {
+  ($("edit-grayscale") as HTMLInputElement).checked = state.color.grayscale;
+  for (const slider of COLOR_SLIDERS) {
+    const v = state.color[slider.key];
+    ($(`edit-${slider.id}`) as HTMLInputElement).value = String(Math.round(v * slider.scale));
+    $(`${slider.id}-val`).textContent = slider.format(v);
+  }
+  ($("edit-levels-black") as HTMLInputElement).value = String(state.color.levels_black);
+  ($("edit-levels-gamma") as HTMLInputElement).value = String(state.color.levels_gamma);
+  ($("edit-levels-white") as HTMLInputElement).value = String(state.color.levels_white);
+  drawCurves();
+}
+
+function syncFilterControls() {
+  for (const slider of FILTER_SLIDERS) {
+    const v = state.filters[slider.key];
+    ($(`edit-${slider.id}`) as HTMLInputElement).value = String(Math.round(v * slider.scale));
+    $(`${slider.id}-val`).textContent = slider.format(v);
+  }
+}
+
+function onLevelsChange() {
+  const value = (id: string, fallback: number) => {
+    const v = ($(id) as HTMLInputElement).valueAsNumber;
+    return Number.isFinite(v) ? v : fallback;
+  };
+  const black = Math.max(0, Math.min(254, Math.round(value("edit-levels-black", 0))));
+  state.color.levels_black = black;
+  state.color.levels_white = Math.max(black + 1, Math.min(255, Math.round(value("edit-levels-white", 255))));
+  state.color.levels_gamma = Math.max(0.1, Math.min(10, value("edit-levels-gamma", 1)));
+  syncColorControls();
+  renderCanvas();
+  recordHistory("Levels");
+}
+
+function resetColor() {
+  state.color = defaultColorAdjustments();
+  syncColorControls();
+  renderCanvas();
+  recordHistory("Reset color");
+}
+
+/**
+ * Sets temperature and tint so the clicked area becomes neutral. Samples the
+ * unadjusted base image, so the result doesn't depend on the current balance.
+ */
+function pickNeutral(e: MouseEvent) {
+  setTool("select");
+  const pos = clientToImage(e);
+  if (!loadedImage || !pos) return;
+  if (pos[0] < 0 || pos[1] < 0 || pos[0] >= state.imageWidth || pos[1] >= state.imageHeight) return;
+  // The base image can be a downscaled preview of the full size
+  const sx = Math.floor((pos[0] * loadedImage.naturalWidth) / state.imageWidth);
+  const sy = Math.floor((pos[1] * loadedImage.naturalHeight) / state.imageHeight);
+
+  // Average a 5×5 area so sensor noise doesn't skew the balance
+  const sample = document.createElement("canvas");
+  sample.width = 5;
+  sample.height = 5;
+  const ctx = sample.getContext("2d")!;
+  ctx.drawImage(loadedImage, sx - 2, sy - 2, 5, 5, 0, 0, 5, 5);
+  const data = ctx.getImageData(0, 0, 5, 5).data;
+  let r = 0, g = 0, b = 0, count = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    r += data[i];
+    g += data[i + 1];
+    b += data[i + 2];
+    count++;
+  }
+  if (count === 0) return;
+
+  const balance = neutralWhiteBalance([r / count, g / count, b / count]);
+  state.color.temperature = Math.round(balance.temperature * 100) / 100;
+  state.color.tint = Math.round(balance.tint * 100) / 100;
+  syncColorControls();
+  renderCanvas();
+  recordHistory("Pick neutral gray");
+}
+
+// ─── Curves Editor ───────────────────────────────────────────────────────────
+
+function curveChannel(): keyof Curves {
+  return ($("curves-channel") as HTMLSelectElement).value as keyof Curves;
+}
+
+/** The mouse position in curve coordinates (0..255, y up). */
+function curvePointer(e: MouseEvent): [number, number] {
+  const rect = $("curves-canvas").getBoundingClientRect();
+  const x = ((e.clientX - rect.left) / rect.width) * 255;
+  const y = 255 - ((e.clientY - rect.top) / rect.height) * 255;
+  return [Math.max(0, Math.min(255, Math.round(x))), Math.max(0, Math.min(255, Math.round(y)))];
+}
+
+/** Index of the curve point within a few screen pixels of `at`, or -1. */
+function nearestCurvePoint(points: [number, number][], at: [number, number]): number {
+  const reach = (8 * 255) / $("curves-canvas").getBoundingClientRect().width;
+  let best = -1;
+  let bestDist = reach;
+  points.forEach(([x, y], i) => {
+    const dist = Math.hypot(x - at[0], y - at[1]);
+    if (dist <= bestDist) {
+      best = i;
+      bestDist = dist;
+    }
+  });
+  return best;
+}
+
+function onCurvesMouseDown(e: MouseEvent) {
+  if (e.button !== 0) return;
+  const points = state.color.curves[curveChannel()];
+  const at = curvePointer(e);
+  let index = nearestCurvePoint(points, at);
+  if (index < 0) {
+    points.push(at);
+    points.sort((a, b) => a[0] - b[0]);
+    index = points.indexOf(at);
+  }
+  curveDrag = index;
+  e.preventDefault();
+  onCurvesMouseMove(e);
+}
+
+function onCurvesMouseMove(e: MouseEvent) {
+  if (curveDrag === null) return;
+  const points = state.color.curves[curveChannel()];
+  const [x, y] = curvePointer(e);
+  // Points can't pass their neighbours, so the order never changes mid-drag
+  const lo = curveDrag > 0 ? points[curveDrag - 1][0] + 1 : 0;
+  const hi = curveDrag < points.length - 1 ? points[curveDrag + 1][0] - 1 : 255;
+  points[curveDrag] = [Math.max(lo, Math.min(hi, x)), y];
+  drawCurves();
+  renderCanvas();
+}
+
+function onCurvesMouseUp() {
+  if (curveDrag === null) return;
+  curveDrag = null;
+  recordHistory("Curves");
+}
+
+function onCurvesContextMenu(e: MouseEvent) {
+  e.preventDefault();
+  const points = state.color.curves[curveChannel()];
+  const index = nearestCurvePoint(points, curvePointer(e));
+  if (index < 0 || points.length <= 2) return;
+  points.splice(index, 1);
+  drawCurves();
+  renderCanvas();
+  recordHistory("Curves");
+}
+
+function resetCurve() {
+  state.color.curves[curveChannel()] = identityCurve();
+  drawCurves();
+  renderCanvas();
+  recordHistory("Reset curve");
+}
+
+function drawCurves() {
+  const canvas = $("curves-canvas") as HTMLCanvasElement;
+  const ctx = canvas.getContext("2d")!;
+  const size = canvas.width;
+  const scale = size / 255;
+  const style = getComputedStyle(document.documentElement);
+  ctx.clearRect(0, 0, size, size);
+
+  // Quarter grid and the identity diagonal
+  ctx.strokeStyle = style.getPropertyValue("--text-muted");
+  ctx.lineWidth = 1;
+  ctx.globalAlpha = 0.4;
+  ctx.beginPath();
+  for (let i = 1; i < 4; i++) {
+    const p = (size * i) / 4;
+    ctx.moveTo(p, 0);
+    ctx.lineTo(p, size);
+    ctx.moveTo(0, p);
+    ctx.lineTo(size, p);
+  }
+  ctx.moveTo(0, size);
+  ctx.lineTo(size, 0);
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+
+  const channel = curveChannel();
+  const points = state.color.curves[channel];
+  const curve = curveFunction(points);
+  ctx.strokeStyle = CURVE_COLORS[channel] || style.getPropertyValue("--text-primary");
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  for (let x = 0; x <= 255; x++) {
+    const py = size - curve(x) * scale;
+    if (x === 0) ctx.moveTo(0, py);
+    else ctx.lineTo(x * scale, py);
+  }
+  ctx.stroke();
+  for (const [x, y] of points) {
+    ctx.beginPath();
+    ctx.arc(x * scale, size - y * scale, 4, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+// ─── Histogram & Inspector ───────────────────────────────────────────────────
+//
+// Both read the main canvas, so they show the preview as drawn: adjustments,
+// filters and pixelate strokes included. The histogram samples a copy of at
+// most HISTOGRAM_SAMPLE_SIZE pixels on the long side and is recomputed shortly
+// after the canvas stops changing.
+
+const HISTOGRAM_SAMPLE_SIZE = 512;
+const HISTOGRAM_DELAY_MS = 150;
+
+let histogramTimer: ReturnType<typeof setTimeout> | null = null;
+let histogram: { r: Uint32Array; g: Uint32Array; b: Uint32Array; luma: Uint32Array } | null = null;
+
+function scheduleHistogram() {
+  if (histogramTimer) clearTimeout(histogramTimer);
+  histogramTimer = setTimeout(() => {
+    histogramTimer = null;
+    updateHistogram();
+  }, HISTOGRAM_DELAY_MS);
+}
+
+function updateHistogram() {
+  const canvas = $("main-canvas") as HTMLCanvasElement;
+  if (!loadedImage || canvas.width === 0 || canvas.height === 0) return;
+
+  // Nearest-neighbor sampling, so clipped pixels aren't averaged away
+  const scale = Math.min(1, HISTOGRAM_SAMPLE_SIZE / Math.max(canvas.width, canvas.height));
+  const sample = document.createElement("canvas");
+  sample.width = Math.max(1, Math.round(canvas.width * scale));
+  sample.height = Math.max(1, Math.round(canvas.height * scale));
+  const ctx = sample.getContext("2d")!;
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(canvas, 0, 0, sample.width, sample.height);
+  const data = ctx.getImageData(0, 0, sample.width, sample.height).data;
+
+  const r = new Uint32Array(256);
+  const g = new Uint32Array(256);
+  const b = new Uint32Array(256);
+  const luma = new Uint32Array(256);
+  let total = 0;
+  let shadows = 0;
+  let highlights = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    // Skip the empty corners left by straightening and removed backgrounds
+    if (data[i + 3] === 0) continue;
+    const pr = data[i];
+    const pg = data[i + 1];
+    const pb = data[i + 2];
+    r[pr]++;
+    g[pg]++;
+    b[pb]++;
+    luma[Math.round(0.2126 * pr + 0.7152 * pg + 0.0722 * pb)]++;
+    if (pr === 0 || pg === 0 || pb === 0) shadows++;
+    if (pr === 255 || pg === 255 || pb === 255) highlights++;
+    total++;
+  }
+  histogram = { r, g, b, luma };
+
+  const percent = (n: number) => (total > 0 ? (n / total) * 100 : 0);
+  const shadowPct = percent(shadows);
+  const highlightPct = percent(highlights);
+  const shadowLabel = $("clip-shadows");
+  const highlightLabel = $("clip-highlights");
+  shadowLabel.textContent = `Shadows ${shadowPct.toFixed(1)}%`;
+  highlightLabel.textContent = `Highlights ${highlightPct.toFixed(1)}%`;
+  shadowLabel.classList.toggle("clipped", shadowPct >= 0.1);
+  highlightLabel.classList.toggle("clipped", highlightPct >= 0.1);
+  drawHistogram();
+}
+
+function drawHistogram() {
+  const canvas = $("histogram-canvas") as HTMLCanvasElement;
+  const ctx = canvas.getContext("2d")!;
+  const { width, height } = canvas;
+  ctx.clearRect(0, 0, width, height);
+  if (!histogram) return;
+  const style = getComputedStyle(document.documentElement);
+
+  // Scale to the tallest bin inside the range, so a spike of clipped pixels
+  // doesn't flatten the rest; the end bins are cut off at the top instead
+  let max = 1;
+  for (const bins of [histogram.r, histogram.g, histogram.b, histogram.luma]) {
+    for (let i = 1; i < 255; i++) max = Math.max(max, bins[i]);
+  }
+  const binWidth = width / 256;
+  const barHeight = (n: number) => Math.min(height, (n / max) * height);
+
+  ctx.fillStyle = style.getPropertyValue("--text-muted");
+  ctx.globalAlpha = 0.5;
+  for (let i = 0; i < 256; i++) {
+    const h = barHeight(histogram.luma[i]);
+    ctx.fillRect(i * binWidth, height - h, binWidth, h);
+  }
+  ctx.globalAlpha = 1;
+
+  ctx.lineWidth = 1;
+  for (const channel of ["r", "g", "b"] as const) {
+    const bins = histogram[channel];
+    ctx.strokeStyle = CURVE_COLORS[channel];
+    ctx.beginPath();
+    for (let i = 0; i < 256; i++) {
+      const x = (i + 0.5) * binWidth;
+      const y = height - barHeight(bins[i]);
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+  }
+
+  // Clipping markers at the ends
+  ctx.fillStyle = style.getPropertyValue("--danger");
+  if ($("clip-shadows").classList.contains("clipped")) ctx.fillRect(0, 0, 3, height);
+  if ($("clip-highlights").classList.contains("clipped")) ctx.fillRect(width - 3, 0, 3, height);
+}
+
+/**
+ * Maps a mouse position to base image coordinates through the canvas
+ * transform, so zoom, pan, 90° rotation, flips and straighten all undo.
+ */
+function clientToImage(e: MouseEvent): [number, number] | null {
+  if (!canvasImageTransform) return null;
+  const canvas = $("main-canvas") as HTMLCanvasElement;
+  const rect = canvas.getBoundingClientRect();
+  const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
+  const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
+  const p = canvasImageTransform.inverse().transformPoint(new DOMPoint(x, y));
+  return [p.x + state.imageWidth / 2, p.y + state.imageHeight / 2];
+}
+
+/**
+ * Shows the pixel under the cursor. The readout keeps the last pixel over the
+ * image, so the values are still there when the mouse moves to copy them.
+ */
+function inspectPixel(e: MouseEvent) {
+  if (!loadedImage) return;
+  const pos = clientToImage(e);
+  if (!pos) return;
+  const ix = Math.floor(pos[0]);
+  const iy = Math.floor(pos[1]);
+  if (ix < 0 || iy < 0 || ix >= state.imageWidth || iy >= state.imageHeight) return;
+
+  const canvas = $("main-canvas") as HTMLCanvasElement;
+  const rect = canvas.getBoundingClientRect();
+  const cx = Math.floor(((e.clientX - rect.left) / rect.width) * canvas.width);
+  const cy = Math.floor(((e.clientY - rect.top) / rect.height) * canvas.height);
+  if (cx < 0 || cy < 0 || cx >= canvas.width || cy >= canvas.height) return;
+  const [r, g, b, a] = canvas.getContext("2d")!.getImageData(cx, cy, 1, 1).data;
+  const [h, s, l] = rgbToHsl([r, g, b]);
+
+  $("inspect-position").textContent = `${ix}, ${iy}`;
+  $("inspect-rgba").textContent = `${r}, ${g}, ${b}, ${a}`;
+  $("inspect-hex").textContent = rgbToHex([r, g, b]);
+  $("inspect-hsl").textContent = `${h}°, ${s}%, ${l}%`;
+}
+
+async function copyInspectorValue(el: HTMLElement) {
+  const text = el.textContent || "";
+  if (!text || text === "–") return;
+  try {
+    await navigator.clipboard.writeText(text);
+    showToast(`Copied ${text}`, "success");
+  } catch (e) {
+    showToast(`Copy failed: ${e}`, "error");
+  }
+}
+
+function rgbToHsl([r, g, b]: [number, number, number]): [number, number, number] {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+  let h = 0;
+  let s = 0;
+  if (d > 0) {
+    s = d / (1 - Math.abs(2 * l - 1));
+    if (max === rn) h = ((gn - bn) / d + 6) % 6;
+    else if (max === gn) h = (bn - rn) / d + 2;
+    else h = (rn - gn) / d + 4;
+  }
+  return [Math.round(h * 60) % 360, Math.round(s * 100), Math.round(l * 100)];
+}
+
+// ─── Straighten ──────────────────────────────────────────────────────────────
+//
+// Fine rotation on top of the 90° steps. The canvas keeps its size, so the
+// rotated image leaves empty corners that auto-crop trims away.
+
+function setStraighten(degrees: number) {
+  state.straighten = Math.round(Math.max(-45, Math.min(45, degrees)) * 10) / 10;
+  ($("edit-straighten") as HTMLInputElement).value = String(state.straighten);
+  $("straighten-val").textContent = state.straighten.toFixed(1);
+  renderCanvas();
+  if (straightenAutoCrop) autoCropStraighten();
+}
+
+/**
+ * Sets the crop to the largest centered rectangle with no empty corners. The
+ * aspect is the locked target aspect, or the image's own. A w×h rectangle fits
+ * inside a W×H image rotated by θ when w·c + h·s ≤ W and w·s + h·c ≤ H
+ * (c = |cos θ|, s = |sin θ|); with w = r·h that gives the height below.
+ */
+function autoCropStraighten() {
+  const isRotated = state.rotation === 90 || state.rotation === 270;
+  const W = isRotated ? state.imageHeight : state.imageWidth;
+  const H = isRotated ? state.imageWidth : state.imageHeight;
+  if (!W || !H) return;
+  const theta = (Math.abs(state.straighten) * Math.PI) / 180;
+  const c = Math.cos(theta);
+  const s = Math.sin(theta);
+  const r = state.lockAspect ? state.targetWidth / state.targetHeight : W / H;
+  const h = Math.min(W / (r * c + s), H / (r * s + c));
+  state.cropW = Math.min(1, (r * h) / W);
+  state.cropH = Math.min(1, h / H);
+  state.cropX = (1 - state.cropW) / 2;
+  state.cropY = (1 - state.cropH) / 2;
   updateCropOverlay();
 }
 
-function onCropSizeChange() {
-  state.targetWidth = ($("crop-width") as HTMLInputElement).valueAsNumber || 800;
-  state.targetHeight = ($("crop-height") as HTMLInputElement).valueAsNumber || 600;
+function drawStraightenLine() {
+  const svg = $("straighten-overlay");
+  if (!straightenLine) {
+    svg.style.display = "none";
+    return;
+  }
+  const box = $("canvas-container").getBoundingClientRect();
+  const line = $("straighten-line");
+  line.setAttribute("x1", String(straightenLine.x1 - box.left));
+  line.setAttribute("y1", String(straightenLine.y1 - box.top));
+  line.setAttribute("x2", String(straightenLine.x2 - box.left));
+  line.setAttribute("y2", String(straightenLine.y2 - box.top));
+  svg.style.display = "block";
+}
+
+/** Rotates so the drawn line becomes level (or plumb, if it is closer to vertical). */
+function finishStraightenLine() {
+  const { x1, y1, x2, y2 } = straightenLine!;
+  straightenLine = null;
+  drawStraightenLine();
+  if (Math.hypot(x2 - x1, y2 - y1) < 10) return;
+
+  // The canvas is scaled uniformly, so the on-screen angle is the image angle
+  let angle = (Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI;
+  while (angle > 45) angle -= 90;
+  while (angle <= -45) angle += 90;
+  setStraighten(state.straighten - angle);
+  recordHistory("Straighten");
+}
+
+// ─── Perspective ─────────────────────────────────────────────────────────────
+//
+// The corners are picked on the current layer stack output and applied as a
+// `perspective` layer, so crop, adjustments and export all work on the
+// corrected image.
+
+function resetPerspective() {
+  ($("keystone-v") as HTMLInputElement).value = "0";
+  ($("keystone-h") as HTMLInputElement).value = "0";
+  onKeystoneChange();
+}
+
+/**
+ * Rebuilds the corners from the keystone sliders. Positive vertical keystone
+ * pulls the top corners in, which stretches the top of the image back out
+ * (converging verticals); positive horizontal does the same on the left edge.
+ */
+function onKeystoneChange() {
+  const v = parseInt(($("keystone-v") as HTMLInputElement).value) / 100;
+  const h = parseInt(($("keystone-h") as HTMLInputElement).value) / 100;
+  $("keystone-v-val").textContent = String(Math.round(v * 100));
+  $("keystone-h-val").textContent = String(Math.round(h * 100));
+  const top = Math.max(0, v);
+  const bottom = Math.max(0, -v);
+  const left = Math.max(0, h);
+  const right = Math.max(0, -h);
+  perspectiveCorners = [
+    [top, left],
+    [1 - top, right],
+    [1 - bottom, 1 - right],
+    [bottom, 1 - left],
+  ];
+  updatePerspectiveSize();
+  updatePerspectiveOverlay();
+}
+
+/** Suggests an output size that keeps the longer of each pair of opposite edges. */
+function updatePerspectiveSize() {
+  const px = perspectiveCorners.map(([x, y]) => [x * state.imageWidth, y * state.imageHeight]);
+  const edge = (a: number, b: number) => Math.hypot(px[b][0] - px[a][0], px[b][1] - px[a][1]);
+  const w = Math.max(1, Math.round(Math.max(edge(0, 1), edge(3, 2))));
+  const h = Math.max(1, Math.round(Math.max(edge(0, 3), edge(1, 2))));
+  ($("perspective-width") as HTMLInputElement).value = String(w);
+  ($("perspective-height") as HTMLInputElement).value = String(h);
+}
+
+function updatePerspectiveOverlay() {
+  const svg = $("perspective-overlay");
+  if (state.tool !== "perspective" || !loadedImage || perspectiveCorners.length !== 4) {
+    svg.style.display = "none";
+    return;
+  }
+  const rect = ($("main-canvas") as HTMLCanvasElement).getBoundingClientRect();
+  const box = $("canvas-container").getBoundingClientRect();
+  const points = perspectiveCorners.map(([x, y]) => [
+    rect.left - box.left + x * rect.width,
+    rect.top - box.top + y * rect.height,
+  ]);
+  $("perspective-quad").setAttribute("points", points.map((p) => p.join(",")).join(" "));
+  svg.querySelectorAll<SVGCircleElement>(".perspective-handle").forEach((handle, i) => {
+    handle.setAttribute("cx", String(points[i][0]));
+    handle.setAttribute("cy", String(points[i][1]));
+  });
+  svg.style.display = "block";
+}
+
+async function applyPerspective() {
+  if (!state.sourcePath) return;
+
+  // The corners are picked on the unrotated layer output
+  if (state.rotation || state.flipH || state.flipV || state.straighten) {
+    showToast("Apply or reset rotation and flips first", "error");
+    return;
+  }
+  const w = ($("perspective-width") as HTMLInputElement).valueAsNumber;
+  const h = ($("perspective-height") as HTMLInputElement).valueAsNumber;
+  if (!w || !h || w < 1 || h < 1) {
+    showToast("Enter valid width and height", "error");
+    return;
+  }
+
+  const operations = [
+    ...state.operations,
+    createOperation({
+      kind: "perspective",
+      corners: perspectiveCorners.map(([x, y]) => [x, y]),
+      width: Math.round(w),
+      height: Math.round(h),
+    }),
+  ];
+  const ok = await setOperations(operations, "Perspective", {
+    afterRender: (base) => {
+      state.targetWidth = base.width;
+      state.targetHeight = base.height;
+      ($("crop-width") as HTMLInputElement).value = String(base.width);
+      ($("crop-height") as HTMLInputElement).value = String(base.height);
+    },
+  });
+  if (ok) showToast("Perspective corrected", "success");
+}
+
+// ─── Detection ───────────────────────────────────────────────────────────────
+//
+// Detected faces and text are shown as proposals over the canvas, normalized
+// like redaction strokes. They can be moved, resized, toggled or removed, and
+// only become rectangle strokes when accepted. Proposals belong to the image
+// they were found on and are dropped when it changes.
+
+interface Proposal extends Detection {
+  enabled: boolean;
+}
+
+const MIN_PROPOSAL_SIZE = 0.005;
+
+let proposals: Proposal[] = [];
+let proposalsKey: string | null = null;
+let detecting = false;
+// Until `model_status` answers; a recipe can still pick Subject mode without it
+let subjectModelInstalled = true;
+
+// The proposal being dragged, the part that was grabbed and where the drag started
+let proposalDrag: {
+  index: number;
+  part: "move" | "tl" | "br";
+  clientX: number;
+  clientY: number;
+  start: Proposal;
+  moved: boolean;
+} | null = null;
+
+/**
+ * Disables the detectors and the Subject background mode when their model or
+ * ONNX Runtime is not installed.
+ */
+async function loadModelStatus() {
+  let status: ModelStatus;
+  try {
+    status = await invoke<ModelStatus>("model_status");
+  } catch (_) {
+    status = { faces: false, text: false, subject: false };
+  }
+  const disable = (id: string, installed: boolean) => {
+    const input = $(id) as HTMLInputElement;
+    input.disabled = !installed;
+    if (!installed) input.checked = false;
+    input.parentElement!.title = installed ? "" : "The detection model is not installed";
+  };
+  disable("detect-faces", status.faces);
+  disable("detect-text", status.text);
+  ($("btn-detect") as HTMLButtonElement).disabled = !status.faces && !status.text;
+
+  subjectModelInstalled = status.subject;
+  const option = $("bg-mode").querySelector<HTMLOptionElement>('option[value="subject"]')!;
+  option.disabled = !status.subject;
+  option.textContent = status.subject ? "Subject (ML)" : "Subject (ML, not installed)";
+  syncBgControls();
+}
+
+/** Identifies the image redaction strokes are drawn on. */
+function detectionKey(): string {
+  return JSON.stringify([
+    state.sourcePath,
+    state.operations,
+    state.rotation,
+    state.flipH,
+    state.flipV,
+    state.straighten,
+  ]);
+}
+
+async function detectRegions() {
+  if (!state.sourcePath || detecting) return;
+  const faces = ($("detect-faces") as HTMLInputElement).checked;
+  const text = ($("detect-text") as HTMLInputElement).checked;
+  if (!faces && !text) {
+    showToast("Choose faces, text or both", "error");
+    return;
+  }
+
+  const key = detectionKey();
+  const button = $("btn-detect") as HTMLButtonElement;
+  detecting = true;
+  button.disabled = true;
+  button.textContent = "Detecting\u2026";
+  try {
+    const found = await invoke<Detection[]>("detect_regions", {
+      payload: {
+        source_path: state.sourcePath,
+        operations: state.operations,
+        rotation: state.rotation,
+        flip_h: state.flipH,
+        flip_v: state.flipV,
+        straighten: state.straighten,
+        faces,
+        text,
+      },
+    });
+    // The image changed while the models ran
+    if (detectionKey() !== key) return;
+    proposals = found.map((d) => ({ ...d, enabled: true }));
+    proposalsKey = key;
+    renderProposals();
+    showToast(found.length > 0 ? `Found ${describeProposals()}` : "Nothing found", "success");
+  } catch (e: any) {
+    showToast("Detection failed: " + e, "error");
+  } finally {
+    detecting = false;
+    button.disabled = false;
+    button.textContent = "Detect";
+  }
+}
+
+function describeProposals(): string {
+  const faces = proposals.filter((p) => p.kind === "face").length;
+  const text = proposals.length - faces;
+  const parts: string[] = [];
+  if (faces > 0) parts.push(`${faces} face${faces === 1 ? "" : "s"}`);
+  if (text > 0) parts.push(`${text} text region${text === 1 ? "" : "s"}`);
+  return parts.join(", ");
+}
+
+function renderProposals() {
+  const list = $("detect-list");
+  list.innerHTML = proposals
+    .map(
+      (p, i) => `<div class="layer-item${p.enabled ? "" : " disabled"}" data-index="${i}">
+          <input type="checkbox" class="layer-toggle" ${p.enabled ? "checked" : ""} title="Include when accepting" />
+          <span class="layer-label">${p.kind === "face" ? "Face" : "Text"} (${Math.round(p.score * 100)}%)</span>
+          <button class="layer-btn" title="Remove">&#10005;</button>
+        </div>`
+    )
+    .join("");
+
+  list.querySelectorAll<HTMLDivElement>(".layer-item").forEach((item) => {
+    const i = parseInt(item.dataset.index!);
+    item.querySelector<HTMLInputElement>(".layer-toggle")!.addEventListener("change", (e) => {
+      proposals[i].enabled = (e.target as HTMLInputElement).checked;
+      renderProposals();
+    });
+    item.querySelector<HTMLButtonElement>(".layer-btn")!.addEventListener("click", () => {
+      proposals.splice(i, 1);
+      renderProposals();
+    });
+  });
+  $("detect-actions").style.display = proposals.length > 0 ? "" : "none";
+  updateDetectOverlay();
+}
+
+function updateDetectOverlay() {
+  const svg = $("detect-overlay");
+  if (proposals.length > 0 && proposalsKey !== detectionKey()) {
+    proposals = [];
+    renderProposals();
+    return;
+  }
+  if (state.tool !== "pixelate" || !loadedImage || proposals.length === 0) {
+    svg.style.display = "none";
+    return;
+  }
+  const rect = ($("main-canvas") as HTMLCanvasElement).getBoundingClientRect();
+  const box = $("canvas-container").getBoundingClientRect();
+  const px = (x: number) => rect.left - box.left + x * rect.width;
+  const py = (y: number) => rect.top - box.top + y * rect.height;
+  svg.innerHTML = proposals
+    .map((p, i) => {
+      const [x1, y1, x2, y2] = [px(p.x), py(p.y), px(p.x + p.width), py(p.y + p.height)];
+      return (
+        `<rect class="detect-rect${p.enabled ? "" : " disabled"}" data-proposal="${i}" data-part="move" ` +
+        `x="${x1}" y="${y1}" width="${x2 - x1}" height="${y2 - y1}" />` +
+        `<circle class="detect-handle" data-proposal="${i}" data-part="tl" cx="${x1}" cy="${y1}" r="5" />` +
+        `<circle class="detect-handle" data-proposal="${i}" data-part="br" cx="${x2}" cy="${y2}" r="5" />`
+      );
+    })
+    .join("");
+  svg.style.display = "block";
+}
+
+/** Starts dragging a proposal if the press landed on one. */
+function startProposalDrag(e: MouseEvent): boolean {
+  const target = e.target as SVGElement;
+  const index = target.dataset?.proposal;
+  if (index === undefined) return false;
+  const start = proposals[parseInt(index)];
+  proposalDrag = {
+    index: parseInt(index),
+    part: target.dataset.part as "move" | "tl" | "br",
+    clientX: e.clientX,
+    clientY: e.clientY,
+    start: { ...start },
+    moved: false,
+  };
+  e.preventDefault();
+  return true;
+}
+
+function dragProposal(e: MouseEvent) {
+  if (!proposalDrag) return;
+  const rect = ($("main-canvas") as HTMLCanvasElement).getBoundingClientRect();
+  const dx = (e.clientX - proposalDrag.clientX) / rect.width;
+  const dy = (e.clientY - proposalDrag.clientY) / rect.height;
+  if (Math.hypot(e.clientX - proposalDrag.clientX, e.clientY - proposalDrag.clientY) > 2) {
+    proposalDrag.moved = true;
+  }
+  if (!proposalDrag.moved) return;
+
+  const s = proposalDrag.start;
+  const p = proposals[proposalDrag.index];
+  const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+  if (proposalDrag.part === "move") {
+    p.x = clamp(s.x + dx, 0, 1 - s.width);
+    p.y = clamp(s.y + dy, 0, 1 - s.height);
+  } else if (proposalDrag.part === "tl") {
+    const x = clamp(s.x + dx, 0, s.x + s.width - MIN_PROPOSAL_SIZE);
+    const y = clamp(s.y + dy, 0, s.y + s.height - MIN_PROPOSAL_SIZE);
+    p.width = s.x + s.width - x;
+    p.height = s.y + s.height - y;
+    p.x = x;
+    p.y = y;
+  } else {
+    p.width = clamp(s.width + dx, MIN_PROPOSAL_SIZE, 1 - s.x);
+    p.height = clamp(s.height + dy, MIN_PROPOSAL_SIZE, 1 - s.y);
+  }
+  updateDetectOverlay();
+}
+
+/** A click on a proposal without dragging toggles it. */
+function finishProposalDrag() {
+  if (!proposalDrag) return;
+  const { index, part, moved } = proposalDrag;
+  proposalDrag = null;
+  if (!moved && part === "move") {
+    proposals[index].enabled = !proposals[index].enabled;
+  }
+  renderProposals();
+}
+
+/** Turns the checked proposals into rectangle strokes with the current settings. */
+function acceptProposals() {
+  const accepted = proposals.filter((p) => p.enabled);
+  if (accepted.length === 0) {
+    showToast("No regions checked", "error");
+    return;
+  }
+  for (const p of accepted) {
+    state.pixelateStrokes.push({
+      shape: "rectangle",
+      points: [
+        [p.x, p.y],
+        [p.x + p.width, p.y + p.height],
+      ],
+      radius: 0,
+      mode: state.redactMode,
+      block_size: state.pixelateBlockSize,
+      blur_radius: state.redactBlurRadius,
+      color: [...state.redactColor],
+    });
+  }
+  proposals = [];
+  renderProposals();
+  renderCanvas();
+  recordHistory(`Redact ${accepted.length} detected region${accepted.length === 1 ? "" : "s"}`);
+}
+
+// ─── Text ────────────────────────────────────────────────────────────────────
+//
+// Text boxes are live edits in canvas space, like redaction strokes. The
+// preview draws each one with the font file Rust exports it with, added to
+// the webview under an alias per family and style; until that has loaded, the
+// browser's own font of the same name stands in.
+
+/** Distance of the rotate handle above the box, in screen pixels */
+const TEXT_ROTATE_ARM_PX = 24;
+const MIN_TEXT_SIZE = 0.005;
+
+let fontFamilies: FontFamily[] | null = null;
+let selectedText: number | null = null;
+
+// Preview fonts by family and style; null while loading or when it failed
+const previewFonts = new Map<string, PreviewFont | null>();
+let previewFontCount = 0;
+
+// The box being dragged, the part that was grabbed and where the drag started
+let textDrag: {
+  index: number;
+  part: "move" | "resize" | "rotate";
+  clientX: number;
+  clientY: number;
+  start: TextBox;
+  moved: boolean;
+} | null = null;
+
+async function loadFontFamilies() {
+  if (fontFamilies) return;
+  try {
+    fontFamilies = await invoke<FontFamily[]>("list_fonts");
+  } catch (e: any) {
+    fontFamilies = [];
+    showToast("Failed to list fonts: " + e, "error");
+  }
+  renderFontOptions();
+}
+
+function renderFontOptions() {
+  const families = fontFamilies ?? [];
+  const option = (name: string, label = name) =>
+    `<option value="${escapeHtml(name)}">${escapeHtml(label)}</option>`;
+  const group = (label: string, list: FontFamily[]) =>
+    list.length > 0
+      ? `<optgroup label="${label}">${list.map((f) => option(f.name)).join("")}</optgroup>`
+      : "";
+  // Recipes made on another machine can name fonts that aren't installed here
+  const current = state.textStyle.font;
+  const known = !fontFamilies || families.some((f) => f.name === current);
+  const select = $("text-font") as HTMLSelectElement;
+  select.innerHTML =
+    (known && fontFamilies ? "" : option(current, known ? current : `${current} (missing)`)) +
+    group("Bundled", families.filter((f) => f.bundled)) +
+    group("System", families.filter((f) => !f.bundled));
+  select.value = current;
+}
+
+/** The font `box` is previewed with, loading it on first use. */
+function previewFont(box: TextBox): PreviewFont | null {
+  const key = JSON.stringify([box.font, box.bold, box.italic]);
+  if (!previewFonts.has(key)) {
+    previewFonts.set(key, null);
+    loadPreviewFont(key, box.font, box.bold, box.italic);
+  }
+  return previewFonts.get(key)!;
+}
+
+async function loadPreviewFont(key: string, family: string, bold: boolean, italic: boolean) {
+  try {
+    const font = await invoke<LoadedFont>("load_font", { family, bold, italic });
+    // The file already is the bold or italic face, so the alias has no style
+    // for the browser to synthesize on top
+    const alias = `pixelargon-font-${++previewFontCount}`;
+    const face = new FontFace(alias, `url(${font.data_url})`);
+    await face.load();
+    document.fonts.add(face);
+    previewFonts.set(key, { family: alias, ascent: font.ascent, descent: font.descent });
+    renderCanvas();
+  } catch (e: any) {
+    showToast(`Failed to load font ${family}: ${e}`, "error");
+  }
+}
+
+function selectedTextBox(): TextBox | null {
+  return selectedText === null ? null : state.textBoxes[selectedText] ?? null;
+}
+
+function selectText(index: number | null) {
+  selectedText = index;
+  const box = selectedTextBox();
+  if (box) state.textStyle = textStyleOf(box);
+  syncTextControls();
+  updateTextOverlay();
+}
+
+/** Adds a box with the current style where the image was clicked. */
+function addTextBox(e: MouseEvent) {
+  const [nx, ny] = getCanvasCoords(e);
+  if (nx < 0 || nx > 1 || ny < 0 || ny > 1) {
+    selectText(null);
+    return;
+  }
+  state.textBoxes.push({ text: "Text", x: nx, y: ny, rotation: 0, ...cloneTextStyle(state.textStyle) });
+  selectText(state.textBoxes.length - 1);
+  renderCanvas();
+  recordHistory("Add text");
+  const content = $("text-content") as HTMLTextAreaElement;
+  content.focus();
+  content.select();
+  e.preventDefault();
+}
+
+function deleteSelectedText() {
+  if (!selectedTextBox()) return;
+  state.textBoxes.splice(selectedText!, 1);
+  selectText(null);
+  renderCanvas();
+  recordHistory("Delete text");
+}
+
+/**
+ * Applies a changed style control to the style and the selected box. Returns
+ * false for events from other controls.
+ */
+function onTextStyleInput(e: Event): boolean {
+  const el = e.target as HTMLInputElement;
+  const style = state.textStyle;
+  const percent = () => (parseFloat(el.value) || 0) / 100;
+  switch (el.id) {
+    case "text-font":
+      style.font = el.value;
+      break;
+    case "text-bold":
+      style.bold = el.checked;
+      break;
+    case "text-italic":
+      style.italic = el.checked;
+      break;
+    case "text-align":
+      style.align = el.value as TextAlign;
+      break;
+    case "text-size":
+      style.size = Math.max(MIN_TEXT_SIZE, percent());
+      break;
+    case "text-color":
+      style.color = hexToRgb(el.value);
+      break;
+    case "text-opacity":
+      style.opacity = percent();
+      break;
+    case "text-stroke":
+      style.stroke_width = percent();
+      break;
+    case "text-stroke-color":
+      style.stroke_color = hexToRgb(el.value);
+      break;
+    case "text-shadow":
+      style.shadow_opacity = percent();
+      break;
+    case "text-shadow-color":
+      style.shadow_color = hexToRgb(el.value);
+      break;
+    case "text-shadow-blur":
+      style.shadow_blur = percent();
+      break;
+    case "text-shadow-x":
+      style.shadow_x = Math.max(-1, Math.min(1, percent()));
+      break;
+    case "text-shadow-y":
+      style.shadow_y = Math.max(-1, Math.min(1, percent()));
+      break;
+    default:
+      return false;
+  }
+  const box = selectedTextBox();
+  if (box) Object.assign(box, cloneTextStyle(style));
+  syncTextLabels();
+  renderCanvas();
+  return true;
+}
+
+/** Pushes the style and the selected box's text into the text panel. */
+function syncTextControls() {
+  if (selectedText !== null && !selectedTextBox()) selectedText = null;
+  const box = selectedTextBox();
+  if (box) state.textStyle = textStyleOf(box);
+  const style = state.textStyle;
+  const input = (id: string) => $(id) as HTMLInputElement;
+  const content = $("text-content") as HTMLTextAreaElement;
+  content.value = box ? box.text : "";
+  content.disabled = !box;
+  ($("btn-text-delete") as HTMLButtonElement).disabled = !box;
+  renderFontOptions();
+  input("text-bold").checked = style.bold;
+  input("text-italic").checked = style.italic;
+  ($("text-align") as HTMLSelectElement).value = style.align;
+  input("text-size").value = String(style.size * 100);
+  input("text-color").value = rgbToHex(style.color);
+  input("text-opacity").value = String(Math.round(style.opacity * 100));
+  input("text-stroke").value = String(Math.round(style.stroke_width * 100));
+  input("text-stroke-color").value = rgbToHex(style.stroke_color);
+  input("text-shadow").value = String(Math.round(style.shadow_opacity * 100));
+  input("text-shadow-color").value = rgbToHex(style.shadow_color);
+  input("text-shadow-blur").value = String(Math.round(style.shadow_blur * 100));
+  input("text-shadow-x").value = String(Math.round(style.shadow_x * 100));
+  input("text-shadow-y").value = String(Math.round(style.shadow_y * 100));
+  syncTextLabels();
+}
+
+function syncTextLabels() {
+  const style = state.textStyle;
+  $("text-size-val").textContent = String(Math.round(style.size * 1000) / 10);
+  $("text-opacity-val").textContent = String(Math.round(style.opacity * 100));
+  $("text-stroke-val").textContent = String(Math.round(style.stroke_width * 100));
+  $("text-shadow-val").textContent = String(Math.round(style.shadow_opacity * 100));
+  $("text-shadow-blur-val").textContent = String(Math.round(style.shadow_blur * 100));
+}
+
+/** Outlines the boxes, with resize and rotate handles on the selected one. */
+function updateTextOverlay() {
+  const svg = $("text-overlay");
+  if (state.tool !== "text" || !loadedImage || state.textBoxes.length === 0) {
+    svg.style.display = "none";
+    return;
+  }
+  const canvas = $("main-canvas") as HTMLCanvasElement;
+  const rect = canvas.getBoundingClientRect();
+  const box = $("canvas-container").getBoundingClientRect();
+  const toScreen = ([x, y]: [number, number]): [number, number] => [
+    rect.left - box.left + (x / canvas.width) * rect.width,
+    rect.top - box.top + (y / canvas.height) * rect.height,
+  ];
+  svg.innerHTML = state.textBoxes
+    .map((b, i) => {
+      const corners = textBoxCorners(b, canvas.width, canvas.height, previewFont(b)).map(toScreen);
+      const selected = i === selectedText;
+      let svgBox =
+        `<polygon class="text-box${selected ? " selected" : ""}" data-text="${i}" data-part="move" ` +
+        `points="${corners.map((p) => p.join(",")).join(" ")}" />`;
+      if (selected) {
+        const rad = (b.rotation * Math.PI) / 180;
+        const top: [number, number] = [
+          (corners[0][0] + corners[1][0]) / 2,
+          (corners[0][1] + corners[1][1]) / 2,
+        ];
+        const [hx, hy] = [
+          top[0] + Math.sin(rad) * TEXT_ROTATE_ARM_PX,
+          top[1] - Math.cos(rad) * TEXT_ROTATE_ARM_PX,
+        ];
+        svgBox +=
+          `<line class="text-rotate-arm" x1="${top[0]}" y1="${top[1]}" x2="${hx}" y2="${hy}" />` +
+          `<circle class="text-handle" data-text="${i}" data-part="rotate" cx="${hx}" cy="${hy}" r="5" />` +
+          `<circle class="text-handle" data-text="${i}" data-part="resize" cx="${corners[2][0]}" cy="${corners[2][1]}" r="5" />`;
+      }
+      return svgBox;
+    })
+    .join("");
+  svg.style.display = "block";
+}
+
+/** Starts dragging a box if the press landed on one. */
+function startTextDrag(e: MouseEvent): boolean {
+  const target = e.target as SVGElement;
+  const index = target.dataset?.text;
+  if (index === undefined) return false;
+  const i = parseInt(index);
+  if (i !== selectedText) selectText(i);
+  textDrag = {
+    index: i,
+    part: target.dataset.part as "move" | "resize" | "rotate",
+    clientX: e.clientX,
+    clientY: e.clientY,
+    start: cloneTextBox(state.textBoxes[i]),
+    moved: false,
+  };
+  e.preventDefault();
+  return true;
+}
+
+function dragText(e: MouseEvent) {
+  if (!textDrag) return;
+  if (Math.hypot(e.clientX - textDrag.clientX, e.clientY - textDrag.clientY) > 2) {
+    textDrag.moved = true;
+  }
+  if (!textDrag.moved) return;
+
+  const rect = ($("main-canvas") as HTMLCanvasElement).getBoundingClientRect();
+  const s = textDrag.start;
+  const b = state.textBoxes[textDrag.index];
+  // Box center on screen; the canvas is scaled evenly, so angles carry over
+  const cx = rect.left + s.x * rect.width;
+  const cy = rect.top + s.y * rect.height;
+  if (textDrag.part === "move") {
+    b.x = Math.max(0, Math.min(1, s.x + (e.clientX - textDrag.clientX) / rect.width));
+    b.y = Math.max(0, Math.min(1, s.y + (e.clientY - textDrag.clientY) / rect.height));
+  } else if (textDrag.part === "resize") {
+    const from = Math.hypot(textDrag.clientX - cx, textDrag.clientY - cy);
+    const to = Math.hypot(e.clientX - cx, e.clientY - cy);
+    if (from > 0) b.size = Math.max(MIN_TEXT_SIZE, Math.min(1, (s.size * to) / from));
+    state.textStyle.size = b.size;
+    ($("text-size") as HTMLInputElement).value = String(b.size * 100);
+    syncTextLabels();
+  } else {
+    // The handle sits above the box, so pointing straight up is no rotation
+    let degrees = (Math.atan2(e.clientY - cy, e.clientX - cx) * 180) / Math.PI + 90;
+    if (e.shiftKey) degrees = Math.round(degrees / 15) * 15;
+    b.rotation = ((((degrees + 180) % 360) + 360) % 360) - 180;
+  }
+  renderCanvas();
+}
+
+function finishTextDrag() {
+  if (!textDrag) return;
+  const { part, moved } = textDrag;
+  textDrag = null;
+  if (moved) {
+    recordHistory(part === "move" ? "Move text" : part === "resize" ? "Resize text" : "Rotate text");
+  }
+}
+
+// ─── Crop Handling ───────────────────────────────────────────────────────────
+
+/**
+ * `snap` is the snapping distance in normalized units per axis, or null while
+ * snapping is off. The crop's edges, center and active guides snap onto the
+ * image edges and center; with the aspect locked, only the edge that sets
+ * the size snaps, after the other follows it.
+ */
+function handleCropDrag(dx: number, dy: number, snap: { x: number; y: number } | null) {
+  const mode = cropDragMode!;
+  let { cropX: x, cropY: y, cropW: w, cropH: h } = {
+    cropX: cropStartCropX,
+    cropY: cropStartCropY,
+    cropW: cropStartCropW,
+    cropH: cropStartCropH,
+  };
+  const fractions = cropGuideFractions();
+
+  if (mode === "move") {
+    x += dx;
+    y += dy;
+    if (snap) {
+      x += snapOffset(fractions.map((f) => x + f * w), CROP_SNAP_TARGETS, snap.x);
+      y += snapOffset(fractions.map((f) => y + f * h), CROP_SNAP_TARGETS, snap.y);
+    }
+  } else {
+    // The edges opposite the dragged ones stay put
+    let [left, top, right, bottom] = [x, y, x + w, y + h];
+    if (mode.includes("w")) left += dx;
+    if (mode.includes("e")) right += dx;
+    if (mode.includes("n")) top += dy;
+    if (mode.includes("s")) bottom += dy;
+    const horizontal = mode.includes("e") || mode.includes("w");
+    const vertical = mode.includes("n") || mode.includes("s");
+    const locked = state.lockAspect;
+
+    if (snap && horizontal) {
+      if (mode.includes("w")) left = snapEdge(right, left, fractions, snap.x);
+      else right = snapEdge(left, right, fractions, snap.x);
+    }
+    if (snap && vertical && !(locked && horizontal)) {
+      if (mode.includes("n")) top = snapEdge(bottom, top, fractions, snap.y);
+      else bottom = snapEdge(top, bottom, fractions, snap.y);
+    }
+    x = left;
+    y = top;
+    w = right - left;
+    h = bottom - top;
+
+    // Enforce aspect ratio if locked
+    if (locked) {
+      const aspect = state.targetWidth / state.targetHeight;
+      if (horizontal) {
+        h = w / aspect;
+        if (mode.includes("n")) y = bottom - h;
+      } else {
+        w = h * aspect;
+      }
+    }
+  }
+
+  // Clamp
+  w = Math.max(0.02, Math.min(1, w));
+  h = Math.max(0.02, Math.min(1, h));
+  x = Math.max(0, Math.min(1 - w, x));
+  y = Math.max(0, Math.min(1 - h, y));
+
+  state.cropX = x;
+  state.cropY = y;
+  state.cropW = w;
+  state.cropH = h;
+}
+
+/** Image edges and center, normalized */
+const CROP_SNAP_TARGETS = [0, 0.5, 1];
+
+/** The crop's edges, center and active grid guides, as fractions of the crop rect. */
+function cropGuideFractions(): number[] {
+  const fractions = [0, 0.5, 1];
+  if (cropGuides.has("thirds")) fractions.push(1 / 3, 2 / 3);
+  if (cropGuides.has("phi")) fractions.push(1 - 1 / PHI, 1 / PHI);
+  return fractions;
+}
+
+/** Shift that moves the closest value onto a target, or 0 if none is near enough. */
+function snapOffset(values: number[], targets: number[], threshold: number): number {
+  let offset = 0;
+  let closest = threshold;
+  for (const v of values) {
+    for (const t of targets) {
+      if (Math.abs(t - v) < closest) {
+        closest = Math.abs(t - v);
+        offset = t - v;
+      }
+    }
+  }
+  return offset;
+}
+
+/**
+ * Where to put the dragged edge `moving` so the closest guide between it and
+ * the `fixed` edge lands on a snap target; `moving` itself if none is near.
+ */
+function snapEdge(fixed: number, moving: number, fractions: number[], threshold: number): number {
+  let snapped = moving;
+  let closest = threshold;
+  for (const f of fractions) {
+    if (f === 0) continue; // the fixed edge
+    const v = fixed + f * (moving - fixed);
+    for (const t of CROP_SNAP_TARGETS) {
+      if (Math.abs(t - v) < closest) {
+        closest = Math.abs(t - v);
+        snapped = fixed + (t - fixed) / f;
+      }
+    }
+  }
+  return snapped;
+}
+
+/**
+ * Draws the enabled guides into the crop rect's SVG. The SVG uses a 100×100
+ * viewBox stretched to the rect, so it only needs redrawing when the
+ * selection of guides changes.
+ */
+function renderCropGuides() {
+  const lines: number[][] = [];
+  const grid = (f: number) => {
+    lines.push([f * 100, 0, f * 100, 100], [0, f * 100, 100, f * 100]);
+  };
+  if (cropGuides.has("thirds")) [1 / 3, 2 / 3].forEach(grid);
+  if (cropGuides.has("phi")) [1 - 1 / PHI, 1 / PHI].forEach(grid);
+  if (cropGuides.has("center")) grid(0.5);
+  if (cropGuides.has("diagonals")) lines.push([0, 0, 100, 100], [100, 0, 0, 100]);
+
+  let svg = lines
+    .map(([x1, y1, x2, y2]) => `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" />`)
+    .join("");
+  if (cropGuides.has("spiral")) {
+    const flip = [
+      "",
+      "translate(100 0) scale(-1 1)",
+      "translate(100 100) scale(-1 -1)",
+      "translate(0 100) scale(1 -1)",
+    ][spiralOrientation];
+    svg += `<path d="${goldenSpiralPath()}" transform="${flip}" />`;
+  }
+  $("crop-guides").innerHTML = svg;
+}
+
+/**
+ * Golden spiral built from quarter arcs in a φ×1 rectangle, cutting off a
+ * square on the left, top, right and bottom in turn, then stretched to the
+ * 100×100 viewBox.
+ */
+function goldenSpiralPath(): string {
+  const sx = 100 / PHI;
+  const sy = 100;
+  const pt = (px: number, py: number) => `${(px * sx).toFixed(2)} ${(py * sy).toFixed(2)}`;
+  let x = 0;
+  let y = 0;
+  let w = PHI;
+  let h = 1;
+  let d = `M ${pt(0, 1)}`;
+  for (let i = 0; i < 10; i++) {
+    const side = Math.min(w, h);
+    let end: string;
+    switch (i % 4) {
+      case 0:
+        end = pt(x + side, y);
+        x += side;
+        w -= side;
+        break;
+      case 1:
+        end = pt(x + side, y + side);
+        y += side;
+        h -= side;
+        break;
+      case 2:
+        end = pt(x + w - side, y + h);
+        w -= side;
+        break;
+      default:
+        end = pt(x, y + h - side);
+        h -= side;
+        break;
+    }
+    d += ` A ${(side * sx).toFixed(2)} ${(side * sy).toFixed(2)} 0 0 1 ${end}`;
+  }
+  return d;
+}
+
+function updateCropOverlay() {
+  if (!loadedImage) return;
+
+  const canvas = $("main-canvas") as HTMLCanvasElement;
+  const rect = canvas.getBoundingClientRect();
+  const container = $("canvas-container");
+  const containerRect = container.getBoundingClientRect();
+
+  const cropRect = $("crop-rect");
+  const offsetX = rect.left - containerRect.left;
+  const offsetY = rect.top - containerRect.top;
+
+  cropRect.style.left = offsetX + state.cropX * rect.width + "px";
+  cropRect.style.top = offsetY + state.cropY * rect.height + "px";
+  cropRect.style.width = state.cropW * rect.width + "px";
+  cropRect.style.height = state.cropH * rect.height + "px";
+}
+
+function onCropPresetChange() {
+  const preset = ($("crop-preset") as HTMLSelectElement).value;
+  if (preset === "free") {
+    state.lockAspect = false;
+    ($("lock-aspect") as HTMLInputElement).checked = false;
+    recordHistory("Crop preset: Free");
+    return;
+  }
+  if (preset === "custom") return;
+
+  if (preset.startsWith("user:")) {
+    const user = cropPresets.find((p) => p.id === preset.slice(5));
+    if (!user) return;
+    if (user.exact) {
+      state.targetWidth = user.width;
+      state.targetHeight = user.height;
+      ($("crop-width") as HTMLInputElement).value = String(user.width);
+      ($("crop-height") as HTMLInputElement).value = String(user.height);
+    }
+    state.scaleMode = user.scale_mode;
+    ($("scale-mode") as HTMLSelectElement).value = user.scale_mode;
+    syncPadControls();
+    applyCropAspect(user.width, user.height, !user.exact);
+    recordHistory(`Crop preset: ${user.name}`);
+    return;
+  }
+
+  const [w, h] = preset.split(":").map(Number);
+  applyCropAspect(w, h, true);
+  recordHistory(`Crop preset: ${preset}`);
+}
+
+let placingCrop = false;
+
+/**
+ * Places the crop around the subject (`smartcrop.rs`), as large as fits at
+ * the locked target aspect, or else at the aspect of the current crop. A
+ * target size left empty falls back to the crop, and a degenerate crop to
+ * the whole image.
+ */
+async function smartCrop() {
+  if (!state.sourcePath || placingCrop) return;
+  const isRotated = state.rotation === 90 || state.rotation === 270;
+  const W = isRotated ? state.imageHeight : state.imageWidth;
+  const H = isRotated ? state.imageWidth : state.imageHeight;
+  const usable = (r: number) => Number.isFinite(r) && r > 0;
+  const targetAspect = state.targetWidth / state.targetHeight;
+  const cropAspect = (state.cropW * W) / (state.cropH * H);
+  const aspect =
+    state.lockAspect && usable(targetAspect) ? targetAspect : usable(cropAspect) ? cropAspect : W / H;
+  if (!usable(aspect)) return;
+
+  const button = $("btn-smart-crop") as HTMLButtonElement;
+  placingCrop = true;
+  button.disabled = true;
+  button.textContent = "Placing\u2026";
+  try {
+    const crop = await invoke<{ x: number; y: number; width: number; height: number }>("smart_crop", {
+      payload: buildExportPayload(state.sourcePath, "", "png", 100),
+      aspect,
+    });
+    state.cropX = crop.x;
+    state.cropY = crop.y;
+    state.cropW = crop.width;
+    state.cropH = crop.height;
+    updateCropOverlay();
+    recordHistory("Auto crop");
+  } catch (e: any) {
+    showToast("Failed to place crop: " + e, "error");
+  } finally {
+    placingCrop = false;
+    button.disabled = false;
+    button.textContent = "Auto";
+  }
+}
+
+/**
+ * Locks the crop rect to the `w:h` aspect, optionally deriving the target
+ * height from the current target width.
+ */
+function applyCropAspect(w: number, h: number, deriveTarget: boolean) {
+  if (deriveTarget) {
+    state.targetWidth = ($("crop-width") as HTMLInputElement).valueAsNumber || w * 100;
+    state.targetHeight = Math.round(state.targetWidth * (h / w));
+    ($("crop-height") as HTMLInputElement).value = String(state.targetHeight);
+  }
+  state.lockAspect = true;
+  ($("lock-aspect") as HTMLInputElement).checked = true;
+
+  // Adjust crop rect to match aspect
+  const aspect = w / h;
+  if (state.cropW / state.cropH > aspect) {
+    state.cropW = state.cropH * aspect;
+  } else {
+    state.cropH = state.cropW / aspect;
+  }
+  state.cropX = Math.min(state.cropX, 1 - state.cropW);
+  state.cropY = Math.min(state.cropY, 1 - state.cropH);
+  updateCropOverlay();
+}
+
+function onCropSizeChange() {
+  state.targetWidth = ($("crop-width") as HTMLInputElement).valueAsNumber || 800;
+  state.targetHeight = ($("crop-height") as HTMLInputElement).valueAsNumber || 600;
+  recordHistory("Target size");
+}
+
+// ─── Crop Presets ────────────────────────────────────────────────────────────
+//
+// User presets live in `crop_presets.json` in the app data dir and show up
+// in the preset select as `user:<id>`. Every change is saved right away.
+
+let cropPresets: CropPreset[] = [];
+
+async function loadCropPresets() {
+  try {
+    cropPresets = await invoke<CropPreset[]>("get_crop_presets");
+  } catch (_) {
+    cropPresets = [];
+  }
+  // Presets saved before ids existed get one, kept from then on
+  const seen = new Set<string>();
+  let assigned = false;
+  for (const preset of cropPresets) {
+    if (!preset.id || seen.has(preset.id)) {
+      preset.id = crypto.randomUUID();
+      assigned = true;
+    }
+    seen.add(preset.id);
+  }
+  if (assigned) await saveCropPresets();
+  else renderCropPresetOptions();
+}
+
+async function saveCropPresets() {
+  try {
+    await invoke("set_crop_presets", { presets: cropPresets });
+  } catch (e: any) {
+    showToast("Failed to save presets: " + e, "error");
+  }
+  renderCropPresetOptions();
+  renderCropPresetsList();
+}
+
+function describeCropPreset(p: CropPreset): string {
+  return p.exact ? `${p.width}×${p.height}` : `${p.width}:${p.height}`;
+}
+
+function renderCropPresetOptions() {
+  const select = $("crop-preset") as HTMLSelectElement;
+  const selected = select.value;
+  const group = $("crop-preset-user");
+  group.innerHTML = cropPresets
+    .map(
+      (p) =>
+        `<option value="user:${escapeHtml(p.id)}">${escapeHtml(p.name)} (${describeCropPreset(p)})</option>`
+    )
+    .join("");
+  group.style.display = cropPresets.length ? "" : "none";
+  // A deleted preset leaves the select on "Custom"
+  select.value = selected;
+  if (select.value !== selected) select.value = "custom";
+}
+
+function showCropPresetsModal() {
+  renderCropPresetsList();
+  $("crop-presets-modal").style.display = "flex";
+}
+
+function renderCropPresetsList() {
+  const list = $("crop-presets-list");
+  if (cropPresets.length === 0) {
+    list.innerHTML = '<div class="recents-empty">No saved presets</div>';
+    return;
+  }
+  list.innerHTML = cropPresets
+    .map(
+      (p, i) => `<div class="preset-item" data-index="${i}">
+          <input type="text" value="${escapeHtml(p.name)}" spellcheck="false" />
+          <small>${describeCropPreset(p)}</small>
+          <button class="layer-btn" data-action="up" ${i === 0 ? "disabled" : ""} title="Move up">&#9650;</button>
+          <button class="layer-btn" data-action="down" ${i === cropPresets.length - 1 ? "disabled" : ""} title="Move down">&#9660;</button>
+          <button class="layer-btn" data-action="delete" title="Delete">&#10005;</button>
+        </div>`
+    )
+    .join("");
+
+  list.querySelectorAll<HTMLDivElement>(".preset-item").forEach((item) => {
+    const index = parseInt(item.dataset.index!);
+    item.querySelector<HTMLInputElement>("input")!.addEventListener("change", (e) => {
+      const name = (e.target as HTMLInputElement).value.trim();
+      if (!name) return;
+      cropPresets[index].name = name;
+      saveCropPresets();
+    });
+    item.querySelectorAll<HTMLButtonElement>(".layer-btn").forEach((btn) => {
+      btn.addEventListener("click", () => onCropPresetAction(index, btn.dataset.action!));
+    });
+  });
+}
+
+function onCropPresetAction(index: number, action: string) {
+  if (action === "delete") {
+    cropPresets.splice(index, 1);
+  } else if (action === "up" || action === "down") {
+    const target = action === "up" ? index - 1 : index + 1;
+    if (target < 0 || target >= cropPresets.length) return;
+    [cropPresets[index], cropPresets[target]] = [cropPresets[target], cropPresets[index]];
+  }
+  saveCropPresets();
+}
+
+function addCropPreset() {
+  const exact = ($("crop-preset-exact") as HTMLInputElement).checked;
+  let width = state.targetWidth;
+  let height = state.targetHeight;
+  if (!exact) {
+    // Store the reduced ratio, e.g. 1920×1080 -> 16:9
+    const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : a);
+    const d = gcd(width, height) || 1;
+    width /= d;
+    height /= d;
+  }
+  const input = $("crop-preset-name") as HTMLInputElement;
+  const name = input.value.trim() || (exact ? `${width}×${height}` : `${width}:${height}`);
+  cropPresets.push({ id: crypto.randomUUID(), name, width, height, exact, scale_mode: state.scaleMode });
+  input.value = "";
+  saveCropPresets();
+  showToast(`Preset "${name}" saved`, "success");
+}
+
+async function importCropPresets() {
+  const path = await dialogOpen({
+    filters: [{ name: "Crop Presets", extensions: ["json"] }],
+    multiple: false,
+    directory: false,
+  });
+  if (!path) return;
+  try {
+    const imported = (await invoke<CropPreset[]>("import_crop_presets", { path })).filter(
+      (p) => p.width > 0 && p.height > 0
+    );
+    // Fresh ids, so importing a file twice can't duplicate one
+    cropPresets.push(...imported.map((p) => ({ ...p, id: crypto.randomUUID() })));
+    await saveCropPresets();
+    showToast(`Imported ${imported.length} preset${imported.length === 1 ? "" : "s"}`, "success");
+  } catch (e: any) {
+    showToast("Import failed: " + e, "error");
+  }
+}
+
+async function exportCropPresets() {
+  if (cropPresets.length === 0) {
+    showToast("No presets to export", "error");
+    return;
+  }
+  const path = await dialogSave({
+    filters: [{ name: "Crop Presets", extensions: ["json"] }],
+    defaultPath: "crop-presets.json",
+  });
+  if (!path) return;
+  try {
+    await invoke("export_crop_presets", { path, presets: cropPresets });
+    showToast("Presets exported to " + path, "success");
+  } catch (e: any) {
+    showToast("Export failed: " + e, "error");
+  }
+}
+
+// ─── History ─────────────────────────────────────────────────────────────────
+//
+// Every edit pushes a snapshot of the edit state (including the operation
+// stack) plus the rendered stack it applies to, so undo never re-renders.
+// Undo/redo and the history panel move between snapshots.
+
+function snapshotEntry(label: string): HistoryEntry | null {
+  if (!currentSource) return null;
+  return { label, source: currentSource, edits: captureRecipe("") };
+}
+
+function resetHistory(label: string) {
+  const entry = snapshotEntry(label);
+  history = entry ? [entry] : [];
+  historyIndex = history.length - 1;
+  pruneMasks();
+  renderHistoryPanel();
+}
+
+/** Records the current state as a new step, discarding any redo steps. */
+function recordHistory(label: string) {
+  dropStaleMask();
+  const entry = snapshotEntry(label);
+  if (!entry) return;
+
+  const current = history[historyIndex];
+  if (
+    current &&
+    current.source === entry.source &&
+    JSON.stringify(current.edits) === JSON.stringify(entry.edits)
+  ) {
+    return;
+  }
+
+  history = history.slice(0, historyIndex + 1);
+  history.push(entry);
+  if (history.length > MAX_HISTORY) history.shift();
+  historyIndex = history.length - 1;
+  pruneMasks();
+  renderHistoryPanel();
+}
+
+function undo() {
+  if (historyIndex > 0) jumpToHistory(historyIndex - 1);
+}
+
+function redo() {
+  if (historyIndex < history.length - 1) jumpToHistory(historyIndex + 1);
+}
+
+function jumpToHistory(index: number) {
+  const entry = history[index];
+  if (!entry || index === historyIndex) return;
+  historyIndex = index;
+
+  // Brush settings are tool preferences, not edits
+  const brushSize = state.pixelateBrushSize;
+  setEditState(entry.edits);
+  state.pixelateBrushSize = brushSize;
+  syncEditControls();
+  renderOperationsPanel();
+
+  if (entry.source !== currentSource) {
+    setBaseImage(entry.source);
+  } else {
+    renderCanvas();
+    if (state.tool === "crop") updateCropOverlay();
+  }
+  renderHistoryPanel();
+}
+
+function renderHistoryPanel() {
+  const list = $("history-list");
+  if (history.length === 0) {
+    list.innerHTML = '<div class="recents-empty">No history</div>';
+  } else {
+    list.innerHTML = history
+      .map((entry, i) => {
+        const cls = i === historyIndex ? "current" : i > historyIndex ? "redo" : "";
+        return `<div class="history-item ${cls}" data-index="${i}">${escapeHtml(entry.label)}</div>`;
+      })
+      .join("");
+    list.querySelectorAll<HTMLDivElement>(".history-item").forEach((item) => {
+      item.addEventListener("click", () => jumpToHistory(parseInt(item.dataset.index!)));
+    });
+    list.querySelector(".current")?.scrollIntoView({ block: "nearest" });
+  }
+  ($("btn-undo") as HTMLButtonElement).disabled = historyIndex <= 0;
+  ($("btn-redo") as HTMLButtonElement).disabled = historyIndex >= history.length - 1;
+}
+
+// ─── Resize ──────────────────────────────────────────────────────────────
+
+function onResizeWidthChange() {
+  const w = ($("resize-width") as HTMLInputElement).valueAsNumber;
+  if (!w || w < 1) return;
+  state.resizeW = w;
+  if (state.resizeLockAspect && state.originalWidth > 0) {
+    const aspect = state.originalHeight / state.originalWidth;
+    state.resizeH = Math.round(w * aspect);
+    ($("resize-height") as HTMLInputElement).value = String(state.resizeH);
+  }
+}
+
+function onResizeHeightChange() {
+  const h = ($("resize-height") as HTMLInputElement).valueAsNumber;
+  if (!h || h < 1) return;
+  state.resizeH = h;
+  if (state.resizeLockAspect && state.originalHeight > 0) {
+    const aspect = state.originalWidth / state.originalHeight;
+    state.resizeW = Math.round(h * aspect);
+    ($("resize-width") as HTMLInputElement).value = String(state.resizeW);
+  }
+}
+
+function applyResizePreset(percent: number) {
+  if (state.originalWidth === 0 || state.originalHeight === 0) return;
+  state.resizeW = Math.round(state.originalWidth * percent / 100);
+  state.resizeH = Math.round(state.originalHeight * percent / 100);
+  ($("resize-width") as HTMLInputElement).value = String(state.resizeW);
+  ($("resize-height") as HTMLInputElement).value = String(state.resizeH);
+}
+
+async function applyResize() {
+  if (!state.sourcePath) return;
+
+  const w = ($("resize-width") as HTMLInputElement).valueAsNumber;
+  const h = ($("resize-height") as HTMLInputElement).valueAsNumber;
+  if (!w || !h || w < 1 || h < 1) {
+    showToast("Enter valid width and height", "error");
+    return;
+  }
+
+  if (w === state.imageWidth && h === state.imageHeight) {
+    showToast("Dimensions unchanged", "error");
+    return;
+  }
+
+  const operations = [
+    ...state.operations,
+    createOperation({ kind: "resize", width: w, height: h }),
+  ];
+  const ok = await setOperations(operations, `Resize to ${w} \u00d7 ${h}`, {
+    afterRender: (base) => {
+      state.targetWidth = base.width;
+      state.targetHeight = base.height;
+      ($("crop-width") as HTMLInputElement).value = String(base.width);
+      ($("crop-height") as HTMLInputElement).value = String(base.height);
+    },
+  });
+  if (ok) showToast(`Resized to ${w} \u00d7 ${h}`, "success");
+}
+
+async function restoreOriginal() {
+  if (!originalSource) {
+    showToast("No original image to restore", "error");
+    return;
+  }
+
+  if (state.operations.length === 0) {
+    // Just reset the input fields to current dimensions
+    state.resizeW = state.imageWidth;
+    state.resizeH = state.imageHeight;
+    ($("resize-width") as HTMLInputElement).value = String(state.imageWidth);
+    ($("resize-height") as HTMLInputElement).value = String(state.imageHeight);
+    showToast("Fields reset", "success");
+    return;
+  }
+
+  const ok = await setOperations([], "Restore original", {
+    afterRender: (base) => resetLiveEdits(base.width, base.height),
+    fit: true,
+  });
+  if (ok) showToast("Original image restored", "success");
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+function showExportModal() {
+  if (!state.sourcePath) return;
+  $("export-size-info").textContent = `${state.targetWidth} × ${state.targetHeight}`;
+  $("export-fit-result").textContent = "";
+  checkedFitKey = null;
+  scheduleExportPreview(0);
+  $("export-modal").style.display = "flex";
+}
+
+async function doExport() {
+  if (!state.sourcePath) return;
+
+  const format = ($("export-format") as HTMLSelectElement).value;
+  const { ext, label } = findFormat(format);
+  const quality = parseInt(($("export-quality") as HTMLInputElement).value);
+
+  // With a size limit, show what the search lands on before writing anything
+  if (sizeLimit()) {
+    const key = JSON.stringify(buildExportPayload(state.sourcePath, "", format, quality));
+    if (key !== checkedFitKey) {
+      if (await checkExportSize()) {
+        $("export-fit-result").textContent += " — click Export to save";
+      }
+      return;
+    }
+  }
+
+  const outputPath = await dialogSave({
+    filters: [{ name: label, extensions: [ext] }],
+    defaultPath: `export.${ext}`,
+  });
+
+  if (!outputPath) return;
+
+  $("export-modal").style.display = "none";
+
+  try {
+    const result = await invoke<ExportResult>("export_image", {
+      payload: buildExportPayload(state.sourcePath, outputPath, format, quality),
+    });
+
+    const warnings = result.redactions.filter((r) => r.status !== "ok");
+    if (result.redaction_error) {
+      showToast(`Exported to ${outputPath}, but the redaction check failed: ${result.redaction_error}`, "error");
+    } else if (warnings.length > 0) {
+      showRedactionReport(result);
+    } else if (result.warnings.length > 0) {
+      showToast(`Exported to ${outputPath}, but ${result.warnings.join("; ")}`, "error");
+    } else if (result.redactions.length > 0) {
+      showToast(`Exported to ${outputPath}, ${describeRedactions(result.redactions)}`, "success");
+    } else {
+      showToast("Exported to " + outputPath, "success");
+    }
+  } catch (e: any) {
+    showToast("Export failed: " + e, "error");
+  }
+}
+
+/**
+ * Packs the operation stack and live edit settings into an `export_image`
+ * payload for `sourcePath`.
+ */
+function buildExportPayload(
+  sourcePath: string,
+  outputPath: string,
+  format: string,
+  quality: number
+) {
+  // Masks line up with this image only, never with batch sources
+  const sameImage = sourcePath === state.sourcePath;
+  return {
+    source_path: sourcePath,
+    operations: sameImage ? state.operations : state.operations.filter((op) => op.kind !== "mask"),
+    output_path: outputPath,
+    output_format: format,
+    quality,
+    format_options: formatOptions(),
+    size_limit: sizeLimit(),
+    target_width: state.targetWidth,
+    target_height: state.targetHeight,
+    crop:
+      state.cropW < 1 || state.cropH < 1 || state.cropX > 0 || state.cropY > 0
+        ? {
+            x: state.cropX,
+            y: state.cropY,
+            width: state.cropW,
+            height: state.cropH,
+          }
+        : null,
+    rotation: state.rotation,
+    flip_h: state.flipH,
+    flip_v: state.flipV,
+    straighten: state.straighten,
+    color: state.color,
+    filters: state.filters,
+    pixelate_strokes: state.pixelateStrokes,
+    text_boxes: state.textBoxes,
+    bg_removal: state.bgEnabled
+      ? {
+          enabled: true,
+          mode: state.bgMode,
+          colors: state.bgColors,
+          tolerance: state.bgTolerance / 100,
+          region: state.bgRegion,
+          seeds: state.bgSeeds,
+          spill: state.bgSpill / 100,
+          matte: state.bgMatte,
+          mask: sameImage ? currentMask() : null,
+        }
+      : null,
+    mode: state.scaleMode,
+    pad_color: state.padColor,
+    backdrop: backdropOptions(),
+    metadata: metadataOptions(),
+  };
+}
+
+/** Shows the option panel for the selected format and the fields it uses. */
+function updateFormatOptionPanels() {
+  const format = ($("export-format") as HTMLSelectElement).value;
+  const options = formatOptions();
+  document.querySelectorAll<HTMLElement>(".format-options").forEach((panel) => {
+    panel.style.display = panel.dataset.format === format ? "block" : "none";
+  });
+  // With a size limit the quality is searched for instead of set
+  const lossy = findFormat(format).lossy(options);
+  const limited = ($("export-limit-enabled") as HTMLInputElement).checked;
+  $("export-quality-field").style.display = lossy && !limited ? "block" : "none";
+  $("export-limit-fields").style.display = limited ? "block" : "none";
+  $("export-limit-quality-field").style.display = lossy ? "block" : "none";
+  // Only these formats lose transparency, unless a backdrop fills it first
+  const backdrop = ($("export-backdrop") as HTMLSelectElement).value;
+  const flattens = format === "jpeg" || (format === "bmp" && !options.bmp_alpha);
+  $("export-background-field").style.display = flattens && backdrop === "none" ? "block" : "none";
+  $("export-backdrop-fields").style.display = backdrop === "none" ? "none" : "flex";
+  $("backdrop-to").style.display = backdrop === "gradient" ? "" : "none";
+  $("backdrop-angle-field").style.display = backdrop === "gradient" ? "" : "none";
+  updateMetadataHint();
+}
+
+const METADATA_BLOCK_NAMES: Record<MetadataBlock, string> = {
+  exif: "EXIF",
+  xmp: "XMP",
+  icc: "the color profile",
+};
+
+/** Says which of the selected metadata the chosen format can't carry. */
+function updateMetadataHint() {
+  const format = findFormat(($("export-format") as HTMLSelectElement).value);
+  const options = metadataOptions();
+  const selected: MetadataBlock[] = [];
+  if (options.mode === "keep" || (options.mode === "custom" && options.keep.some((g) => g !== "xmp"))) {
+    selected.push("exif");
+  }
+  if (options.mode === "keep" || (options.mode === "custom" && options.keep.includes("xmp"))) {
+    selected.push("xmp");
+  }
+  if (options.keep_icc) selected.push("icc");
+  const dropped = selected.filter((block) => !format.metadata.includes(block));
+  const hint = $("export-metadata-hint");
+  hint.style.display = dropped.length > 0 ? "block" : "none";
+  const names = dropped.map((block) => METADATA_BLOCK_NAMES[block]);
+  const list = names.length > 1 ? names.slice(0, -1).join(", ") + " and " + names[names.length - 1] : names[0];
+  hint.textContent = `${format.label} exports leave out ${list}.`;
+}
+
+/**
+ * Re-runs the export in memory (debounced) for the size estimate and encoded
+ * preview. Rust caches the rendered image, so quality changes only re-encode.
+ */
+function scheduleExportPreview(delay = 300) {
+  clearTimeout(exportPreviewTimer);
+  $("export-estimate").textContent = "Estimating…";
+  exportPreviewTimer = window.setTimeout(refreshExportPreview, delay);
+}
+
+async function refreshExportPreview() {
+  if (!state.sourcePath) return;
+  const generation = ++exportPreviewGeneration;
+  const format = ($("export-format") as HTMLSelectElement).value;
+  const quality = parseInt(($("export-quality") as HTMLInputElement).value);
+  const payload = buildExportPayload(state.sourcePath, "", format, quality);
+  try {
+    const preview = await invoke<ExportPreview>("preview_export", { payload });
+    if (generation !== exportPreviewGeneration) return;
+    const parts = [formatBytes(preview.bytes)];
+    if (findFormat(format).lossy(payload.format_options)) {
+      parts.push(`quality ${preview.quality}`);
+    }
+    parts.push(`${preview.width} × ${preview.height}`);
+    $("export-estimate").textContent = parts.join(", ");
+    ($("export-preview-img") as HTMLImageElement).src = preview.data_url;
+  } catch (e: any) {
+    if (generation !== exportPreviewGeneration) return;
+    $("export-estimate").textContent = "Preview failed: " + e;
+  }
+}
+
+function applyExportPreviewZoom() {
+  const zoom = ($("export-preview-zoom") as HTMLSelectElement).value;
+  const img = $("export-preview-img") as HTMLImageElement;
+  img.parentElement!.classList.toggle("fit", zoom === "fit");
+  img.style.width = zoom === "fit" ? "" : `${img.naturalWidth * parseFloat(zoom)}px`;
+}
+
+/** Size limit from the export dialog, or null when disabled. */
+function sizeLimit(): { max_bytes: number; min_quality: number } | null {
+  if (!($("export-limit-enabled") as HTMLInputElement).checked) return null;
+  const kb = parseFloat(($("export-limit-kb") as HTMLInputElement).value);
+  const minQuality = parseInt(($("export-limit-min-quality") as HTMLInputElement).value);
+  return {
+    max_bytes: Math.max(1, Math.round((kb || 0) * 1024)),
+    min_quality: Math.max(1, Math.min(100, minQuality || 1)),
+  };
+}
+
+/**
+ * Runs the size search in Rust without writing a file and shows the result.
+ * Remembers which settings were checked so the next Export click saves.
+ */
+async function checkExportSize(): Promise<boolean> {
+  if (!state.sourcePath || !sizeLimit()) return false;
+  const format = ($("export-format") as HTMLSelectElement).value;
+  const quality = parseInt(($("export-quality") as HTMLInputElement).value);
+  const payload = buildExportPayload(state.sourcePath, "", format, quality);
+  const result = $("export-fit-result");
+  result.textContent = "Searching…";
+  try {
+    const fit = await invoke<FitResult>("fit_export_size", { payload });
+    const parts = [formatBytes(fit.bytes)];
+    if (findFormat(format).lossy(payload.format_options)) parts.push(`quality ${fit.quality}`);
+    parts.push(`${fit.width} × ${fit.height}`);
+    result.textContent = parts.join(", ");
+    checkedFitKey = JSON.stringify(payload);
+    return true;
+  } catch (e: any) {
+    result.textContent = String(e);
+    checkedFitKey = null;
+    return false;
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+/** Encoder options from the export dialog; batch exports use them too. */
+function formatOptions(): FormatOptions {
+  return {
+    png_compression: ($("opt-png-compression") as HTMLSelectElement)
+      .value as FormatOptions["png_compression"],
+    jpeg_progressive: ($("opt-jpeg-progressive") as HTMLInputElement).checked,
+    jpeg_subsampling: ($("opt-jpeg-subsampling") as HTMLSelectElement)
+      .value as FormatOptions["jpeg_subsampling"],
+    webp_lossless: ($("opt-webp-lossless") as HTMLInputElement).checked,
+    avif_speed: parseInt(($("opt-avif-speed") as HTMLInputElement).value),
+    tiff_compression: ($("opt-tiff-compression") as HTMLSelectElement)
+      .value as FormatOptions["tiff_compression"],
+    bmp_alpha: ($("opt-bmp-alpha") as HTMLInputElement).checked,
+    gif_speed: parseInt(($("opt-gif-speed") as HTMLInputElement).value),
+    background: hexToRgb(($("opt-background") as HTMLInputElement).value),
+  };
+}
+
+/** Backdrop chosen in the export dialog; batch exports use it too. */
+function backdropOptions(): Backdrop {
+  const from = hexToRgb(($("backdrop-from") as HTMLInputElement).value);
+  switch (($("export-backdrop") as HTMLSelectElement).value) {
+    case "solid":
+      return { kind: "solid", color: from };
+    case "gradient":
+      return {
+        kind: "gradient",
+        from,
+        to: hexToRgb(($("backdrop-to") as HTMLInputElement).value),
+        angle: parseFloat(($("backdrop-angle") as HTMLInputElement).value) || 0,
+      };
+    default:
+      return { kind: "none" };
+  }
+}
+
+/** Metadata handling chosen in the export dialog; batch exports use it too. */
+function metadataOptions() {
+  const keep = Array.from(
+    document.querySelectorAll<HTMLInputElement>("#export-metadata-groups input:checked")
+  ).map((el) => el.value);
+  return {
+    mode: ($("export-metadata") as HTMLSelectElement).value,
+    keep,
+    keep_icc: ($("export-keep-icc") as HTMLInputElement).checked,
+  };
+}
+
+// ─── Redaction Check ─────────────────────────────────────────────────────────
+//
+// `export_image` and `export_renditions` read each written file back and
+// compare every redaction stroke's region with the same export rendered
+// without redaction. Anything other than a clear difference is shown, so no
+// stroke is skipped silently.
+
+const REDACTION_STATUS_TEXT: Record<RedactionCheck["status"], string> = {
+  ok: "Differs from the source",
+  partly_outside: "Partly outside the exported area; the rest differs",
+  outside: "Outside the exported area, not in the file",
+  unchanged: "No visible change from the source",
+  unverified: "The file could not be read back to check",
+};
+
+function describeRedactions(checks: RedactionCheck[]): string {
+  const warnings = checks.filter((c) => c.status !== "ok").length;
+  const noun = `redaction${checks.length === 1 ? "" : "s"}`;
+  return warnings === 0
+    ? `${checks.length} ${noun} verified`
+    : `${warnings} of ${checks.length} ${noun} need a look`;
+}
+
+function showRedactionReport(result: ExportResult) {
+  $("redaction-summary").textContent = `Exported to ${result.path}, ${describeRedactions(result.redactions)}.`;
+  $("redaction-list").innerHTML = result.redactions
+    .map((c) => {
+      const status = c.status === "ok" ? "ok" : c.status === "outside" ? "error" : "warning";
+      const detail =
+        c.status === "ok" || c.status === "partly_outside" || c.status === "unchanged"
+          ? `${REDACTION_STATUS_TEXT[c.status]} (Δ ${c.difference.toFixed(1)})`
+          : REDACTION_STATUS_TEXT[c.status];
+      return `<div class="batch-result ${status}"><span>${escapeHtml(c.label)}</span><small>${escapeHtml(detail)}</small></div>`;
+    })
+    .concat(
+      result.warnings.map(
+        (w) => `<div class="batch-result warning"><span>Text</span><small>${escapeHtml(w)}</small></div>`
+      )
+    )
+    .join("");
+  $("redaction-modal").style.display = "flex";
+}
+
+// ─── Batch ───────────────────────────────────────────────────────────────────
+
+let batchFiles: string[] = [];
+let batchOutputDir: string | null = null;
+let batchRunning = false;
+let batchCancelled = false;
+
+function showBatchModal() {
+  if (batchRunning) {
+    $("batch-modal").style.display = "flex";
+    return;
+  }
+  if (!state.sourcePath) return;
+  $("batch-size-info").textContent = `${state.targetWidth} × ${state.targetHeight}`;
+  syncBatchFormat();
+  $("batch-results").innerHTML = "";
+  $("batch-progress-row").style.display = "none";
+  renderBatchFiles();
+  $("batch-modal").style.display = "flex";
+}
+
+/** Shows the quality slider and the export dialog settings the chosen format uses. */
+function syncBatchFormat() {
+  const format = ($("batch-format") as HTMLSelectElement).value;
+  const options = formatOptions();
+  $("batch-quality-field").style.display = findFormat(format).lossy(options) ? "block" : "none";
+
+  const parts: string[] = [];
+  switch (format) {
+    case "png":
+      parts.push(`${options.png_compression} compression`);
+      break;
+    case "jpeg":
+      parts.push(options.jpeg_progressive ? "progressive" : "baseline");
+      parts.push(`${options.jpeg_subsampling} subsampling`);
+      break;
+    case "webp":
+      parts.push(options.webp_lossless ? "lossless" : "lossy");
+      break;
+    case "avif":
+      parts.push(`speed ${options.avif_speed}`);
+      break;
+    case "tiff":
+      parts.push(`${options.tiff_compression} compression`);
+      break;
+    case "bmp":
+      parts.push(options.bmp_alpha ? "with alpha" : "without alpha");
+      break;
+    case "gif":
+      parts.push(`speed ${options.gif_speed}`);
+      break;
+  }
+  const backdrop = backdropOptions();
+  parts.push(backdrop.kind === "none" ? "no backdrop" : `${backdrop.kind} backdrop`);
+  const metadata = $("export-metadata") as HTMLSelectElement;
+  parts.push(`metadata: ${metadata.selectedOptions[0]?.textContent?.replace(/…$/, "").toLowerCase()}`);
+  $("batch-export-settings").textContent =
+    `From the Export dialog: ${parts.join(", ")}. Its size limit is not applied.`;
+}
+
+async function addBatchFiles() {
+  const paths = await dialogOpen({
+    filters: [{ name: "Images", extensions: IMAGE_EXTENSIONS }],
+    multiple: true,
+    directory: false,
+  });
+  if (!paths) return;
+  addToBatch(Array.isArray(paths) ? paths : [paths]);
+}
+
+async function addBatchFolder() {
+  const dir = await dialogOpen({ directory: true, multiple: false });
+  if (!dir) return;
+  try {
+    const files: string[] = await invoke("list_image_files", { dir });
+    if (files.length === 0) {
+      showToast("No images found in folder", "error");
+      return;
+    }
+    addToBatch(files);
+  } catch (e: any) {
+    showToast("Failed to read folder: " + e, "error");
+  }
+}
+
+function addToBatch(paths: string[]) {
+  for (const p of paths) {
+    if (!batchFiles.includes(p)) batchFiles.push(p);
+  }
+  renderBatchFiles();
 }
 
-// ─── Pixelate Undo/Redo ──────────────────────────────────────────────────────
+async function chooseBatchOutputDir() {
+  const dir = await dialogOpen({ directory: true, multiple: false });
+  if (!dir) return;
+  batchOutputDir = dir as string;
+  $("batch-output-dir").textContent = batchOutputDir;
+}
 
-function undoStroke() {
-  if (state.pixelateStrokes.length > 0) {
-    state.pixelateRedoStack.push(state.pixelateStrokes.pop()!);
-    renderCanvas();
+function renderBatchFiles() {
+  const list = $("batch-file-list");
+  $("batch-file-count").textContent = String(batchFiles.length);
+  if (batchFiles.length === 0) {
+    list.innerHTML = '<div class="recents-empty">No files added</div>';
+    return;
   }
+  list.innerHTML = batchFiles
+    .map((f) => `<div class="batch-file">${escapeHtml(fileName(f))}</div>`)
+    .join("");
 }
 
-function redoStroke() {
-  if (state.pixelateRedoStack.length > 0) {
-    state.pixelateStrokes.push(state.pixelateRedoStack.pop()!);
-    renderCanvas();
-  }
+/**
+ * Expands a batch filename template. Supported tokens: `{name}` (source file
+ * name without extension), `{ext}`, `{w}`, `{h}` and `{index}` (1-based).
+ */
+function renderFilenameTemplate(
+  template: string,
+  sourcePath: string,
+  ext: string,
+  index: number
+): string {
+  const base = fileName(sourcePath).replace(/\.[^.]+$/, "");
+  const name = template
+    .replace(/\{name\}/g, base)
+    .replace(/\{ext\}/g, ext)
+    .replace(/\{w\}/g, String(state.targetWidth))
+    .replace(/\{h\}/g, String(state.targetHeight))
+    .replace(/\{index\}/g, String(index + 1));
+  return name.replace(/[\/\\]/g, "_");
 }
 
-// ─── Resize ──────────────────────────────────────────────────────────────
+async function runBatch() {
+  if (batchRunning) return;
+  if (batchFiles.length === 0) {
+    showToast("Add some images first", "error");
+    return;
+  }
+  if (!batchOutputDir) {
+    showToast("Choose an output folder", "error");
+    return;
+  }
 
-function onResizeWidthChange() {
-  const w = ($("resize-width") as HTMLInputElement).valueAsNumber;
-  if (!w || w < 1) return;
-  state.resizeW = w;
-  if (state.resizeLockAspect && state.originalWidth > 0) {
-    const aspect = state.originalHeight / state.originalWidth;
-    state.resizeH = Math.round(w * aspect);
-    ($("resize-height") as HTMLInputElement).value = String(state.resizeH);
+  const format = ($("batch-format") as HTMLSelectElement).value;
+  const { ext } = findFormat(format);
+  const quality = parseInt(($("batch-quality") as HTMLInputElement).value);
+  // The export dialog settings shown in the panel, fixed for the whole run
+  const settings = {
+    format_options: formatOptions(),
+    backdrop: backdropOptions(),
+    metadata: metadataOptions(),
+    // The size limit is checked and previewed in the export dialog only
+    size_limit: null,
+  };
+  const template = ($("batch-template") as HTMLInputElement).value.trim() || "{name}.{ext}";
+  const outputDir = batchOutputDir;
+  const outputs = batchFiles.map((source, i) =>
+    joinPath(outputDir, renderFilenameTemplate(template, source, ext, i))
+  );
+  if (!(await checkBatchOutputs(outputs))) return;
+
+  batchRunning = true;
+  batchCancelled = false;
+  setBatchControlsRunning(true);
+
+  const results = $("batch-results");
+  results.innerHTML = "";
+  const progress = $("batch-progress") as HTMLProgressElement;
+  progress.max = batchFiles.length;
+  progress.value = 0;
+  $("batch-progress-row").style.display = "flex";
+
+  let done = 0;
+  let failed = 0;
+  for (let i = 0; i < batchFiles.length; i++) {
+    if (batchCancelled) break;
+    const source = batchFiles[i];
+    $("batch-progress-label").textContent = `${i + 1} / ${batchFiles.length}`;
+    const outputPath = outputs[i];
+    try {
+      const result = await invoke<ExportResult>("export_image", {
+        payload: { ...buildExportPayload(source, outputPath, format, quality), ...settings },
+      });
+      done++;
+      const warnings = result.redactions.filter((r) => r.status !== "ok");
+      appendBatchResult(
+        source,
+        warnings.length > 0 || result.redaction_error || result.warnings.length > 0 ? "warning" : "ok",
+        result.redaction_error
+          ? `${fileName(outputPath)} — redaction check failed: ${result.redaction_error}`
+          : result.redactions.length > 0
+            ? `${fileName(outputPath)} — ${describeRedactions(result.redactions)}`
+            : result.warnings.length > 0
+              ? `${fileName(outputPath)} — ${result.warnings.join("; ")}`
+              : fileName(outputPath)
+      );
+    } catch (e: any) {
+      failed++;
+      appendBatchResult(source, "error", String(e));
+    }
+    progress.value = i + 1;
   }
+
+  const skipped = batchFiles.length - done - failed;
+  $("batch-progress-label").textContent = batchCancelled
+    ? `Cancelled — ${done} exported, ${failed} failed, ${skipped} skipped`
+    : `Done — ${done} exported, ${failed} failed`;
+
+  batchRunning = false;
+  setBatchControlsRunning(false);
 }
 
-function onResizeHeightChange() {
-  const h = ($("resize-height") as HTMLInputElement).valueAsNumber;
-  if (!h || h < 1) return;
-  state.resizeH = h;
-  if (state.resizeLockAspect && state.originalHeight > 0) {
-    const aspect = state.originalWidth / state.originalHeight;
-    state.resizeW = Math.round(h * aspect);
-    ($("resize-width") as HTMLInputElement).value = String(state.resizeW);
+/**
+ * Refuses output paths that collide with each other or with a source file,
+ * and asks before overwriting files that already exist.
+ */
+async function checkBatchOutputs(outputs: string[]): Promise<boolean> {
+  // Compared case-insensitively, as the default macOS and Windows file systems do
+  const key = (path: string) => path.replace(/\\/g, "/").toLowerCase();
+  const seen = new Set<string>();
+  const duplicate = outputs.find((p) => {
+    if (seen.has(key(p))) return true;
+    seen.add(key(p));
+    return false;
+  });
+  if (duplicate) {
+    showToast(
+      `Several files would be written to ${fileName(duplicate)}; add {name} or {index} to the template`,
+      "error"
+    );
+    return false;
   }
+  const sources = new Set(batchFiles.map(key));
+  const original = outputs.find((p) => sources.has(key(p)));
+  if (original) {
+    showToast(
+      `The template would overwrite the original ${fileName(original)}; choose another folder or template`,
+      "error"
+    );
+    return false;
+  }
+  const existing = (await Promise.all(outputs.map((p) => exists(p).catch(() => false)))).filter(
+    Boolean
+  ).length;
+  if (existing === 0) return true;
+  return ask(
+    `${existing} of the output files already exist${existing === 1 ? "s" : ""} in the output folder. Overwrite ${existing === 1 ? "it" : "them"}?`,
+    { title: "Batch export", kind: "warning" }
+  );
 }
 
-function applyResizePreset(percent: number) {
-  if (state.originalWidth === 0 || state.originalHeight === 0) return;
-  state.resizeW = Math.round(state.originalWidth * percent / 100);
-  state.resizeH = Math.round(state.originalHeight * percent / 100);
-  ($("resize-width") as HTMLInputElement).value = String(state.resizeW);
-  ($("resize-height") as HTMLInputElement).value = String(state.resizeH);
+function appendBatchResult(source: string, status: "ok" | "warning" | "error", detail: string) {
+  const row = document.createElement("div");
+  row.className = "batch-result " + status;
+  row.innerHTML = `<span>${escapeHtml(fileName(source))}</span><small>${escapeHtml(detail)}</small>`;
+  $("batch-results").appendChild(row);
 }
 
-async function applyResize() {
-  if (!state.sourcePath) return;
+function setBatchControlsRunning(running: boolean) {
+  ($("btn-batch-start") as HTMLButtonElement).disabled = running;
+  ($("btn-batch-add-files") as HTMLButtonElement).disabled = running;
+  ($("btn-batch-add-folder") as HTMLButtonElement).disabled = running;
+  ($("btn-batch-clear") as HTMLButtonElement).disabled = running;
+  ($("btn-batch-output") as HTMLButtonElement).disabled = running;
+  $("btn-batch-cancel").style.display = running ? "inline-block" : "none";
+  $("btn-batch-close").style.display = running ? "none" : "inline-block";
+}
 
-  const w = ($("resize-width") as HTMLInputElement).valueAsNumber;
-  const h = ($("resize-height") as HTMLInputElement).valueAsNumber;
-  if (!w || !h || w < 1 || h < 1) {
-    showToast("Enter valid width and height", "error");
-    return;
+function fileName(path: string): string {
+  return path.split(/[\/\\]/).pop() || path;
+}
+
+function joinPath(dir: string, name: string): string {
+  const sep = dir.includes("\\") && !dir.includes("/") ? "\\" : "/";
+  return dir.endsWith(sep) ? dir + name : dir + sep + name;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ─── Export Profiles ─────────────────────────────────────────────────────────
+
+const DEFAULT_EXPORT_PROFILE: ExportProfile = {
+  name: "Square set",
+  renditions: [
+    { width: 1080, height: 1080, format: "jpeg", quality: 85, mode: "scale_then_crop", suffix: "_1080" },
+    { width: 540, height: 540, format: "webp", quality: 80, mode: "scale_then_crop", suffix: "_540" },
+    { width: 2160, height: 2160, format: "png", quality: 90, mode: "scale_then_crop", suffix: "_2160" },
+  ],
+};
+
+let exportProfiles: ExportProfile[] = [];
+let activeProfile = 0;
+let profileOutputDir: string | null = null;
+
+async function showProfilesModal() {
+  try {
+    exportProfiles = await invoke<ExportProfile[]>("get_export_profiles");
+  } catch (_) {
+    exportProfiles = [];
+  }
+  if (exportProfiles.length === 0) {
+    exportProfiles = [JSON.parse(JSON.stringify(DEFAULT_EXPORT_PROFILE))];
+  }
+  activeProfile = Math.min(activeProfile, exportProfiles.length - 1);
+  if (state.sourcePath) {
+    ($("profile-base-name") as HTMLInputElement).value = fileName(state.sourcePath).replace(
+      /\.[^.]+$/,
+      ""
+    );
   }
+  renderProfile();
+  $("profiles-modal").style.display = "flex";
+}
 
-  if (w === state.imageWidth && h === state.imageHeight) {
-    showToast("Dimensions unchanged", "error");
-    return;
+function renderProfile() {
+  const select = $("profile-select") as HTMLSelectElement;
+  select.innerHTML = exportProfiles
+    .map((p, i) => `<option value="${i}">${escapeHtml(p.name || "Untitled")}</option>`)
+    .join("");
+  select.value = String(activeProfile);
+  ($("profile-name") as HTMLInputElement).value = exportProfiles[activeProfile]?.name ?? "";
+  renderRenditions();
+}
+
+function renderRenditions() {
+  const list = $("profile-renditions");
+  const renditions = exportProfiles[activeProfile]?.renditions ?? [];
+  const header = `<div class="rendition-row rendition-header"><span>Width</span><span>Height</span><span>Format</span><span>Quality</span><span>Mode</span><span>Suffix</span><span></span></div>`;
+  const formatOptions = (value: string) =>
+    EXPORT_FORMATS.map(
+      (f) => `<option value="${f.id}" ${f.id === value ? "selected" : ""}>${f.label}</option>`
+    ).join("");
+  const modeOptions = (value: string) =>
+    [
+      ["scale_then_crop", "Scale + crop"],
+      ["crop_then_scale", "Crop + scale"],
+      ["fit_with_padding", "Fit + pad"],
+      ["smart", "Smart crop"],
+    ]
+      .map(([v, label]) => `<option value="${v}" ${v === value ? "selected" : ""}>${label}</option>`)
+      .join("");
+  list.innerHTML =
+    header +
+    renditions
+      .map(
+        (r, i) => `<div class="rendition-row" data-index="${i}">
+          <input type="number" data-key="width" min="1" value="${r.width}" />
+          <input type="number" data-key="height" min="1" value="${r.height}" />
+          <select data-key="format">${formatOptions(r.format)}</select>
+          <input type="number" data-key="quality" min="1" max="100" value="${r.quality}" />
+          <select data-key="mode">${modeOptions(r.mode)}</select>
+          <input type="text" data-key="suffix" value="${escapeHtml(r.suffix)}" spellcheck="false" />
+          <button data-remove="${i}" title="Remove">✕</button>
+        </div>`
+      )
+      .join("");
+}
+
+function onRenditionChange(e: Event) {
+  const input = e.target as HTMLInputElement | HTMLSelectElement;
+  const row = input.closest<HTMLElement>(".rendition-row");
+  const rendition = exportProfiles[activeProfile]?.renditions[parseInt(row?.dataset.index ?? "")];
+  if (!rendition) return;
+  const key = input.dataset.key as keyof Rendition;
+  if (key === "format" || key === "mode" || key === "suffix") {
+    rendition[key] = input.value;
+  } else if (key === "quality") {
+    rendition.quality = Math.max(1, Math.min(100, parseInt(input.value) || 90));
+  } else if (key === "width" || key === "height") {
+    rendition[key] = Math.max(1, parseInt(input.value) || 1);
   }
+}
 
-  try {
-    const info: ImageInfo = await invoke("apply_edits", {
-      payload: {
-        source_path: state.sourcePath,
-        crop: null,
-        rotation: 0,
-        flip_h: false,
-        flip_v: false,
-        grayscale: false,
-        brightness: 0.0,
-        contrast: 0.0,
-        pixelate_strokes: [],
-        pixelate_block_size: state.pixelateBlockSize,
-        resize_width: w,
-        resize_height: h,
-      },
-    });
+function addRendition() {
+  const profile = exportProfiles[activeProfile];
+  if (!profile) return;
+  profile.renditions.push({
+    width: state.targetWidth,
+    height: state.targetHeight,
+    format: "jpeg",
+    quality: 85,
+    mode: state.scaleMode,
+    suffix: `_${state.targetWidth}`,
+  });
+  renderRenditions();
+}
 
-    const appliedPath: string = await invoke("get_applied_path");
-    state.sourcePath = appliedPath;
-    state.imageWidth = info.width;
-    state.imageHeight = info.height;
-    state.resizeW = info.width;
-    state.resizeH = info.height;
-    state.originalWidth = info.width;
-    state.originalHeight = info.height;
-    state.targetWidth = info.width;
-    state.targetHeight = info.height;
-
-    ($("resize-width") as HTMLInputElement).value = String(info.width);
-    ($("resize-height") as HTMLInputElement).value = String(info.height);
-    $("resize-current-size").textContent = `${info.width} \u00d7 ${info.height}`;
-    ($("crop-width") as HTMLInputElement).value = String(info.width);
-    ($("crop-height") as HTMLInputElement).value = String(info.height);
-    $("image-info").textContent = `${info.width} \u00d7 ${info.height} \u2014 Applied`;
+function newProfile() {
+  exportProfiles.push({ name: "New profile", renditions: [] });
+  activeProfile = exportProfiles.length - 1;
+  addRendition();
+  renderProfile();
+}
 
-    const img = new Image();
-    img.onload = () => {
-      loadedImage = img;
-      renderCanvas();
-      if (state.tool === "crop") updateCropOverlay();
-    };
-    img.src = info.data_url;
+function deleteProfile() {
+  if (exportProfiles.length === 0) return;
+  exportProfiles.splice(activeProfile, 1);
+  activeProfile = Math.max(0, activeProfile - 1);
+  renderProfile();
+}
 
-    showToast(`Resized to ${info.width} \u00d7 ${info.height}`, "success");
+async function saveProfiles() {
+  try {
+    await invoke("set_export_profiles", { profiles: exportProfiles });
+    showToast("Export profiles saved", "success");
   } catch (e: any) {
-    showToast("Resize failed: " + e, "error");
+    showToast("Failed to save profiles: " + e, "error");
   }
 }
 
-async function restoreOriginal() {
-  if (!state.originalPath) {
-    showToast("No original image to restore", "error");
+async function chooseProfileOutputDir() {
+  const dir = await dialogOpen({ directory: true, multiple: false });
+  if (!dir) return;
+  profileOutputDir = dir as string;
+  $("profile-output-dir").textContent = profileOutputDir;
+}
+
+async function runProfile() {
+  if (!state.sourcePath) return;
+  const profile = exportProfiles[activeProfile];
+  if (!profile || profile.renditions.length === 0) {
+    showToast("Add at least one rendition", "error");
     return;
   }
-
-  if (state.sourcePath === state.originalPath) {
-    // Just reset the input fields to current dimensions
-    state.resizeW = state.imageWidth;
-    state.resizeH = state.imageHeight;
-    ($("resize-width") as HTMLInputElement).value = String(state.imageWidth);
-    ($("resize-height") as HTMLInputElement).value = String(state.imageHeight);
-    showToast("Fields reset", "success");
+  if (!profileOutputDir) {
+    showToast("Choose an output folder", "error");
     return;
   }
+  const baseName = ($("profile-base-name") as HTMLInputElement).value.trim() || "export";
 
+  const button = $("btn-profile-run") as HTMLButtonElement;
+  button.disabled = true;
   try {
-    await loadImage(state.originalPath);
-    showToast("Original image restored", "success");
+    const written = await invoke<ExportResult[]>("export_renditions", {
+      // Target size, format and quality come from each rendition
+      payload: buildExportPayload(state.sourcePath, "", "png", 90),
+      renditions: profile.renditions,
+      outputDir: profileOutputDir,
+      baseName,
+    });
+    const exported = `Exported ${written.length} file${written.length === 1 ? "" : "s"}`;
+    const failed = written.find((r) => r.redaction_error);
+    // One report for all files, each stroke labeled with its file
+    const redactions = written.flatMap((r) =>
+      r.redactions.map((c) => ({ ...c, label: `${fileName(r.path)}: ${c.label}` }))
+    );
+    // Every rendition is drawn from the same edits, so they share the text warnings
+    const textWarnings = written[0]?.warnings ?? [];
+    if (failed) {
+      showToast(`${exported}, but the redaction check failed: ${failed.redaction_error}`, "error");
+    } else if (redactions.some((c) => c.status !== "ok")) {
+      showRedactionReport({ path: profileOutputDir, redactions, redaction_error: null, warnings: textWarnings });
+    } else if (textWarnings.length > 0) {
+      showToast(`${exported}, but ${textWarnings.join("; ")}`, "error");
+    } else if (redactions.length > 0) {
+      showToast(`${exported}, ${describeRedactions(redactions)}`, "success");
+    } else {
+      showToast(exported, "success");
+    }
   } catch (e: any) {
-    showToast("Restore failed: " + e, "error");
+    showToast("Export failed: " + e, "error");
+  } finally {
+    button.disabled = false;
   }
 }
 
-// ─── Export ──────────────────────────────────────────────────────────────────
+// ─── Recipes ─────────────────────────────────────────────────────────────────
+
+function captureRecipe(name: string): Recipe {
+  return {
+    format: RECIPE_FORMAT,
+    version: RECIPE_VERSION,
+    name,
+    operations: cloneOperations(state.operations),
+    crop: { x: state.cropX, y: state.cropY, width: state.cropW, height: state.cropH },
+    target: {
+      width: state.targetWidth,
+      height: state.targetHeight,
+      lockAspect: state.lockAspect,
+      scaleMode: state.scaleMode,
+      padColor: state.padColor ? [...state.padColor] : null,
+    },
+    transform: {
+      rotation: state.rotation,
+      flipH: state.flipH,
+      flipV: state.flipV,
+      straighten: state.straighten,
+    },
+    adjustments: cloneColorAdjustments(state.color),
+    filters: { ...state.filters },
+    pixelate: {
+      brushSize: state.pixelateBrushSize,
+      blockSize: state.pixelateBlockSize,
+      strokes: state.pixelateStrokes.map(cloneStroke),
+    },
+    bgRemoval: {
+      enabled: state.bgEnabled,
+      mode: state.bgMode,
+      colors: state.bgColors.map((c) => [...c] as [number, number, number]),
+      tolerance: state.bgTolerance,
+      region: state.bgRegion,
+      seeds: state.bgSeeds.map(([x, y]) => [x, y] as [number, number]),
+      spill: state.bgSpill,
+      matte: { ...state.bgMatte },
+      mask: state.bgMask,
+    },
+    text: state.textBoxes.map(cloneTextBox),
+  };
+}
 
-function showExportModal() {
-  if (!state.sourcePath) return;
-  $("export-size-info").textContent = `${state.targetWidth} × ${state.targetHeight}`;
-  $("export-modal").style.display = "flex";
+/** The edits as a recipe file, without the refined mask or mask layers, which only fit this image. */
+function recipeToSave(name: string): Recipe {
+  const recipe = captureRecipe(name);
+  recipe.bgRemoval.mask = null;
+  recipe.operations = recipe.operations.filter((op) => op.kind !== "mask");
+  return recipe;
 }
 
-async function doExport() {
-  if (!state.sourcePath) return;
+async function applyRecipe(recipe: Recipe): Promise<boolean> {
+  return setOperations(
+    recipe.operations,
+    recipe.name ? `Recipe: ${recipe.name}` : "Apply recipe",
+    {
+      afterRender: () => {
+        setEditState(recipe);
+        syncEditControls();
+      },
+      fit: true,
+    }
+  );
+}
 
-  const format = ($("export-format") as HTMLSelectElement).value;
-  const ext = format === "jpeg" ? "jpg" : "png";
-  const quality = parseInt(($("jpeg-quality") as HTMLInputElement).value);
+function setEditState(recipe: Recipe) {
+  state.operations = cloneOperations(recipe.operations);
+  state.cropX = recipe.crop.x;
+  state.cropY = recipe.crop.y;
+  state.cropW = Math.min(recipe.crop.width, 1 - recipe.crop.x);
+  state.cropH = Math.min(recipe.crop.height, 1 - recipe.crop.y);
+  state.targetWidth = recipe.target.width;
+  state.targetHeight = recipe.target.height;
+  state.lockAspect = recipe.target.lockAspect;
+  state.scaleMode = recipe.target.scaleMode;
+  state.padColor = recipe.target.padColor ? [...recipe.target.padColor] : null;
+  state.rotation = recipe.transform.rotation;
+  state.flipH = recipe.transform.flipH;
+  state.flipV = recipe.transform.flipV;
+  state.straighten = recipe.transform.straighten;
+  state.color = cloneColorAdjustments(recipe.adjustments);
+  state.filters = { ...recipe.filters };
+  state.pixelateBrushSize = recipe.pixelate.brushSize;
+  state.pixelateBlockSize = recipe.pixelate.blockSize;
+  state.pixelateStrokes = recipe.pixelate.strokes.map(cloneStroke);
+  state.bgEnabled = recipe.bgRemoval.enabled;
+  state.bgColors = recipe.bgRemoval.colors.map((c) => [...c] as [number, number, number]);
+  state.bgTolerance = recipe.bgRemoval.tolerance;
+  state.bgRegion = recipe.bgRemoval.region;
+  state.bgSeeds = recipe.bgRemoval.seeds.map(([x, y]) => [x, y] as [number, number]);
+  state.bgSpill = recipe.bgRemoval.spill;
+  state.bgMode = recipe.bgRemoval.mode;
+  state.bgMatte = { ...recipe.bgRemoval.matte };
+  const mask = recipe.bgRemoval.mask;
+  state.bgMask = mask && refinedMasks.has(mask) ? mask : null;
+  state.textBoxes = recipe.text.map(cloneTextBox);
+}
 
-  const outputPath = await dialogSave({
-    filters: [{ name: format.toUpperCase(), extensions: [ext] }],
-    defaultPath: `export.${ext}`,
-  });
+/** Pushes edit-related state values back into the sidebar controls. */
+function syncEditControls() {
+  ($("crop-width") as HTMLInputElement).value = String(state.targetWidth);
+  ($("crop-height") as HTMLInputElement).value = String(state.targetHeight);
+  ($("lock-aspect") as HTMLInputElement).checked = state.lockAspect;
+  ($("scale-mode") as HTMLSelectElement).value = state.scaleMode;
+  syncPadControls();
+
+  syncColorControls();
+  syncFilterControls();
+  ($("edit-straighten") as HTMLInputElement).value = String(state.straighten);
+  $("straighten-val").textContent = state.straighten.toFixed(1);
+
+  ($("pixelate-size") as HTMLInputElement).value = String(state.pixelateBrushSize);
+  ($("pixelate-block") as HTMLInputElement).value = String(state.pixelateBlockSize);
+  $("pixelate-size-val").textContent = String(state.pixelateBrushSize);
+  $("pixelate-block-val").textContent = String(state.pixelateBlockSize);
+
+  ($("bg-enabled") as HTMLInputElement).checked = state.bgEnabled;
+  ($("bg-tolerance") as HTMLInputElement).value = String(state.bgTolerance);
+  $("bg-tolerance-val").textContent = String(state.bgTolerance);
+  ($("bg-spill") as HTMLInputElement).value = String(state.bgSpill);
+  $("bg-spill-val").textContent = String(state.bgSpill);
+  renderKeyColors();
+  ($("bg-threshold") as HTMLInputElement).value = String(Math.round(state.bgMatte.threshold * 100));
+  ($("bg-feather") as HTMLInputElement).value = String(state.bgMatte.feather);
+  ($("bg-refine") as HTMLInputElement).checked = state.bgMatte.refine_edges;
+  syncBgControls();
+  syncTextControls();
+}
 
-  if (!outputPath) return;
+/** Shows the pad color while the scale mode pads. */
+function syncPadControls() {
+  $("pad-field").style.display = state.scaleMode === "fit_with_padding" ? "block" : "none";
+  ($("pad-transparent") as HTMLInputElement).checked = state.padColor === null;
+  const color = $("pad-color") as HTMLInputElement;
+  if (state.padColor) color.value = rgbToHex(state.padColor);
+  color.disabled = state.padColor === null;
+}
 
-  $("export-modal").style.display = "none";
+/** Shows the settings of the chosen background removal mode. */
+function syncBgControls() {
+  ($("bg-mode") as HTMLSelectElement).value = state.bgMode;
+  $("bg-chroma-fields").style.display = state.bgMode === "chroma_key" ? "" : "none";
+  $("bg-subject-fields").style.display = state.bgMode === "subject" ? "" : "none";
+  $("bg-subject-hint").style.display = subjectModelInstalled ? "" : "none";
+  $("bg-subject-missing").style.display = subjectModelInstalled ? "none" : "";
+  ($("bg-region") as HTMLSelectElement).value = state.bgRegion;
+  $("bg-seed-fields").style.display = state.bgRegion === "seeds" ? "" : "none";
+  $("bg-seed-count").textContent = `${state.bgSeeds.length} seed${state.bgSeeds.length === 1 ? "" : "s"}`;
+  updateSeedOverlay();
+  $("bg-threshold-val").textContent = String(Math.round(state.bgMatte.threshold * 100));
+  $("bg-feather-val").textContent = state.bgMatte.feather.toFixed(1);
+  syncMaskControls();
+}
 
+function rgbToHex([r, g, b]: [number, number, number]): string {
+  return `#${[r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.replace("#", ""), 16) || 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+async function showRecipesModal() {
+  $("recipes-modal").style.display = "flex";
+  await renderRecipeLibrary();
+}
+
+async function renderRecipeLibrary() {
+  const list = $("recipes-list");
   try {
-    await invoke("export_image", {
-      payload: {
-        source_path: state.sourcePath,
-        output_path: outputPath,
-        output_format: format,
-        jpeg_quality: quality,
-        target_width: state.targetWidth,
-        target_height: state.targetHeight,
-        crop:
-          state.cropW < 1 || state.cropH < 1 || state.cropX > 0 || state.cropY > 0
-            ? {
-                x: state.cropX,
-                y: state.cropY,
-                width: state.cropW,
-                height: state.cropH,
-              }
-            : null,
-        rotation: state.rotation,
-        flip_h: state.flipH,
-        flip_v: state.flipV,
-        grayscale: state.grayscale,
-        brightness: state.brightness,
-        contrast: state.contrast,
-        pixelate_strokes: state.pixelateStrokes,
-        pixelate_block_size: state.pixelateBlockSize,
-        bg_removal: state.bgEnabled
-          ? {
-              enabled: true,
-              color: state.bgColor,
-              tolerance: state.bgTolerance / 100,
-            }
-          : null,
-        mode: state.scaleMode,
-      },
+    const entries: RecipeEntry[] = await invoke("list_recipes");
+    if (entries.length === 0) {
+      list.innerHTML = '<div class="recents-empty">No saved recipes</div>';
+      return;
+    }
+    list.innerHTML = entries
+      .map(
+        (r) => `<div class="recipe-item" data-path="${escapeHtml(r.path)}">
+          <span>${escapeHtml(r.name)}</span>
+          <button class="recipe-apply">Apply</button>
+          <button class="recipe-delete">Delete</button>
+        </div>`
+      )
+      .join("");
+    list.querySelectorAll<HTMLDivElement>(".recipe-item").forEach((item) => {
+      const path = item.dataset.path!;
+      item.querySelector(".recipe-apply")!.addEventListener("click", () =>
+        loadRecipeFromPath(path)
+      );
+      item.querySelector(".recipe-delete")!.addEventListener("click", async () => {
+        try {
+          await invoke("delete_recipe", { path });
+          await renderRecipeLibrary();
+        } catch (e: any) {
+          showToast("Delete failed: " + e, "error");
+        }
+      });
     });
+  } catch (_) {
+    list.innerHTML = '<div class="recents-empty">Failed to load recipes</div>';
+  }
+}
+
+async function saveRecipeToLibrary() {
+  if (!state.sourcePath) {
+    showToast("Open an image first", "error");
+    return;
+  }
+  const name = ($("recipe-name") as HTMLInputElement).value.trim();
+  if (!name) {
+    showToast("Enter a recipe name", "error");
+    return;
+  }
+  try {
+    const entries: RecipeEntry[] = await invoke("list_recipes");
+    const existing = entries.find((r) => r.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      const replace = await ask(`A recipe named "${existing.name}" already exists. Replace it?`, {
+        title: "Save recipe",
+        kind: "warning",
+      });
+      if (!replace) return;
+      await invoke("write_recipe", { path: existing.path, recipe: recipeToSave(name) });
+    } else {
+      await invoke("save_recipe", { name, recipe: recipeToSave(name) });
+    }
+    ($("recipe-name") as HTMLInputElement).value = "";
+    await renderRecipeLibrary();
+    showToast(`Recipe "${name}" saved`, "success");
+  } catch (e: any) {
+    showToast("Save failed: " + e, "error");
+  }
+}
 
-    showToast("Exported to " + outputPath, "success");
+async function saveRecipeToFile() {
+  if (!state.sourcePath) {
+    showToast("Open an image first", "error");
+    return;
+  }
+  // Default to saving beside the original image
+  const base = state.sourcePath.replace(/\.[^./\\]+$/, "");
+  const path = await dialogSave({
+    filters: [{ name: "PixelArgon Recipe", extensions: ["json"] }],
+    defaultPath: `${base}.recipe.json`,
+  });
+  if (!path) return;
+  const name = ($("recipe-name") as HTMLInputElement).value.trim() || fileName(base);
+  try {
+    await invoke("write_recipe", { path, recipe: recipeToSave(name) });
+    showToast("Recipe saved to " + path, "success");
   } catch (e: any) {
-    showToast("Export failed: " + e, "error");
+    showToast("Save failed: " + e, "error");
+  }
+}
+
+async function loadRecipeFromFile() {
+  const path = await dialogOpen({
+    filters: [{ name: "PixelArgon Recipe", extensions: ["json"] }],
+    multiple: false,
+    directory: false,
+  });
+  if (path) await loadRecipeFromPath(path as string);
+}
+
+async function loadRecipeFromPath(path: string) {
+  if (!state.sourcePath) {
+    showToast("Open an image first", "error");
+    return;
+  }
+  try {
+    const raw: unknown = await invoke("read_recipe", { path });
+    const recipe = parseRecipe(raw);
+    if (!(await applyRecipe(recipe))) return;
+    $("recipes-modal").style.display = "none";
+    showToast(`Recipe${recipe.name ? ` "${recipe.name}"` : ""} applied`, "success");
+  } catch (e: any) {
+    showToast("Failed to load recipe: " + (e?.message ?? e), "error");
   }
 }
 
@@ -1072,6 +4657,9 @@ async function showUpdateModal() {
 
 function onKeyDown(e: KeyboardEvent) {
   const ctrl = e.metaKey || e.ctrlKey;
+  const target = e.target as HTMLElement;
+  if (target.tagName === "TEXTAREA") return;
+  if (target.tagName === "INPUT" && (target as HTMLInputElement).type === "text") return;
 
   if (ctrl && e.key === "o") {
     e.preventDefault();
@@ -1079,115 +4667,356 @@ function onKeyDown(e: KeyboardEvent) {
   } else if (ctrl && e.key === "s") {
     e.preventDefault();
     if (state.sourcePath) showExportModal();
-  } else if (ctrl && e.shiftKey && e.key === "z") {
+  } else if (ctrl && e.shiftKey && e.key.toLowerCase() === "z") {
     e.preventDefault();
-    redoStroke();
+    redo();
   } else if (ctrl && e.key === "z") {
     e.preventDefault();
-    undoStroke();
+    undo();
   } else if (e.key === "1" && !ctrl) {
     zoomFit();
   } else if (e.key === "2" && !ctrl) {
     setZoom(1);
+  } else if (
+    (e.key === "Delete" || e.key === "Backspace") &&
+    state.tool === "text" &&
+    selectedText !== null &&
+    target.tagName !== "INPUT"
+  ) {
+    e.preventDefault();
+    deleteSelectedText();
   }
 }
 
 // ─── Apply Edits ─────────────────────────────────────────────────────────────
 
+/** Turns the live edits into layers on the operation stack, in pipeline order. */
 async function applyEdits() {
   if (!state.sourcePath) return;
 
   const hasCrop =
     state.cropX > 0 || state.cropY > 0 || state.cropW < 1 || state.cropH < 1;
 
-  const hasEdits =
-    hasCrop ||
-    state.rotation !== 0 ||
-    state.flipH ||
-    state.flipV ||
-    state.grayscale ||
-    state.brightness !== 0 ||
-    state.contrast !== 0 ||
-    state.pixelateStrokes.length > 0;
-
-  if (!hasEdits) {
+  const layers: Operation[] = [];
+  if (state.rotation !== 0 || state.flipH || state.flipV || state.straighten !== 0) {
+    layers.push(
+      createOperation({
+        kind: "rotate",
+        degrees: state.rotation,
+        flip_h: state.flipH,
+        flip_v: state.flipV,
+        angle: state.straighten,
+      })
+    );
+  }
+  if (!isColorNeutral(state.color)) {
+    layers.push(createOperation({ kind: "adjust", ...cloneColorAdjustments(state.color) }));
+  }
+  if (!isFiltersNeutral(state.filters)) {
+    layers.push(createOperation({ kind: "filter", ...state.filters }));
+  }
+  if (state.pixelateStrokes.length > 0) {
+    layers.push(
+      createOperation({
+        kind: "pixelate",
+        strokes: state.pixelateStrokes,
+      })
+    );
+  }
+  const mask = currentMask();
+  if (state.bgEnabled && mask) {
+    layers.push(createOperation({ kind: "mask", mask }));
+  } else if (state.bgEnabled) {
+    layers.push(
+      state.bgMode === "subject"
+        ? createOperation({ kind: "remove_background", ...state.bgMatte })
+        : createOperation({
+            kind: "chroma_key",
+            colors: state.bgColors.map((c) => [...c] as [number, number, number]),
+            tolerance: state.bgTolerance / 100,
+            region: state.bgRegion,
+            seeds: state.bgSeeds.map(([x, y]) => [x, y] as [number, number]),
+            spill: state.bgSpill / 100,
+          })
+    );
+  }
+  if (state.textBoxes.some((b) => b.text.trim())) {
+    layers.push(createOperation({ kind: "text", boxes: state.textBoxes.map(cloneTextBox) }));
+  }
+  if (hasCrop) {
+    layers.push(
+      createOperation({
+        kind: "crop",
+        x: state.cropX,
+        y: state.cropY,
+        width: state.cropW,
+        height: state.cropH,
+      })
+    );
+  }
+
+  if (layers.length === 0) {
     showToast("No adjustments to apply", "error");
     return;
   }
 
+  const ok = await setOperations([...state.operations, ...layers], "Apply adjustments", {
+    afterRender: (base) => {
+      state.bgEnabled = false;
+      resetLiveEdits(base.width, base.height);
+    },
+  });
+  if (ok) showToast("Adjustments applied", "success");
+}
+
+// ─── Layers ──────────────────────────────────────────────────────────────────
+
+/** Replays `operations` on the original; the result becomes the new base. */
+// Stack renders can resolve out of order; only the latest one is applied
+let operationsGeneration = 0;
+
+async function renderOperationStack(operations: Operation[]): Promise<SourceImage> {
+  if (!originalSource || !operations.some((op) => op.enabled)) {
+    return originalSource!;
+  }
+  const info: ImageInfo = await invoke("render_operations", {
+    payload: { source_path: originalSource.path, operations },
+  });
+  return { path: info.path, width: info.width, height: info.height, dataUrl: info.data_url };
+}
+
+/**
+ * Renders `operations` and, if that succeeds, makes them the current stack and
+ * records a history step. `afterRender` runs before the step is recorded.
+ */
+async function setOperations(
+  operations: Operation[],
+  label: string,
+  options: { afterRender?: (base: SourceImage) => void; fit?: boolean } = {}
+): Promise<boolean> {
+  if (!originalSource) return false;
+  const generation = ++operationsGeneration;
   try {
-    const info: ImageInfo = await invoke("apply_edits", {
-      payload: {
-        source_path: state.sourcePath,
-        crop: hasCrop
-          ? { x: state.cropX, y: state.cropY, width: state.cropW, height: state.cropH }
-          : null,
-        rotation: state.rotation,
-        flip_h: state.flipH,
-        flip_v: state.flipV,
-        grayscale: state.grayscale,
-        brightness: state.brightness,
-        contrast: state.contrast,
-        pixelate_strokes: state.pixelateStrokes,
-        pixelate_block_size: state.pixelateBlockSize,
-        resize_width: 0,
-        resize_height: 0,
-      },
+    const base = await renderOperationStack(operations);
+    if (generation !== operationsGeneration) return false;
+    state.operations = operations;
+    options.afterRender?.(base);
+    setBaseImage(base, options.fit ? zoomFit : undefined);
+    renderOperationsPanel();
+    recordHistory(label);
+    return true;
+  } catch (e: any) {
+    if (generation !== operationsGeneration) return false;
+    showToast("Failed to render layers: " + e, "error");
+    return false;
+  }
+}
+
+interface OperationField {
+  key: string;
+  label: string;
+  type: "number" | "checkbox" | "select" | "color";
+  /** Multiplier between the stored value and the value shown in the input. */
+  scale?: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: string[];
+}
+
+function operationFields(op: Operation): OperationField[] {
+  switch (op.kind) {
+    case "rotate":
+      return [
+        { key: "degrees", label: "Degrees", type: "select", options: ["0", "90", "180", "270"] },
+        { key: "flip_h", label: "Flip H", type: "checkbox" },
+        { key: "flip_v", label: "Flip V", type: "checkbox" },
+        { key: "angle", label: "Angle °", type: "number", scale: 1, min: -45, max: 45, step: 0.1 },
+      ];
+    case "crop":
+      return [
+        { key: "x", label: "X %", type: "number", scale: 100, min: 0, max: 100, step: 0.1 },
+        { key: "y", label: "Y %", type: "number", scale: 100, min: 0, max: 100, step: 0.1 },
+        { key: "width", label: "W %", type: "number", scale: 100, min: 1, max: 100, step: 0.1 },
+        { key: "height", label: "H %", type: "number", scale: 100, min: 1, max: 100, step: 0.1 },
+      ];
+    case "perspective":
+    case "resize":
+      return [
+        { key: "width", label: "Width", type: "number", min: 1, step: 1 },
+        { key: "height", label: "Height", type: "number", min: 1, step: 1 },
+      ];
+    case "adjust":
+      return [
+        { key: "grayscale", label: "Grayscale", type: "checkbox" },
+        { key: "brightness", label: "Brightness", type: "number", scale: 100, min: -100, max: 100, step: 1 },
+        { key: "contrast", label: "Contrast", type: "number", scale: 100, min: -100, max: 100, step: 1 },
+        { key: "exposure", label: "Exposure", type: "number", scale: 1, min: -5, max: 5, step: 0.1 },
+        { key: "levels_black", label: "Black", type: "number", scale: 1, min: 0, max: 254, step: 1 },
+        { key: "levels_gamma", label: "Gamma", type: "number", scale: 1, min: 0.1, max: 10, step: 0.05 },
+        { key: "levels_white", label: "White", type: "number", scale: 1, min: 1, max: 255, step: 1 },
+        { key: "temperature", label: "Temperature", type: "number", scale: 100, min: -100, max: 100, step: 1 },
+        { key: "tint", label: "Tint", type: "number", scale: 100, min: -100, max: 100, step: 1 },
+        { key: "vibrance", label: "Vibrance", type: "number", scale: 100, min: -100, max: 100, step: 1 },
+        { key: "saturation", label: "Saturation", type: "number", scale: 100, min: -100, max: 100, step: 1 },
+        { key: "hue", label: "Hue", type: "number", scale: 1, min: -180, max: 180, step: 1 },
+      ];
+    case "filter":
+      return [
+        { key: "sharpen_amount", label: "Sharpen", type: "number", scale: 100, min: 0, max: 500, step: 1 },
+        { key: "sharpen_radius", label: "Radius", type: "number", scale: 1, min: 0.1, max: 20, step: 0.1 },
+        { key: "sharpen_threshold", label: "Threshold", type: "number", scale: 1, min: 0, max: 255, step: 1 },
+        { key: "blur_radius", label: "Blur", type: "number", scale: 1, min: 0, max: 50, step: 0.1 },
+        { key: "denoise_radius", label: "Denoise", type: "number", scale: 1, min: 0, max: 5, step: 1 },
+      ];
+    case "pixelate":
+      // Settings are per stroke
+      return [];
+    case "chroma_key":
+      return [
+        { key: "tolerance", label: "Tolerance", type: "number", scale: 100, min: 0, max: 100, step: 1 },
+        { key: "region", label: "Region", type: "select", options: KEY_REGIONS },
+        { key: "spill", label: "Spill", type: "number", scale: 100, min: 0, max: 100, step: 1 },
+      ];
+    case "remove_background":
+      return [
+        { key: "threshold", label: "Threshold", type: "number", scale: 100, min: 1, max: 99, step: 1 },
+        { key: "feather", label: "Feather", type: "number", scale: 1, min: 0, max: 50, step: 0.5 },
+        { key: "refine_edges", label: "Refine edges", type: "checkbox" },
+      ];
+    case "mask":
+      // Painted in the editor
+      return [];
+    case "text":
+      // Settings are per box
+      return [];
+  }
+}
+
+function renderOperationsPanel() {
+  const list = $("layers-list");
+  if (state.operations.length === 0) {
+    list.innerHTML = '<div class="recents-empty">No layers — use Apply to add one</div>';
+    return;
+  }
+
+  list.innerHTML = state.operations
+    .map((op, i) => {
+      const editor = op.id === editingOperationId ? renderOperationEditor(op) : "";
+      return `<div class="layer-item${op.enabled ? "" : " disabled"}" data-id="${op.id}">
+          <input type="checkbox" class="layer-toggle" ${op.enabled ? "checked" : ""} title="Enable/disable" />
+          <span class="layer-label">${escapeHtml(describeOperation(op))}</span>
+          <button class="layer-btn" data-action="up" ${i === 0 ? "disabled" : ""} title="Move up">&#9650;</button>
+          <button class="layer-btn" data-action="down" ${i === state.operations.length - 1 ? "disabled" : ""} title="Move down">&#9660;</button>
+          <button class="layer-btn" data-action="edit" ${operationFields(op).length === 0 ? "disabled" : ""} title="Edit">&#9998;</button>
+          <button class="layer-btn" data-action="delete" title="Delete">&#10005;</button>
+        </div>${editor}`;
+    })
+    .join("");
+
+  list.querySelectorAll<HTMLDivElement>(".layer-item").forEach((item) => {
+    const id = parseInt(item.dataset.id!);
+    item.querySelector<HTMLInputElement>(".layer-toggle")!.addEventListener("change", (e) => {
+      const enabled = (e.target as HTMLInputElement).checked;
+      updateOperation(id, (op) => (op.enabled = enabled), enabled ? "Enable layer" : "Disable layer");
+    });
+    item.querySelectorAll<HTMLButtonElement>(".layer-btn").forEach((btn) => {
+      btn.addEventListener("click", () => onLayerAction(id, btn.dataset.action!));
     });
+  });
 
-    // Update source to the applied temp file
-    const appliedPath: string = await invoke("get_applied_path");
-    state.sourcePath = appliedPath;
-    state.imageWidth = info.width;
-    state.imageHeight = info.height;
-
-    // Reset all adjustments
-    state.rotation = 0;
-    state.flipH = false;
-    state.flipV = false;
-    state.grayscale = false;
-    state.brightness = 0;
-    state.contrast = 0;
-    state.pixelateStrokes = [];
-    state.pixelateRedoStack = [];
-    state.cropX = 0;
-    state.cropY = 0;
-    state.cropW = 1;
-    state.cropH = 1;
-    state.targetWidth = info.width;
-    state.targetHeight = info.height;
-    ($("crop-width") as HTMLInputElement).value = String(info.width);
-    ($("crop-height") as HTMLInputElement).value = String(info.height);
-
-    // Update resize fields after apply
-    state.resizeW = info.width;
-    state.resizeH = info.height;
-    state.originalWidth = info.width;
-    state.originalHeight = info.height;
-    ($("resize-width") as HTMLInputElement).value = String(info.width);
-    ($("resize-height") as HTMLInputElement).value = String(info.height);
-    $("resize-current-size").textContent = `${info.width} \u00d7 ${info.height}`;
-
-    ($("edit-brightness") as HTMLInputElement).value = "0";
-    ($("edit-contrast") as HTMLInputElement).value = "0";
-    ($("edit-grayscale") as HTMLInputElement).checked = false;
-    $("brightness-val").textContent = "0";
-    $("contrast-val").textContent = "0";
-
-    // Reload the canvas with the new image
-    const img = new Image();
-    img.onload = () => {
-      loadedImage = img;
-      $("image-info").textContent = `${info.width} × ${info.height} — Applied`;
-      renderCanvas();
-      if (state.tool === "crop") updateCropOverlay();
-    };
-    img.src = info.data_url;
+  list.querySelectorAll<HTMLInputElement | HTMLSelectElement>(".layer-editor [data-key]").forEach((input) => {
+    input.addEventListener("change", () => onLayerFieldChange(editingOperationId!, input));
+  });
+}
 
-    showToast("Adjustments applied", "success");
-  } catch (e: any) {
-    showToast("Apply failed: " + e, "error");
+function renderOperationEditor(op: Operation): string {
+  const values = op as unknown as Record<string, unknown>;
+  const fields = operationFields(op)
+    .map((f) => {
+      const value = values[f.key];
+      let input: string;
+      if (f.type === "checkbox") {
+        input = `<input type="checkbox" data-key="${f.key}" ${value ? "checked" : ""} />`;
+      } else if (f.type === "select") {
+        input = `<select data-key="${f.key}">${f.options!
+          .map((o) => `<option value="${o}" ${String(value) === o ? "selected" : ""}>${o}</option>`)
+          .join("")}</select>`;
+      } else if (f.type === "color") {
+        input = `<input type="color" data-key="${f.key}" value="${rgbToHex(value as [number, number, number])}" />`;
+      } else {
+        const shown = Math.round((value as number) * (f.scale ?? 1) * 100) / 100;
+        input = `<input type="number" data-key="${f.key}" value="${shown}"${f.min !== undefined ? ` min="${f.min}"` : ""}${f.max !== undefined ? ` max="${f.max}"` : ""}${f.step !== undefined ? ` step="${f.step}"` : ""} />`;
+      }
+      return `<div class="field"><label>${f.label}</label>${input}</div>`;
+    })
+    .join("");
+  return `<div class="layer-editor">${fields}</div>`;
+}
+
+function onLayerAction(id: number, action: string) {
+  const index = state.operations.findIndex((op) => op.id === id);
+  if (index < 0) return;
+
+  if (action === "edit") {
+    editingOperationId = editingOperationId === id ? null : id;
+    renderOperationsPanel();
+    return;
+  }
+
+  const operations = cloneOperations(state.operations);
+  if (action === "delete") {
+    operations.splice(index, 1);
+    if (editingOperationId === id) editingOperationId = null;
+    setOperations(operations, "Delete layer");
+  } else if (action === "up" || action === "down") {
+    const target = action === "up" ? index - 1 : index + 1;
+    if (target < 0 || target >= operations.length) return;
+    [operations[index], operations[target]] = [operations[target], operations[index]];
+    setOperations(operations, "Reorder layers");
+  }
+}
+
+function onLayerFieldChange(id: number, input: HTMLInputElement | HTMLSelectElement) {
+  const op = state.operations.find((o) => o.id === id);
+  if (!op) return;
+  const field = operationFields(op).find((f) => f.key === input.dataset.key);
+  if (!field) return;
+
+  let value: unknown;
+  if (field.type === "checkbox") {
+    value = (input as HTMLInputElement).checked;
+  } else if (field.type === "select") {
+    // Options are numbers, like rotation degrees, or names
+    const n = Number(input.value);
+    value = Number.isNaN(n) ? input.value : n;
+  } else if (field.type === "color") {
+    const hex = input.value.replace("#", "");
+    value = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  } else {
+    const raw = parseFloat(input.value);
+    if (!Number.isFinite(raw)) return;
+    const clamped = Math.min(field.max ?? Infinity, Math.max(field.min ?? -Infinity, raw));
+    value = field.scale ? clamped / field.scale : Math.round(clamped);
+  }
+
+  updateOperation(
+    id,
+    (o) => ((o as unknown as Record<string, unknown>)[field.key] = value),
+    `Edit ${describeOperation(op).split(" ")[0].toLowerCase()} layer`
+  );
+}
+
+function updateOperation(id: number, mutate: (op: Operation) => void, label: string) {
+  const operations = cloneOperations(state.operations);
+  const op = operations.find((o) => o.id === id);
+  if (!op) return;
+  mutate(op);
+  if (op.kind === "crop") {
+    op.width = Math.min(op.width, 1 - op.x);
+    op.height = Math.min(op.height, 1 - op.y);
   }
+  setOperations(operations, label);
 }
 
 // ─── Toast ───────────────────────────────────────────────────────────────────
@@ -1215,6 +5044,8 @@ function toggleTheme() {
   const isLight = document.documentElement.classList.toggle("light");
   $("btn-theme").textContent = isLight ? "Dark" : "Light";
   localStorage.setItem("pixelargon-theme", isLight ? "light" : "dark");
+  drawCurves();
+  drawHistogram();
 }
 
 // ─── Init ────────────────────────────────────────────────────────────────────
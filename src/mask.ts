@@ -0,0 +1,123 @@
+// ─── Background Mask ─────────────────────────────────────────────────────────
+//
+// A background removal mask refined by hand. Rust computes the chroma key or
+// subject matte once (`compute_mask`) and, at export, uses the refined mask in
+// its place (`mask.rs`). The mask is an image whose alpha is the mask, opaque
+// where the image is kept; it covers the image before the crop and is
+// stretched to it. Painting and the whole-mask operations run here.
+
+import { blurPlane } from "./filters";
+
+export type MaskBrush = "keep" | "remove";
+export type MaskView = "image" | "mask" | "overlay" | "checkerboard";
+
+export const MASK_VIEWS: MaskView[] = ["image", "mask", "overlay", "checkerboard"];
+
+/**
+ * Paints a round brush along `from`→`to` in mask pixels. Hardness 1 is a hard
+ * edge; lower values fade the outer part of the radius.
+ */
+export function paintMask(
+  ctx: CanvasRenderingContext2D,
+  from: [number, number],
+  to: [number, number],
+  radius: number,
+  hardness: number,
+  brush: MaskBrush
+) {
+  const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+  // Dabs a quarter radius apart blend into a smooth line
+  const steps = Math.max(1, Math.ceil(length / Math.max(1, radius / 4)));
+  ctx.save();
+  ctx.globalCompositeOperation = brush === "keep" ? "source-over" : "destination-out";
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const x = from[0] + (to[0] - from[0]) * t;
+    const y = from[1] + (to[1] - from[1]) * t;
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    gradient.addColorStop(0, "rgba(255, 255, 255, 1)");
+    gradient.addColorStop(Math.max(0, Math.min(1, hardness)), "rgba(255, 255, 255, 1)");
+    gradient.addColorStop(1, "rgba(255, 255, 255, 0)");
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.restore();
+}
+
+/** Softens the mask edge with a Gaussian of `sigma` pixels, in place. */
+export function featherMask(data: Uint8ClampedArray, width: number, height: number, sigma: number) {
+  if (sigma <= 0) return;
+  const plane = alphaPlane(data);
+  blurPlane(plane, width, height, sigma);
+  setAlpha(data, plane);
+}
+
+/**
+ * Grows the kept area by `r` pixels, or shrinks it for negative `r`, in
+ * place. The area outside the image counts as neither kept nor removed.
+ */
+export function growMask(data: Uint8ClampedArray, width: number, height: number, r: number) {
+  const radius = Math.round(Math.abs(r));
+  if (radius === 0) return;
+  const pick = r > 0 ? Math.max : Math.min;
+  const pad = r > 0 ? 0 : 255;
+  const plane = alphaPlane(data);
+  const tmp = new Float32Array(width * height);
+  extremaPass(plane, tmp, height, width, width, 1, radius, pick, pad);
+  extremaPass(tmp, plane, width, 1, height, width, radius, pick, pad);
+  setAlpha(data, plane);
+}
+
+/**
+ * Running max or min over a window of 2r+1 samples along each line, with the
+ * line padded by `pad` (van Herk/Gil-Werman: three comparisons per sample for
+ * any radius). Lines are laid out as in `boxPass` in `filters.ts`.
+ */
+function extremaPass(
+  src: Float32Array,
+  dst: Float32Array,
+  lines: number,
+  lineStep: number,
+  len: number,
+  step: number,
+  r: number,
+  pick: (a: number, b: number) => number,
+  pad: number
+) {
+  const k = 2 * r + 1;
+  const n = len + 2 * r;
+  // Running extremes from the start and to the end of each block of k samples
+  const fromStart = new Float32Array(n);
+  const toEnd = new Float32Array(n);
+  for (let line = 0; line < lines; line++) {
+    const start = line * lineStep;
+    const at = (i: number) => (i < r || i >= len + r ? pad : src[start + (i - r) * step]);
+    for (let i = 0; i < n; i++) {
+      fromStart[i] = i % k === 0 ? at(i) : pick(fromStart[i - 1], at(i));
+    }
+    for (let i = n - 1; i >= 0; i--) {
+      toEnd[i] = i % k === k - 1 || i === n - 1 ? at(i) : pick(toEnd[i + 1], at(i));
+    }
+    // Padded window [i, i + 2r] spans at most two blocks
+    for (let i = 0; i < len; i++) {
+      dst[start + i * step] = pick(toEnd[i], fromStart[i + 2 * r]);
+    }
+  }
+}
+
+function alphaPlane(data: Uint8ClampedArray): Float32Array {
+  const plane = new Float32Array(data.length / 4);
+  for (let p = 0; p < plane.length; p++) plane[p] = data[p * 4 + 3];
+  return plane;
+}
+
+function setAlpha(data: Uint8ClampedArray, plane: Float32Array) {
+  for (let p = 0; p < plane.length; p++) {
+    data[p * 4] = 255;
+    data[p * 4 + 1] = 255;
+    data[p * 4 + 2] = 255;
+    data[p * 4 + 3] = Math.round(plane[p]);
+  }
+}
@@ -0,0 +1,34 @@
+// ─── Subject Matte ───────────────────────────────────────────────────────────
+//
+// Settings for salient-object background removal, which runs only in Rust
+// (`matte.rs`): a bundled model predicts the subject, and the prediction is
+// thresholded, snapped to image edges and feathered into an alpha matte.
+// Field names are snake_case so the settings can be sent to Rust as-is.
+
+export type BgRemovalMode = "chroma_key" | "subject";
+
+export interface MatteSettings {
+  /** Saliency (0..1) above which a pixel is kept */
+  threshold: number;
+  /** Gaussian sigma of the matte edge in pixels, 0 (hard edge) .. 50 */
+  feather: number;
+  /** Snap the matte edge to edges in the image */
+  refine_edges: boolean;
+}
+
+export function defaultMatteSettings(): MatteSettings {
+  return { threshold: 0.5, feather: 1, refine_edges: true };
+}
+
+/** Validates matte settings read from a file; missing fields take their defaults. */
+export function parseMatteSettings(raw: any): MatteSettings {
+  const d = defaultMatteSettings();
+  if (!raw || typeof raw !== "object") return d;
+  const n = (v: unknown, fallback: number, min: number, max: number) =>
+    typeof v === "number" && Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+  return {
+    threshold: n(raw.threshold, d.threshold, 0, 1),
+    feather: n(raw.feather, d.feather, 0, 50),
+    refine_edges: typeof raw.refine_edges === "boolean" ? raw.refine_edges : d.refine_edges,
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { MAX_KEY_COLORS, parseChromaKey } from "./chroma";
+import { parseOperation } from "./operations";
+
+describe("parseOperation", () => {
+  it("rejects malformed entries and unknown kinds", () => {
+    expect(parseOperation(null)).toBeNull();
+    expect(parseOperation("crop")).toBeNull();
+    expect(parseOperation({})).toBeNull();
+    expect(parseOperation({ kind: "sepia" })).toBeNull();
+    expect(parseOperation({ kind: "perspective", corners: [[0, 0], [1, 0], [1, 1]] })).toBeNull();
+    expect(parseOperation({ kind: "perspective", corners: [[0, 0], [1, 0], [1, 1], "x"] })).toBeNull();
+  });
+
+  it("drops mask layers, which only fit the image they were painted on", () => {
+    expect(parseOperation({ kind: "mask", mask: "data:image/png;base64,AAAA" })).toBeNull();
+  });
+
+  it("normalizes rotation and clamps the fine angle", () => {
+    expect(parseOperation({ kind: "rotate", degrees: -90, angle: 60 })).toMatchObject({
+      kind: "rotate",
+      degrees: 270,
+      flip_h: false,
+      flip_v: false,
+      angle: 45,
+    });
+    expect(parseOperation({ kind: "rotate", degrees: 100 })).toMatchObject({ degrees: 90, angle: 0 });
+  });
+
+  it("fills in and clamps numbers", () => {
+    expect(parseOperation({ kind: "crop", x: "left", width: 0.5 })).toMatchObject({
+      x: 0,
+      y: 0,
+      width: 0.5,
+      height: 1,
+    });
+    expect(parseOperation({ kind: "resize", width: 0, height: 99.6 })).toMatchObject({ width: 1, height: 100 });
+  });
+
+  it("keeps the enabled flag and gives each layer a new id", () => {
+    const a = parseOperation({ kind: "resize", width: 10, height: 10, enabled: false, id: 7 });
+    const b = parseOperation({ kind: "resize", width: 10, height: 10, id: 7 });
+    expect(a?.enabled).toBe(false);
+    expect(b?.enabled).toBe(true);
+    expect(a?.id).not.toBe(b?.id);
+  });
+
+  it("drops malformed strokes and text boxes but keeps the layer", () => {
+    const pixelate = parseOperation({
+      kind: "pixelate",
+      block_size: 20,
+      strokes: [{ points: [[0.5, 0.5]], radius: 0.1 }, { points: [[0.5]] }, null],
+    });
+    expect(pixelate?.kind === "pixelate" && pixelate.strokes).toHaveLength(1);
+    expect(pixelate).toMatchObject({ strokes: [{ block_size: 20 }] });
+
+    const text = parseOperation({ kind: "text", boxes: [{ text: "Hi" }, { x: 0.5 }] });
+    expect(text?.kind === "text" && text.boxes.map((b) => b.text)).toEqual(["Hi"]);
+    expect(parseOperation({ kind: "text", boxes: "Hi" })).toMatchObject({ boxes: [] });
+  });
+});
+
+describe("parseChromaKey", () => {
+  it("reads the single color of older settings as a list", () => {
+    expect(parseChromaKey({ color: [0, 255, 0] }).colors).toEqual([[0, 255, 0]]);
+    expect(parseChromaKey({ colors: [[1, 2, 3]], color: [0, 255, 0] }).colors).toEqual([[1, 2, 3]]);
+  });
+
+  it("drops malformed colors and seeds and caps the color count", () => {
+    const colors = Array.from({ length: MAX_KEY_COLORS + 4 }, (_, i) => [i, i, i]);
+    const key = parseChromaKey({
+      colors: [...colors, [1, 2], "red"],
+      seeds: [[0.5, 0.5], [0.5], "x"],
+    });
+    expect(key.colors).toHaveLength(MAX_KEY_COLORS);
+    expect(key.seeds).toEqual([[0.5, 0.5]]);
+  });
+
+  it("clamps tolerance and spill and falls back to defaults", () => {
+    expect(parseChromaKey({ tolerance: 3, spill: -1, region: "middle" })).toMatchObject({
+      tolerance: 1,
+      spill: 0,
+      region: "anywhere",
+    });
+    expect(parseChromaKey(undefined)).toEqual({
+      colors: [],
+      tolerance: 0.3,
+      region: "anywhere",
+      seeds: [],
+      spill: 0,
+    });
+  });
+});
@@ -0,0 +1,260 @@
+// ─── Operation Stack ─────────────────────────────────────────────────────────
+//
+// Operations are non-destructive edits replayed in order on top of the
+// original file, both for the preview (`render_operations`) and on export.
+// Field names are snake_case so the stack can be sent to Rust as-is.
+
+import { ChromaKey, describeChromaKey, parseChromaKey } from "./chroma";
+import { ColorAdjustments, isCurveIdentity, parseColorAdjustments } from "./color";
+import { Filters, parseFilters } from "./filters";
+import { MatteSettings, parseMatteSettings } from "./matte";
+import { describeStrokeModes, isPoint, parseStroke, PixelateStroke } from "./redact";
+import { describeTextBoxes, parseTextBox, TextBox } from "./text";
+
+interface OperationBase {
+  id: number;
+  enabled: boolean;
+}
+
+export interface RotateOperation extends OperationBase {
+  kind: "rotate";
+  degrees: number;
+  flip_h: boolean;
+  flip_v: boolean;
+  /** Fine rotation (-45..45°), applied after the 90° steps and flips */
+  angle: number;
+}
+
+export interface CropOperation extends OperationBase {
+  kind: "crop";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PerspectiveOperation extends OperationBase {
+  kind: "perspective";
+  /** Normalized source corners, clockwise from top-left */
+  corners: [number, number][];
+  /** Output size in pixels */
+  width: number;
+  height: number;
+}
+
+export interface ResizeOperation extends OperationBase {
+  kind: "resize";
+  width: number;
+  height: number;
+}
+
+export interface AdjustOperation extends OperationBase, ColorAdjustments {
+  kind: "adjust";
+}
+
+export interface FilterOperation extends OperationBase, Filters {
+  kind: "filter";
+}
+
+export interface PixelateOperation extends OperationBase {
+  kind: "pixelate";
+  /** Each stroke carries its own redaction mode and parameters */
+  strokes: PixelateStroke[];
+}
+
+export interface ChromaKeyOperation extends OperationBase, ChromaKey {
+  kind: "chroma_key";
+}
+
+export interface RemoveBackgroundOperation extends OperationBase, MatteSettings {
+  kind: "remove_background";
+}
+
+export interface MaskOperation extends OperationBase {
+  kind: "mask";
+  /** PNG data URL whose alpha is the mask; see `mask.ts` */
+  mask: string;
+}
+
+export interface TextOperation extends OperationBase {
+  kind: "text";
+  /** Drawn in order; each box carries its own font and style */
+  boxes: TextBox[];
+}
+
+export type Operation =
+  | RotateOperation
+  | CropOperation
+  | PerspectiveOperation
+  | ResizeOperation
+  | AdjustOperation
+  | FilterOperation
+  | PixelateOperation
+  | ChromaKeyOperation
+  | RemoveBackgroundOperation
+  | MaskOperation
+  | TextOperation;
+
+/** Distributive Omit, so each union member keeps its own fields. */
+export type OperationInit = Operation extends infer O
+  ? O extends Operation
+    ? Omit<O, "id" | "enabled">
+    : never
+  : never;
+
+let nextOperationId = 1;
+
+export function createOperation(init: OperationInit): Operation {
+  return { ...init, id: nextOperationId++, enabled: true } as Operation;
+}
+
+export function cloneOperations(ops: Operation[]): Operation[] {
+  return JSON.parse(JSON.stringify(ops));
+}
+
+export function describeOperation(op: Operation): string {
+  switch (op.kind) {
+    case "rotate": {
+      const parts: string[] = [];
+      if (op.degrees) parts.push(`${op.degrees}°`);
+      if (op.flip_h) parts.push("flip H");
+      if (op.flip_v) parts.push("flip V");
+      if (op.angle) parts.push(`${op.angle > 0 ? "+" : ""}${op.angle.toFixed(1)}°`);
+      return `Rotate ${parts.join(", ") || "0°"}`;
+    }
+    case "crop":
+      return `Crop ${Math.round(op.width * 100)}% × ${Math.round(op.height * 100)}%`;
+    case "perspective":
+      return `Perspective ${op.width} × ${op.height}`;
+    case "resize":
+      return `Resize ${op.width} × ${op.height}`;
+    case "adjust": {
+      const parts: string[] = [];
+      if (op.grayscale) parts.push("gray");
+      if (op.brightness) parts.push(`B ${Math.round(op.brightness * 100)}`);
+      if (op.contrast) parts.push(`C ${Math.round(op.contrast * 100)}`);
+      if (op.exposure) parts.push(`E ${op.exposure > 0 ? "+" : ""}${op.exposure.toFixed(1)}`);
+      if (op.levels_black !== 0 || op.levels_white !== 255 || op.levels_gamma !== 1) {
+        parts.push("levels");
+      }
+      if (![op.curves.rgb, op.curves.r, op.curves.g, op.curves.b].every(isCurveIdentity)) {
+        parts.push("curves");
+      }
+      if (op.temperature || op.tint) parts.push("WB");
+      if (op.saturation) parts.push(`S ${Math.round(op.saturation * 100)}`);
+      if (op.vibrance) parts.push(`V ${Math.round(op.vibrance * 100)}`);
+      if (op.hue) parts.push(`H ${Math.round(op.hue)}°`);
+      return `Adjust ${parts.join(", ")}`;
+    }
+    case "filter": {
+      const parts: string[] = [];
+      if (op.denoise_radius) parts.push(`denoise ${op.denoise_radius}`);
+      if (op.blur_radius) parts.push(`blur ${op.blur_radius.toFixed(1)}`);
+      if (op.sharpen_amount) parts.push(`sharpen ${Math.round(op.sharpen_amount * 100)}`);
+      return `Filter ${parts.join(", ")}`;
+    }
+    case "pixelate":
+      return `Redact ${op.strokes.length} stroke${op.strokes.length === 1 ? "" : "s"} (${describeStrokeModes(op.strokes)})`;
+    case "chroma_key":
+      return `Chroma key ${describeChromaKey(op)}`;
+    case "remove_background":
+      return `Remove background ${Math.round(op.threshold * 100)}${op.refine_edges ? ", refined" : ""}`;
+    case "mask":
+      return "Background mask";
+    case "text":
+      return `Text ${describeTextBoxes(op.boxes)}`;
+  }
+}
+
+/**
+ * Validates an operation read from a file. Returns null for malformed entries
+ * and for kinds this version does not know, so newer stacks still load. Mask
+ * layers are dropped too: they only fit the image they were painted on.
+ */
+export function parseOperation(raw: any): Operation | null {
+  if (!raw || typeof raw !== "object") return null;
+  const enabled = raw.enabled !== false;
+  const n = (v: unknown, fallback: number) =>
+    typeof v === "number" && Number.isFinite(v) ? v : fallback;
+
+  let init: OperationInit;
+  switch (raw.kind) {
+    case "rotate":
+      init = {
+        kind: "rotate",
+        degrees: ((Math.round(n(raw.degrees, 0) / 90) * 90) % 360 + 360) % 360,
+        flip_h: !!raw.flip_h,
+        flip_v: !!raw.flip_v,
+        angle: Math.max(-45, Math.min(45, n(raw.angle, 0))),
+      };
+      break;
+    case "crop":
+      init = {
+        kind: "crop",
+        x: n(raw.x, 0),
+        y: n(raw.y, 0),
+        width: n(raw.width, 1),
+        height: n(raw.height, 1),
+      };
+      break;
+    case "perspective":
+      if (!Array.isArray(raw.corners) || raw.corners.length !== 4) return null;
+      if (!raw.corners.every(isPoint)) return null;
+      init = {
+        kind: "perspective",
+        corners: raw.corners.map((p: [number, number]) => [p[0], p[1]]),
+        width: Math.max(1, Math.round(n(raw.width, 1))),
+        height: Math.max(1, Math.round(n(raw.height, 1))),
+      };
+      break;
+    case "resize":
+      init = {
+        kind: "resize",
+        width: Math.max(1, Math.round(n(raw.width, 1))),
+        height: Math.max(1, Math.round(n(raw.height, 1))),
+      };
+      break;
+    case "adjust":
+      init = { kind: "adjust", ...parseColorAdjustments(raw) };
+      break;
+    case "filter":
+      init = { kind: "filter", ...parseFilters(raw) };
+      break;
+    case "pixelate": {
+      // Layers from before per-stroke settings shared one block size
+      const blockSize = Math.max(4, Math.round(n(raw.block_size, 10)));
+      init = {
+        kind: "pixelate",
+        strokes: Array.isArray(raw.strokes)
+          ? raw.strokes
+              .map((s: unknown) => parseStroke(s, blockSize))
+              .filter((s: PixelateStroke | null): s is PixelateStroke => s !== null)
+          : [],
+      };
+      break;
+    }
+    case "chroma_key":
+      init = { kind: "chroma_key", ...parseChromaKey(raw) };
+      break;
+    case "remove_background":
+      init = { kind: "remove_background", ...parseMatteSettings(raw) };
+      break;
+    case "mask":
+      return null;
+    case "text":
+      init = {
+        kind: "text",
+        boxes: Array.isArray(raw.boxes)
+          ? raw.boxes
+              .map(parseTextBox)
+              .filter((b: TextBox | null): b is TextBox => b !== null)
+          : [],
+      };
+      break;
+    default:
+      return null;
+  }
+  const op = createOperation(init);
+  op.enabled = enabled;
+  return op;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { legacyTolerance } from "./chroma";
+import { parseRecipe, RECIPE_FORMAT, RECIPE_VERSION } from "./recipe";
+
+describe("parseRecipe", () => {
+  it("rejects files that aren't recipes", () => {
+    expect(() => parseRecipe(null)).toThrow("Not a recipe file");
+    expect(() => parseRecipe("recipe")).toThrow("Not a recipe file");
+    expect(() => parseRecipe({ format: "other", version: 1 })).toThrow("Not a PixelArgon recipe");
+    expect(() => parseRecipe({ format: RECIPE_FORMAT, version: 0 })).toThrow("Unsupported recipe version");
+    expect(() => parseRecipe({ format: RECIPE_FORMAT })).toThrow("Unsupported recipe version");
+  });
+
+  it("migrates a v1 recipe", () => {
+    const recipe = parseRecipe({
+      format: RECIPE_FORMAT,
+      version: 1,
+      name: "Old",
+      crop: { x: 0.1, y: 0.2, width: 0.5, height: 2 },
+      transform: { rotation: -90, flipH: true },
+      pixelate: { blockSize: 16, strokes: [{ points: [[0.1, 0.1]], radius: 0.05 }, { points: "x" }] },
+      bgRemoval: { enabled: true, color: [0, 255, 0], tolerance: 30 },
+    });
+    expect(recipe.version).toBe(RECIPE_VERSION);
+    expect(recipe.name).toBe("Old");
+    expect(recipe.operations).toEqual([]);
+    expect(recipe.text).toEqual([]);
+    expect(recipe.crop).toEqual({ x: 0.1, y: 0.2, width: 0.5, height: 1 });
+    expect(recipe.transform).toEqual({ rotation: 270, flipH: true, flipV: false, straighten: 0 });
+    // Strokes from before per-stroke settings are mosaics at the shared block size
+    expect(recipe.pixelate.strokes).toHaveLength(1);
+    expect(recipe.pixelate.strokes[0]).toMatchObject({ shape: "brush", mode: "mosaic", block_size: 16 });
+    expect(recipe.bgRemoval.mode).toBe("chroma_key");
+    expect(recipe.bgRemoval.colors).toEqual([[0, 255, 0]]);
+    expect(recipe.bgRemoval.tolerance).toBe(Math.round(legacyTolerance(0.3) * 100));
+    expect(recipe.bgRemoval.mask).toBeNull();
+  });
+
+  it("converts the key tolerances of a v5 recipe and its chroma key layers", () => {
+    const recipe = parseRecipe({
+      format: RECIPE_FORMAT,
+      version: 5,
+      operations: [
+        { kind: "chroma_key", color: [0, 0, 255], tolerance: 0.4 },
+        { kind: "chroma_key", color: [0, 0, 255] },
+      ],
+      bgRemoval: { enabled: true, mode: "subject", color: [0, 177, 64], tolerance: 50 },
+    });
+    expect(recipe.operations).toHaveLength(2);
+    const [converted, defaulted] = recipe.operations;
+    expect(converted).toMatchObject({ kind: "chroma_key", colors: [[0, 0, 255]] });
+    expect(converted.kind === "chroma_key" && converted.tolerance).toBeCloseTo(legacyTolerance(0.4));
+    // Without a saved tolerance the current default applies
+    expect(defaulted.kind === "chroma_key" && defaulted.tolerance).toBe(0.3);
+    expect(recipe.bgRemoval.mode).toBe("subject");
+    expect(recipe.bgRemoval.tolerance).toBe(Math.round(legacyTolerance(0.5) * 100));
+  });
+
+  it("keeps the tolerances of current recipes", () => {
+    const recipe = parseRecipe({
+      format: RECIPE_FORMAT,
+      version: RECIPE_VERSION,
+      operations: [{ kind: "chroma_key", colors: [[0, 255, 0]], tolerance: 0.3 }],
+      bgRemoval: { colors: [[0, 255, 0]], tolerance: 30 },
+    });
+    expect(recipe.operations[0]).toMatchObject({ kind: "chroma_key", tolerance: 0.3 });
+    expect(recipe.bgRemoval.tolerance).toBe(30);
+  });
+
+  it("drops refined masks, mask layers and malformed layers", () => {
+    const recipe = parseRecipe({
+      format: RECIPE_FORMAT,
+      version: RECIPE_VERSION,
+      operations: [
+        { kind: "mask", mask: "data:image/png;base64,AAAA" },
+        { kind: "sepia" },
+        null,
+        { kind: "resize", width: 640, height: 480, enabled: false },
+      ],
+      bgRemoval: { mask: "data:image/png;base64,AAAA" },
+    });
+    expect(recipe.operations).toHaveLength(1);
+    expect(recipe.operations[0]).toMatchObject({ kind: "resize", width: 640, height: 480, enabled: false });
+    expect(recipe.bgRemoval.mask).toBeNull();
+  });
+
+  it("reads recipes from newer versions best-effort", () => {
+    const recipe = parseRecipe({
+      format: RECIPE_FORMAT,
+      version: RECIPE_VERSION + 1,
+      name: "Newer",
+      future: { anything: true },
+    });
+    expect(recipe.version).toBe(RECIPE_VERSION);
+    expect(recipe.name).toBe("Newer");
+    expect(recipe).not.toHaveProperty("future");
+  });
+});
@@ -0,0 +1,203 @@
+// ─── Edit Recipes ────────────────────────────────────────────────────────────
+//
+// A recipe is the full edit state of an image (operation stack, crop, target
+// size, transforms, adjustments, filters, pixelate strokes, background
+// removal, text boxes) in a versioned JSON form that can be saved to disk and applied to
+// the same or a different image. Coordinates are normalized (0..1), so recipes are
+// resolution independent.
+
+import { isColor, KeyRegion, legacyTolerance, parseChromaKey } from "./chroma";
+import { ColorAdjustments, parseColorAdjustments } from "./color";
+import { Filters, parseFilters } from "./filters";
+import { BgRemovalMode, MatteSettings, parseMatteSettings } from "./matte";
+import { Operation, parseOperation } from "./operations";
+import { parseStroke, PixelateStroke } from "./redact";
+import { parseTextBox, TextBox } from "./text";
+
+export const RECIPE_FORMAT = "pixelargon-recipe";
+export const RECIPE_VERSION = 9;
+
+export interface Recipe {
+  format: typeof RECIPE_FORMAT;
+  version: number;
+  name: string;
+  operations: Operation[];
+  crop: { x: number; y: number; width: number; height: number };
+  target: {
+    width: number;
+    height: number;
+    lockAspect: boolean;
+    scaleMode: string;
+    /** Padding of the "fit_with_padding" scale mode; null is transparent */
+    padColor: [number, number, number] | null;
+  };
+  transform: { rotation: number; flipH: boolean; flipV: boolean; straighten: number };
+  adjustments: ColorAdjustments;
+  filters: Filters;
+  pixelate: { brushSize: number; blockSize: number; strokes: PixelateStroke[] };
+  bgRemoval: {
+    enabled: boolean;
+    mode: BgRemovalMode;
+    colors: [number, number, number][];
+    /** 0..100 */
+    tolerance: number;
+    region: KeyRegion;
+    seeds: [number, number][];
+    /** 0..100 */
+    spill: number;
+    matte: MatteSettings;
+    /**
+     * Id of the refined mask used instead of the key or matte, kept by the
+     * editor (see `mask.ts`). Masks only fit the image they were computed
+     * on, so recipe files never carry one, nor mask layers.
+     */
+    mask: string | null;
+  };
+  text: TextBox[];
+}
+
+/**
+ * Upgrades a raw recipe object from `version` to `version + 1`. Keyed by the
+ * version being migrated *from*; add an entry whenever the format changes.
+ */
+const migrations: Record<number, (raw: any) => any> = {
+  // v2 added the non-destructive operation stack
+  1: (raw) => ({ ...raw, version: 2, operations: [] }),
+  // v3 expanded the adjustments into the color suite. Brightness and contrast
+  // keep their names and range; the new fields start neutral.
+  2: (raw) => ({ ...raw, version: 3 }),
+  // v4 gave each pixelate stroke its own redaction mode, shape and settings.
+  // Older strokes are brush mosaics with the recipe's shared block size.
+  3: (raw) => ({ ...raw, version: 4 }),
+  // v5 added subject (ML matte) background removal; older recipes use chroma key
+  4: (raw) => ({ ...raw, version: 5 }),
+  // v6 replaced the single chroma key color with a list and measures tolerance
+  // as Lab ΔE; `color` is read as a one-entry list below, and tolerances of the
+  // key and chroma key layers are converted to about the same cutoff
+  5: (raw) => ({
+    ...raw,
+    version: 6,
+    bgRemoval:
+      typeof raw.bgRemoval?.tolerance === "number"
+        ? { ...raw.bgRemoval, tolerance: legacyTolerance(raw.bgRemoval.tolerance / 100) * 100 }
+        : raw.bgRemoval,
+    operations: Array.isArray(raw.operations)
+      ? raw.operations.map((op: any) =>
+          op?.kind === "chroma_key" && typeof op.tolerance === "number"
+            ? { ...op, tolerance: legacyTolerance(op.tolerance) }
+            : op
+        )
+      : raw.operations,
+  }),
+  // v7 added the hand-refined background mask; older recipes have none
+  6: (raw) => ({ ...raw, version: 7 }),
+  // v8 added the pad color of the "fit_with_padding" scale mode
+  7: (raw) => ({ ...raw, version: 8 }),
+  // v9 added text overlays; older recipes have none
+  8: (raw) => ({ ...raw, version: 9, text: [] }),
+};
+
+/** Parses recipe JSON, migrating older versions and ignoring unknown fields. */
+export function parseRecipe(raw: unknown): Recipe {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Not a recipe file");
+  }
+  let obj = raw as any;
+  if (obj.format !== RECIPE_FORMAT) {
+    throw new Error("Not a PixelArgon recipe");
+  }
+
+  let version = num(obj.version, 0);
+  if (version < 1) throw new Error(`Unsupported recipe version ${obj.version}`);
+  while (version < RECIPE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration from recipe version ${version}`);
+    obj = migrate(obj);
+    version++;
+  }
+
+  // Recipes written by newer versions are read best-effort: known fields are
+  // picked out below and anything else is dropped.
+  const crop = obj.crop ?? {};
+  const target = obj.target ?? {};
+  const transform = obj.transform ?? {};
+  const adjustments = obj.adjustments ?? {};
+  const pixelate = obj.pixelate ?? {};
+  const bg = obj.bgRemoval ?? {};
+  // The recipe keeps tolerance and spill as 0..100, as the sliders show them
+  const key = parseChromaKey({
+    ...bg,
+    tolerance: num(bg.tolerance, 30) / 100,
+    spill: num(bg.spill, 0) / 100,
+  });
+
+  return {
+    format: RECIPE_FORMAT,
+    version: RECIPE_VERSION,
+    name: typeof obj.name === "string" ? obj.name : "",
+    operations: Array.isArray(obj.operations)
+      ? obj.operations
+          .map(parseOperation)
+          .filter((op: Operation | null): op is Operation => op !== null)
+      : [],
+    crop: {
+      x: clamp01(num(crop.x, 0)),
+      y: clamp01(num(crop.y, 0)),
+      width: clamp01(num(crop.width, 1)),
+      height: clamp01(num(crop.height, 1)),
+    },
+    target: {
+      width: Math.max(1, Math.round(num(target.width, 800))),
+      height: Math.max(1, Math.round(num(target.height, 600))),
+      lockAspect: !!target.lockAspect,
+      scaleMode: typeof target.scaleMode === "string" ? target.scaleMode : "scale_then_crop",
+      padColor:
+        target.padColor === null
+          ? null
+          : isColor(target.padColor)
+            ? [target.padColor[0], target.padColor[1], target.padColor[2]]
+            : [255, 255, 255],
+    },
+    transform: {
+      rotation: ((Math.round(num(transform.rotation, 0) / 90) * 90) % 360 + 360) % 360,
+      flipH: !!transform.flipH,
+      flipV: !!transform.flipV,
+      straighten: Math.max(-45, Math.min(45, num(transform.straighten, 0))),
+    },
+    adjustments: parseColorAdjustments(adjustments),
+    filters: parseFilters(obj.filters),
+    pixelate: {
+      brushSize: num(pixelate.brushSize, 20),
+      blockSize: num(pixelate.blockSize, 10),
+      strokes: Array.isArray(pixelate.strokes)
+        ? pixelate.strokes
+            .map((s: unknown) => parseStroke(s, num(pixelate.blockSize, 10)))
+            .filter((s: PixelateStroke | null): s is PixelateStroke => s !== null)
+        : [],
+    },
+    bgRemoval: {
+      enabled: !!bg.enabled,
+      mode: bg.mode === "subject" ? "subject" : "chroma_key",
+      colors: key.colors.length > 0 ? key.colors : [[0, 0, 0]],
+      tolerance: Math.round(key.tolerance * 100),
+      region: key.region,
+      seeds: key.seeds,
+      spill: Math.round(key.spill * 100),
+      matte: parseMatteSettings(bg.matte),
+      mask: null,
+    },
+    text: Array.isArray(obj.text)
+      ? obj.text
+          .map(parseTextBox)
+          .filter((b: TextBox | null): b is TextBox => b !== null)
+      : [],
+  };
+}
+
+function num(v: unknown, fallback: number): number {
+  return typeof v === "number" && Number.isFinite(v) ? v : fallback;
+}
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
@@ -0,0 +1,231 @@
+// ─── Redaction ───────────────────────────────────────────────────────────────
+//
+// Mosaic, blur and solid-fill redaction, mirrored by `redact.rs`. Each stroke
+// is either a freehand brush path or a rectangle/ellipse, and carries its own
+// mode and parameters, so strokes drawn with different settings can share a
+// layer. Points are normalized to the image the strokes are drawn on; block
+// size and blur radius are in pixels of that image. Field names are
+// snake_case so strokes can be sent to Rust as-is.
+
+import { gaussianBlur } from "./filters";
+
+export type RedactMode = "mosaic" | "blur" | "fill";
+export type RedactShape = "brush" | "rectangle" | "ellipse";
+
+export const REDACT_MODES: RedactMode[] = ["mosaic", "blur", "fill"];
+export const REDACT_SHAPES: RedactShape[] = ["brush", "rectangle", "ellipse"];
+
+export interface PixelateStroke {
+  shape: RedactShape;
+  /** Brush: the path. Rectangle and ellipse: two opposite corners. */
+  points: [number, number][];
+  /** Brush half-width, relative to the longer image side */
+  radius: number;
+  mode: RedactMode;
+  /** Mosaic block size in pixels, 4..40 */
+  block_size: number;
+  /** Blur sigma in pixels, 1..100 */
+  blur_radius: number;
+  /** Fill color */
+  color: [number, number, number];
+}
+
+/**
+ * Validates a stroke read from a file. Strokes from before redaction modes
+ * are brush mosaics using the block size their layer or recipe shared.
+ */
+export function parseStroke(raw: any, blockSize = 10): PixelateStroke | null {
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.points)) return null;
+  if (!raw.points.every(isPoint)) return null;
+  const shape = REDACT_SHAPES.includes(raw.shape) ? raw.shape : "brush";
+  if (shape === "brush" ? typeof raw.radius !== "number" : raw.points.length !== 2) {
+    return null;
+  }
+  const n = (v: unknown, fallback: number, min: number, max: number) =>
+    typeof v === "number" && Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+  const color = raw.color;
+  return {
+    shape,
+    points: raw.points.map((p: [number, number]) => [p[0], p[1]]),
+    radius: n(raw.radius, 0, 0, 1),
+    mode: REDACT_MODES.includes(raw.mode) ? raw.mode : "mosaic",
+    block_size: Math.round(n(raw.block_size, blockSize, 4, 40)),
+    blur_radius: n(raw.blur_radius, 12, 1, 100),
+    color:
+      Array.isArray(color) && color.length >= 3 && color.slice(0, 3).every((v) => typeof v === "number")
+        ? [color[0], color[1], color[2]]
+        : [0, 0, 0],
+  };
+}
+
+export function cloneStroke(s: PixelateStroke): PixelateStroke {
+  return {
+    ...s,
+    points: s.points.map(([x, y]) => [x, y] as [number, number]),
+    color: [...s.color],
+  };
+}
+
+export function isPoint(p: unknown): p is [number, number] {
+  return Array.isArray(p) && typeof p[0] === "number" && typeof p[1] === "number";
+}
+
+export function describeStrokeModes(strokes: PixelateStroke[]): string {
+  return REDACT_MODES.filter((m) => strokes.some((s) => s.mode === m)).join(", ");
+}
+
+/** The pixels a stroke covers: a bounding box and a 0/1 mask over it. */
+interface StrokeMask {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  mask: Uint8Array;
+}
+
+function strokeMask(stroke: PixelateStroke, width: number, height: number): StrokeMask | null {
+  let x1: number, y1: number, x2: number, y2: number;
+  if (stroke.shape === "brush") {
+    // Each point covers a square of side 2r
+    const r = Math.round(stroke.radius * Math.max(width, height));
+    const centers = stroke.points.map(
+      ([nx, ny]) => [Math.floor(nx * width), Math.floor(ny * height)] as [number, number]
+    );
+    x1 = Math.max(0, Math.min(...centers.map((c) => c[0])) - r);
+    y1 = Math.max(0, Math.min(...centers.map((c) => c[1])) - r);
+    x2 = Math.min(width, Math.max(...centers.map((c) => c[0])) + r);
+    y2 = Math.min(height, Math.max(...centers.map((c) => c[1])) + r);
+    if (x2 <= x1 || y2 <= y1) return null;
+    const w = x2 - x1;
+    const mask = new Uint8Array(w * (y2 - y1));
+    for (const [cx, cy] of centers) {
+      for (let y = Math.max(y1, cy - r); y < Math.min(y2, cy + r); y++) {
+        mask.fill(1, (y - y1) * w + Math.max(x1, cx - r) - x1, (y - y1) * w + Math.min(x2, cx + r) - x1);
+      }
+    }
+    return { x: x1, y: y1, width: w, height: y2 - y1, mask };
+  }
+
+  const [[ax, ay], [bx, by]] = stroke.points;
+  x1 = Math.max(0, Math.floor(Math.min(ax, bx) * width));
+  y1 = Math.max(0, Math.floor(Math.min(ay, by) * height));
+  x2 = Math.min(width, Math.ceil(Math.max(ax, bx) * width));
+  y2 = Math.min(height, Math.ceil(Math.max(ay, by) * height));
+  if (x2 <= x1 || y2 <= y1) return null;
+  const w = x2 - x1;
+  const h = y2 - y1;
+  const mask = new Uint8Array(w * h);
+  if (stroke.shape === "rectangle") {
+    mask.fill(1);
+  } else {
+    // Pixel centers inside the ellipse inscribed in the box
+    const rx = ((Math.max(ax, bx) - Math.min(ax, bx)) * width) / 2;
+    const ry = ((Math.max(ay, by) - Math.min(ay, by)) * height) / 2;
+    const cx = Math.min(ax, bx) * width + rx;
+    const cy = Math.min(ay, by) * height + ry;
+    for (let y = 0; y < h; y++) {
+      const dy = (y1 + y + 0.5 - cy) / ry;
+      for (let x = 0; x < w; x++) {
+        const dx = (x1 + x + 0.5 - cx) / rx;
+        if (dx * dx + dy * dy <= 1) mask[y * w + x] = 1;
+      }
+    }
+  }
+  return { x: x1, y: y1, width: w, height: h, mask };
+}
+
+/** Applies the strokes in order, in place, to RGBA pixel data. */
+export function applyRedaction(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  strokes: PixelateStroke[]
+) {
+  for (const stroke of strokes) {
+    const m = strokeMask(stroke, width, height);
+    if (!m) continue;
+    if (stroke.mode === "fill") fillMask(data, width, m, stroke.color);
+    else if (stroke.mode === "blur") blurMask(data, width, height, m, stroke.blur_radius);
+    else mosaicMask(data, width, m, stroke.block_size);
+  }
+}
+
+function fillMask(data: Uint8ClampedArray, width: number, m: StrokeMask, color: [number, number, number]) {
+  for (let y = 0; y < m.height; y++) {
+    for (let x = 0; x < m.width; x++) {
+      if (!m.mask[y * m.width + x]) continue;
+      const i = ((m.y + y) * width + m.x + x) * 4;
+      data[i] = color[0];
+      data[i + 1] = color[1];
+      data[i + 2] = color[2];
+      data[i + 3] = 255;
+    }
+  }
+}
+
+/**
+ * Averages each block of the covered pixels. Blocks sit on a grid anchored at
+ * the image origin, so overlapping strokes line up.
+ */
+function mosaicMask(data: Uint8ClampedArray, width: number, m: StrokeMask, blockSize: number) {
+  const bs = Math.max(4, blockSize);
+  const startX = Math.floor(m.x / bs) * bs;
+  const startY = Math.floor(m.y / bs) * bs;
+  for (let by = startY; by < m.y + m.height; by += bs) {
+    for (let bx = startX; bx < m.x + m.width; bx += bs) {
+      const x1 = Math.max(bx, m.x) - m.x;
+      const y1 = Math.max(by, m.y) - m.y;
+      const x2 = Math.min(bx + bs, m.x + m.width) - m.x;
+      const y2 = Math.min(by + bs, m.y + m.height) - m.y;
+      const sum = [0, 0, 0, 0];
+      let count = 0;
+      for (let y = y1; y < y2; y++) {
+        for (let x = x1; x < x2; x++) {
+          if (!m.mask[y * m.width + x]) continue;
+          const i = ((m.y + y) * width + m.x + x) * 4;
+          for (let c = 0; c < 4; c++) sum[c] += data[i + c];
+          count++;
+        }
+      }
+      if (count === 0) continue;
+      const avg = sum.map((v) => Math.floor(v / count));
+      for (let y = y1; y < y2; y++) {
+        for (let x = x1; x < x2; x++) {
+          if (!m.mask[y * m.width + x]) continue;
+          const i = ((m.y + y) * width + m.x + x) * 4;
+          for (let c = 0; c < 4; c++) data[i + c] = avg[c];
+        }
+      }
+    }
+  }
+}
+
+/** Blurs the box around the covered pixels, with margin, and keeps the covered ones. */
+function blurMask(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  m: StrokeMask,
+  sigma: number
+) {
+  const pad = Math.ceil(3 * sigma);
+  const x1 = Math.max(0, m.x - pad);
+  const y1 = Math.max(0, m.y - pad);
+  const x2 = Math.min(width, m.x + m.width + pad);
+  const y2 = Math.min(height, m.y + m.height + pad);
+  const w = x2 - x1;
+  const h = y2 - y1;
+  const region = new Uint8ClampedArray(w * h * 4);
+  for (let y = 0; y < h; y++) {
+    region.set(data.subarray(((y1 + y) * width + x1) * 4, ((y1 + y) * width + x2) * 4), y * w * 4);
+  }
+  const blurred = gaussianBlur(region, w, h, sigma);
+  for (let y = 0; y < m.height; y++) {
+    for (let x = 0; x < m.width; x++) {
+      if (!m.mask[y * m.width + x]) continue;
+      const i = ((m.y + y) * width + m.x + x) * 4;
+      const j = ((m.y + y - y1) * w + m.x + x - x1) * 4;
+      for (let c = 0; c < 4; c++) data[i + c] = blurred[j + c];
+    }
+  }
+}
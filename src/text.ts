@@ -0,0 +1,272 @@
+// ─── Text Overlays ───────────────────────────────────────────────────────────
+//
+// Text boxes drawn over the image after background removal, mirrored by
+// `text.rs`, which rasterizes them at full resolution on export. The preview
+// uses the font file Rust draws with (`load_font`) and its ascent and descent,
+// so both lay lines out the same way: `LINE_HEIGHT` font sizes apart, each
+// centered on its line and aligned within the widest line. Positions are
+// normalized to the image the boxes are drawn on and sizes are fractions of
+// its height. Field names are snake_case so boxes can be sent to Rust as-is.
+
+import { isColor } from "./chroma";
+
+export type TextAlign = "left" | "center" | "right";
+
+export const TEXT_ALIGNS: TextAlign[] = ["left", "center", "right"];
+
+/** Baseline to baseline, in font sizes */
+export const LINE_HEIGHT = 1.2;
+
+export interface TextBox {
+  /** Lines are separated by "\n" */
+  text: string;
+  /** Center of the box, normalized */
+  x: number;
+  y: number;
+  /** Font size as a fraction of the image height */
+  size: number;
+  /** Degrees clockwise around the center */
+  rotation: number;
+  /** Family name; unknown families fall back to the default sans-serif */
+  font: string;
+  bold: boolean;
+  italic: boolean;
+  color: [number, number, number];
+  /** 0..1, applied to the text, stroke and shadow together */
+  opacity: number;
+  align: TextAlign;
+  /** How far the stroke reaches outside the glyphs, in font sizes; 0 = none */
+  stroke_width: number;
+  stroke_color: [number, number, number];
+  /** 0 (no shadow) .. 1 */
+  shadow_opacity: number;
+  shadow_color: [number, number, number];
+  /** Canvas `shadowBlur` (twice the Gaussian sigma), in font sizes */
+  shadow_blur: number;
+  /** Shadow offset in font sizes, in image directions whatever the rotation */
+  shadow_x: number;
+  shadow_y: number;
+}
+
+/** The settings new boxes start with; each box keeps its own copy. */
+export type TextStyle = Omit<TextBox, "text" | "x" | "y" | "rotation">;
+
+/** A font loaded for the preview under `family`; metrics are per em. */
+export interface PreviewFont {
+  family: string;
+  ascent: number;
+  descent: number;
+}
+
+// Metrics used until the font file has loaded
+const FALLBACK_ASCENT = 0.9;
+const FALLBACK_DESCENT = -0.22;
+
+export function defaultTextStyle(): TextStyle {
+  return {
+    size: 0.08,
+    font: "Inter",
+    bold: true,
+    italic: false,
+    color: [255, 255, 255],
+    opacity: 1,
+    align: "center",
+    stroke_width: 0,
+    stroke_color: [0, 0, 0],
+    shadow_opacity: 0.5,
+    shadow_color: [0, 0, 0],
+    shadow_blur: 0.1,
+    shadow_x: 0.04,
+    shadow_y: 0.04,
+  };
+}
+
+export function textStyleOf(box: TextBox): TextStyle {
+  const { text, x, y, rotation, ...style } = box;
+  return cloneTextStyle(style);
+}
+
+export function cloneTextStyle(style: TextStyle): TextStyle {
+  return {
+    ...style,
+    color: [...style.color],
+    stroke_color: [...style.stroke_color],
+    shadow_color: [...style.shadow_color],
+  };
+}
+
+export function cloneTextBox(box: TextBox): TextBox {
+  return { ...box, ...cloneTextStyle(box) };
+}
+
+/** Validates a text box read from a file; missing settings take their defaults. */
+export function parseTextBox(raw: any): TextBox | null {
+  if (!raw || typeof raw !== "object" || typeof raw.text !== "string") return null;
+  const d = defaultTextStyle();
+  const n = (v: unknown, fallback: number, min: number, max: number) =>
+    typeof v === "number" && Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+  const color = (c: unknown, fallback: [number, number, number]): [number, number, number] =>
+    isColor(c) ? [c[0], c[1], c[2]] : fallback;
+  return {
+    text: raw.text,
+    x: n(raw.x, 0.5, 0, 1),
+    y: n(raw.y, 0.5, 0, 1),
+    size: n(raw.size, d.size, 0.001, 1),
+    rotation: n(raw.rotation, 0, -360, 360),
+    font: typeof raw.font === "string" && raw.font ? raw.font : d.font,
+    bold: !!raw.bold,
+    italic: !!raw.italic,
+    color: color(raw.color, d.color),
+    opacity: n(raw.opacity, 1, 0, 1),
+    align: TEXT_ALIGNS.includes(raw.align) ? raw.align : "center",
+    stroke_width: n(raw.stroke_width, 0, 0, 1),
+    stroke_color: color(raw.stroke_color, d.stroke_color),
+    shadow_opacity: n(raw.shadow_opacity, 0, 0, 1),
+    shadow_color: color(raw.shadow_color, d.shadow_color),
+    shadow_blur: n(raw.shadow_blur, 0, 0, 2),
+    shadow_x: n(raw.shadow_x, 0, -1, 1),
+    shadow_y: n(raw.shadow_y, 0, -1, 1),
+  };
+}
+
+export function describeTextBoxes(boxes: TextBox[]): string {
+  const first = boxes.find((b) => b.text.trim())?.text.trim().split("\n")[0] ?? "";
+  const quote = first.length > 16 ? `"${first.slice(0, 15)}…"` : `"${first}"`;
+  return boxes.length === 1 ? quote : `${quote} + ${boxes.length - 1} more`;
+}
+
+/** A box laid out at its pixel size, relative to the top-left of its lines. */
+interface TextLayout {
+  font: string;
+  size: number;
+  lines: { text: string; x: number; baseline: number }[];
+  width: number;
+  height: number;
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function layoutText(box: TextBox, imageHeight: number, font: PreviewFont | null): TextLayout {
+  const size = box.size * imageHeight;
+  // Without the loaded font, the family itself stands in, styled by the browser
+  const css = font
+    ? `${size}px "${font.family}"`
+    : `${box.italic ? "italic " : ""}${box.bold ? "bold " : ""}${size}px "${box.font}", sans-serif`;
+  const ascent = (font ? font.ascent : FALLBACK_ASCENT) * size;
+  const descent = (font ? font.descent : FALLBACK_DESCENT) * size;
+
+  if (!measureContext) measureContext = document.createElement("canvas").getContext("2d")!;
+  measureContext.font = css;
+  const texts = box.text.split("\n").map((line) => line.replace(/\r$/, ""));
+  const widths = texts.map((line) => measureContext!.measureText(line).width);
+  const lineHeight = size * LINE_HEIGHT;
+  const width = Math.max(0, ...widths);
+  const firstBaseline = (lineHeight - (ascent - descent)) / 2 + ascent;
+  return {
+    font: css,
+    size,
+    lines: texts.map((text, i) => ({
+      text,
+      x: box.align === "left" ? 0 : box.align === "center" ? (width - widths[i]) / 2 : width - widths[i],
+      baseline: firstBaseline + i * lineHeight,
+    })),
+    width,
+    height: lineHeight * texts.length,
+  };
+}
+
+/**
+ * Corners of the box's lines on an image of `width` × `height`, clockwise
+ * from top-left, in pixels.
+ */
+export function textBoxCorners(
+  box: TextBox,
+  width: number,
+  height: number,
+  font: PreviewFont | null
+): [number, number][] {
+  const layout = layoutText(box, height, font);
+  const [cx, cy] = [box.x * width, box.y * height];
+  const rad = (box.rotation * Math.PI) / 180;
+  const [cos, sin] = [Math.cos(rad), Math.sin(rad)];
+  const [hw, hh] = [layout.width / 2, layout.height / 2];
+  return [
+    [-hw, -hh],
+    [hw, -hh],
+    [hw, hh],
+    [-hw, hh],
+  ].map(([x, y]) => [cx + x * cos - y * sin, cy + x * sin + y * cos] as [number, number]);
+}
+
+/**
+ * Draws the box onto a canvas of `width` × `height` the way `text.rs` does:
+ * the lines unrotated into a layer, fill over a round-joined stroke, then the
+ * layer rotated over its shadow, all at the box opacity.
+ */
+export function drawTextBox(
+  ctx: CanvasRenderingContext2D,
+  box: TextBox,
+  width: number,
+  height: number,
+  font: PreviewFont | null
+) {
+  const layout = layoutText(box, height, font);
+  const size = layout.size;
+  if (!box.text.trim() || size < 1) return;
+
+  const stroke = Math.max(0, box.stroke_width) * size;
+  const sigma = (Math.max(0, box.shadow_blur) * size) / 2;
+  const pad = Math.ceil(stroke + 3 * sigma) + 2;
+  const layer = document.createElement("canvas");
+  layer.width = Math.ceil(layout.width + 2 * pad);
+  layer.height = Math.ceil(layout.height + 2 * pad);
+  const left = (layer.width - layout.width) / 2;
+  const top = (layer.height - layout.height) / 2;
+  const lctx = layer.getContext("2d")!;
+  lctx.font = layout.font;
+  lctx.textBaseline = "alphabetic";
+  lctx.textAlign = "left";
+  if (stroke > 0) {
+    lctx.lineJoin = "round";
+    lctx.lineWidth = 2 * stroke;
+    lctx.strokeStyle = rgb(box.stroke_color);
+    for (const line of layout.lines) lctx.strokeText(line.text, left + line.x, top + line.baseline);
+  }
+  lctx.fillStyle = rgb(box.color);
+  for (const line of layout.lines) lctx.fillText(line.text, left + line.x, top + line.baseline);
+
+  // The rotated layer and its shadow are grouped so the opacity applies to
+  // them together. Canvas shadows ignore the transform, like the offsets.
+  const shadow = box.shadow_opacity > 0;
+  const [sx, sy] = shadow ? [box.shadow_x * size, box.shadow_y * size] : [0, 0];
+  const [cx, cy] = [box.x * width, box.y * height];
+  const rad = (box.rotation * Math.PI) / 180;
+  const [hw, hh] = [layer.width / 2, layer.height / 2];
+  const ex = hw * Math.abs(Math.cos(rad)) + hh * Math.abs(Math.sin(rad));
+  const ey = hw * Math.abs(Math.sin(rad)) + hh * Math.abs(Math.cos(rad));
+  const x0 = Math.floor(cx - ex + Math.min(0, sx));
+  const y0 = Math.floor(cy - ey + Math.min(0, sy));
+  const group = document.createElement("canvas");
+  group.width = Math.max(1, Math.ceil(cx + ex + Math.max(0, sx)) - x0);
+  group.height = Math.max(1, Math.ceil(cy + ey + Math.max(0, sy)) - y0);
+  const gctx = group.getContext("2d")!;
+  if (shadow) {
+    const [r, g, b] = box.shadow_color;
+    gctx.shadowColor = `rgba(${r}, ${g}, ${b}, ${Math.min(1, box.shadow_opacity)})`;
+    gctx.shadowBlur = 2 * sigma;
+    gctx.shadowOffsetX = sx;
+    gctx.shadowOffsetY = sy;
+  }
+  gctx.translate(cx - x0, cy - y0);
+  gctx.rotate(rad);
+  gctx.drawImage(layer, -hw, -hh);
+
+  ctx.save();
+  ctx.globalAlpha = Math.max(0, Math.min(1, box.opacity));
+  ctx.drawImage(group, x0, y0);
+  ctx.restore();
+}
+
+function rgb([r, g, b]: [number, number, number]): string {
+  return `rgb(${r}, ${g}, ${b})`;
+}